@@ -21,6 +21,7 @@ TESLA_BATTERY_CAPACITY = 13.5     # kWh, each main power module
 FAILSAFE_BLOCKS = 2               # Number of independent physical failsafe backups
 
 DETUNE_DEFAULT = 0.08             # Hz, recommended initial detuning for bridge regime
+OPTIMAL_ENERGY = 10000.0          # J, per-portal energy a scan requires before transport
 
 DAMPING_MIN = 5e-12               # Empirical superconducting resonator damping (Q~10^11)
 DAMPING_MAX = 5e-10               # Empirical superconducting resonator damping (Q~10^9)
@@ -38,6 +39,7 @@ SimulationConfig = {
     "tesla_battery_capacity": TESLA_BATTERY_CAPACITY,
     "failsafe_blocks": FAILSAFE_BLOCKS,
     "detune_default": DETUNE_DEFAULT,
+    "optimal_energy": OPTIMAL_ENERGY,
     "damping_min": DAMPING_MIN,
     "damping_max": DAMPING_MAX,
     "monitor_count": MONITOR_COUNT,
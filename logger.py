@@ -7,6 +7,7 @@ transfers, warnings, and failures. Supports export to CSV and JSON for complianc
 and peer review. Logging is modular and can be attached to all simulation orchestration scripts.
 """
 
+import io
 import json
 import csv
 import os
@@ -52,19 +53,25 @@ class SimulationLogger:
             print("[Logger] No records to export.")
             return
         keys = self.records[0].keys()
+        buffer = io.StringIO()
+        writer = csv.DictWriter(buffer, keys)
+        writer.writeheader()
+        writer.writerows(self.records)
+        data = buffer.getvalue()
         with open(self.csv_filename, "w", newline='') as f:
-            writer = csv.DictWriter(f, keys)
-            writer.writeheader()
-            writer.writerows(self.records)
+            f.write(data)
         print(f"[Logger] Exported log to {self.csv_filename}")
+        return data
 
     def export_json(self):
         if not self.records:
             print("[Logger] No records to export.")
             return
+        data = json.dumps(self.records, indent=4)
         with open(self.json_filename, "w") as f:
-            json.dump(self.records, f, indent=4)
+            f.write(data)
         print(f"[Logger] Exported audit to {self.json_filename}")
+        return data
 
     def clear(self):
         self.records.clear()
@@ -10,6 +10,7 @@ from fastapi.middleware.cors import CORSMiddleware
 from fastapi.staticfiles import StaticFiles
 from contextlib import asynccontextmanager
 import json
+import math
 import asyncio
 from typing import List
 import uvicorn
@@ -58,6 +59,37 @@ class ConnectionManager:
 
 manager = ConnectionManager()
 
+def _is_number(value):
+    return isinstance(value, (int, float)) and not isinstance(value, bool)
+
+def validate_manifest(manifest, payload_volume, payload_mass):
+    """Returns why a load_payload manifest is unusable, or None when it is well formed.
+    The manifest is streamed in every /ws frame, so a malformed one must never be stored."""
+    if not isinstance(manifest, list):
+        return "manifest must be a list of items"
+    total_volume = 0.0
+    total_mass = 0.0
+    for index, item in enumerate(manifest):
+        label = f"manifest item {index + 1}"
+        if not isinstance(item, dict):
+            return f"{label} must be an object"
+        if not isinstance(item.get("material"), str) or not item["material"]:
+            return f"{label}: material must be a non-empty string"
+        count = item.get("count")
+        if not isinstance(count, int) or isinstance(count, bool) or count < 1:
+            return f"{label}: count must be a whole number of at least 1"
+        for key in ("unit_volume", "unit_mass"):
+            if not _is_number(item.get(key)) or item[key] <= 0:
+                return f"{label}: {key} must be a positive number"
+        total_volume += item["unit_volume"] * count
+        total_mass += item["unit_mass"] * count
+    # The client rounds the totals it sends, so allow 0.1% (or the rounding step) of slack
+    if abs(total_volume - payload_volume) > max(payload_volume * 1e-3, 1e-4):
+        return f"manifest volume {total_volume:.4f} m³ does not match payload_volume {payload_volume}"
+    if abs(total_mass - payload_mass) > max(payload_mass * 1e-3, 0.01):
+        return f"manifest mass {total_mass:.2f} kg does not match payload_mass {payload_mass}"
+    return None
+
 @asynccontextmanager
 async def lifespan(app: FastAPI):
     """Initialize simulation on startup"""
@@ -408,10 +440,29 @@ async def scan_portal(portal: int = 1):
         
         portal_obj = dual_portal.portal1 if portal == 1 else dual_portal.portal2
         
+        # Required frequency is what sense_payload would tune to for the committed payload
+        payload = getattr(portal_obj, "payload", None)
+        volume = payload["volume"] if payload else portal_obj.payload_volume
+        config = simulation_state["config"]
+        resonance = config["resonance_frequency"]
+        required_frequency = min(resonance, resonance / volume ** (1/3)) if volume > 0 else resonance
+        
         scan_result = {
             "status": "success",
             "portal": portal,
             "contents": f"Portal {portal} ready for transport",
+            "payload": payload,
+            "measured": {
+                "frequency": portal_obj.freq,
+                "energy": portal_obj.energy,
+                "stability": portal_obj.stability,
+                "volume": portal_obj.payload_volume,
+                "mass": portal_obj.payload_mass
+            },
+            "required": {
+                "frequency": required_frequency,
+                "energy": config["optimal_energy"]
+            },
             "required_params": {
                 "frequency": f"{portal_obj.freq:.2f} Hz",
                 "energy": f"{portal_obj.energy:.1f} J",
@@ -419,7 +470,7 @@ async def scan_portal(portal: int = 1):
             },
             "recommendations": {
                 "optimal_frequency": "30.0 Hz",
-                "optimal_energy": "10000 J",
+                "optimal_energy": f"{config['optimal_energy']:.0f} J",
                 "payload_compatibility": "All material types supported"
             }
         }
@@ -477,6 +528,17 @@ async def load_payload(request: dict):
         payload_type = request.get("payload_type", "Gold")
         payload_volume = request.get("payload_volume", 0.1)
         payload_mass = request.get("payload_mass", 75.0)
+        if not isinstance(payload_type, str) or not _is_number(payload_volume) or not _is_number(payload_mass):
+            return {"status": "error", "message": "payload_type must be a string and payload_volume/payload_mass numbers"}
+        # sense_payload takes a cube root of the volume, so this is checked before anything is stored
+        if not all(math.isfinite(value) and value > 0 for value in (payload_volume, payload_mass)):
+            return {"status": "error", "message": "payload_volume and payload_mass must be positive finite numbers"}
+        # Composite payloads list their items; the totals above are still authoritative
+        manifest = request.get("manifest")
+        if manifest is not None:
+            problem = validate_manifest(manifest, payload_volume, payload_mass)
+            if problem:
+                return {"status": "error", "message": problem}
         
         dual_portal = simulation_state["dual_portal"]
         if not dual_portal:
@@ -490,6 +552,10 @@ async def load_payload(request: dict):
             "mass": payload_mass,
             "loaded": True
         }
+        if manifest is not None:
+            portal_obj.payload["manifest"] = manifest
+        # Loading retunes the portal to its contents, the same way initialize_run does
+        portal_obj.sense_payload(volume=payload_volume, mass=payload_mass)
         
         logger = simulation_state.get("logger")
         if logger:
@@ -506,7 +572,8 @@ async def load_payload(request: dict):
             "payload": {
                 "type": payload_type,
                 "volume": payload_volume,
-                "mass": payload_mass
+                "mass": payload_mass,
+                "manifest": manifest
             }
         }
     except Exception as e:
@@ -755,6 +822,7 @@ async def websocket_endpoint(websocket: WebSocket):
                             "safety_status": dual_portal.portal1.safety_status,
                             "payload_volume": dual_portal.portal1.payload_volume,
                             "payload_mass": dual_portal.portal1.payload_mass,
+                            "payload": getattr(dual_portal.portal1, "payload", None),
                             "status_log": dual_portal.portal1.report_status()
                         },
                         "portal2": {
@@ -767,6 +835,7 @@ async def websocket_endpoint(websocket: WebSocket):
                             "safety_status": dual_portal.portal2.safety_status,
                             "payload_volume": dual_portal.portal2.payload_volume,
                             "payload_mass": dual_portal.portal2.payload_mass,
+                            "payload": getattr(dual_portal.portal2, "payload", None),
                             "status_log": dual_portal.portal2.report_status()
                         },
                         "bridge_strength": dual_portal.bridge_strength,
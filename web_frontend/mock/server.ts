@@ -0,0 +1,232 @@
+// Local stand-in for main.py. Serves the same REST routes and /ws + /ws/logs streams
+// from the TypeScript portal model, with failure injection for UI development and
+// end-to-end tests. Run with `npm run mock` and point VITE_BACKEND_URL at it.
+//
+// Faults can be set at startup with flags or at runtime through the /__mock routes:
+//   --port=8080            listen port (default 8080, same as main.py)
+//   --telemetry=random     add sensor noise to every frame (default: scripted)
+//   --latency=1500         delay every REST response by this many ms
+//   --error-rate=0.2       answer this fraction of REST calls with HTTP 500
+//   --fail-routes=/api/form_bridge,/api/transfer_payload   always answer HTTP 500
+//   --drop-every=30000     drop all sockets (no close frame) on this interval
+//   --safety-fail=1|2|both trip the floor sensors of a portal after initialize
+//
+//   GET  /__mock/faults          current fault settings
+//   POST /__mock/faults          merge a JSON body of fault settings
+//   POST /__mock/drop-sockets    drop every open socket once
+//   POST /__mock/safety-fail     {"portal": 1 | 2 | "both"} trip floor sensors now
+//   POST /__mock/reset           clear faults and discard the simulation
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http'
+import { WebSocketServer, type WebSocket } from 'ws'
+import { SimulationBackend } from '../src/lib/simulation-backend'
+
+type SafetyTarget = 1 | 2 | 'both'
+
+interface Faults {
+  latencyMs: number;
+  errorRate: number;
+  failRoutes: string[];
+  dropEveryMs: number;
+  safetyFail: SafetyTarget | null;
+}
+
+const FRAME_INTERVAL_MS = 2000
+const LOG_INTERVAL_MS = 1000
+// Floor temperature reported by a tripped sensor, well above the -195.79 °C threshold
+const TRIPPED_FLOOR_TEMP = -150.0
+
+const DEFAULT_FAULTS: Faults = { latencyMs: 0, errorRate: 0, failRoutes: [], dropEveryMs: 0, safetyFail: null }
+
+const args = new Map(
+  process.argv.slice(2).map((arg) => {
+    const [key, value = 'true'] = arg.replace(/^--/, '').split('=')
+    return [key, value] as const
+  })
+)
+
+const parseSafetyTarget = (value: unknown): SafetyTarget | null => {
+  if (value === 'both') return 'both'
+  const portal = Number(value)
+  return portal === 1 || portal === 2 ? portal : null
+}
+
+const port = Number(args.get('port') ?? 8080)
+const randomTelemetry = args.get('telemetry') === 'random'
+let faults: Faults = {
+  latencyMs: Number(args.get('latency') ?? 0),
+  errorRate: Number(args.get('error-rate') ?? 0),
+  failRoutes: args.get('fail-routes')?.split(',').filter(Boolean) ?? [],
+  dropEveryMs: Number(args.get('drop-every') ?? 0),
+  safetyFail: parseSafetyTarget(args.get('safety-fail'))
+}
+
+let backend = new SimulationBackend()
+const frameSockets = new Set<WebSocket>()
+const logSockets = new Set<WebSocket>()
+
+const eventLoopTime = () => performance.now() / 1000
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function tripSafety(target: SafetyTarget) {
+  const dp = backend.dualPortal
+  if (target === 1 || target === 'both') {
+    backend.hardware.temp1 = TRIPPED_FLOOR_TEMP
+    dp?.portal1.floorSensor(TRIPPED_FLOOR_TEMP)
+  }
+  if (target === 2 || target === 'both') {
+    backend.hardware.temp2 = TRIPPED_FLOOR_TEMP
+    dp?.portal2.floorSensor(TRIPPED_FLOOR_TEMP)
+  }
+  console.log(`[mock] Safety failure injected on portal ${target}`)
+}
+
+function dropSockets() {
+  const count = frameSockets.size + logSockets.size
+  // terminate() skips the close handshake, so clients see an abnormal closure (1006)
+  ;[...frameSockets, ...logSockets].forEach(socket => socket.terminate())
+  console.log(`[mock] Dropped ${count} socket(s)`)
+}
+
+// Sensor noise for --telemetry=random; stays below the safety threshold so it never trips a portal
+function jitterTelemetry() {
+  const dp = backend.dualPortal
+  if (!dp) return
+  for (const portal of [dp.portal1, dp.portal2]) {
+    if (!portal.safety_status) continue
+    portal.floor_temp = -196.0 + (Math.random() - 0.5) * 0.3
+    portal.power = 5000.0 * (1 + (Math.random() - 0.5) * 0.04)
+  }
+}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    let raw = ''
+    req.on('data', chunk => {
+      raw += chunk
+    })
+    req.on('end', () => {
+      if (!raw) return resolve(undefined)
+      try {
+        resolve(JSON.parse(raw))
+      } catch (error) {
+        reject(error)
+      }
+    })
+    req.on('error', reject)
+  })
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': '*'
+  })
+  res.end(JSON.stringify(body))
+}
+
+function handleControl(path: string, body: unknown): unknown {
+  switch (path) {
+    case 'GET /__mock/faults':
+      return faults
+    case 'POST /__mock/faults': {
+      const update = (body ?? {}) as Partial<Faults>
+      faults = { ...faults, ...update, safetyFail: parseSafetyTarget(update.safetyFail ?? faults.safetyFail) }
+      restartDropTimer()
+      return faults
+    }
+    case 'POST /__mock/drop-sockets':
+      dropSockets()
+      return { dropped: true }
+    case 'POST /__mock/safety-fail': {
+      const target = parseSafetyTarget((body as { portal?: unknown } | undefined)?.portal ?? 'both')
+      if (target) tripSafety(target)
+      return { tripped: target }
+    }
+    case 'POST /__mock/reset':
+      faults = { ...DEFAULT_FAULTS }
+      backend = new SimulationBackend()
+      restartDropTimer()
+      return { reset: true }
+    default:
+      return null
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const method = req.method ?? 'GET'
+  if (method === 'OPTIONS') return send(res, 204, null)
+  const url = new URL(req.url ?? '/', `http://localhost:${port}`)
+
+  let body: unknown
+  try {
+    body = await readBody(req)
+  } catch {
+    return send(res, 422, { detail: 'Invalid JSON body' })
+  }
+
+  if (url.pathname.startsWith('/__mock/')) {
+    const result = handleControl(`${method} ${url.pathname}`, body)
+    return result === null ? send(res, 404, { detail: 'Not Found' }) : send(res, 200, result)
+  }
+
+  if (method !== 'GET' && method !== 'POST') return send(res, 405, { detail: 'Method Not Allowed' })
+
+  if (faults.latencyMs > 0) await sleep(faults.latencyMs)
+  if (faults.failRoutes.includes(url.pathname) || Math.random() < faults.errorRate) {
+    console.log(`[mock] Injected HTTP 500 for ${method} ${url.pathname}`)
+    return send(res, 500, { detail: 'Internal Server Error (injected by mock)' })
+  }
+
+  const result = backend.handle(method, url.pathname, Object.fromEntries(url.searchParams), body)
+  if (url.pathname === '/api/initialize' && faults.safetyFail) tripSafety(faults.safetyFail)
+  send(res, result.status, result.body)
+})
+
+const frameServer = new WebSocketServer({ noServer: true })
+const logServer = new WebSocketServer({ noServer: true })
+
+server.on('upgrade', (req, socket, head) => {
+  const { pathname } = new URL(req.url ?? '/', `http://localhost:${port}`)
+  const target = pathname === '/ws' ? frameServer : pathname === '/ws/logs' ? logServer : null
+  if (!target) {
+    socket.destroy()
+    return
+  }
+  target.handleUpgrade(req, socket, head, ws => target.emit('connection', ws, req))
+})
+
+const track = (sockets: Set<WebSocket>) => (ws: WebSocket) => {
+  sockets.add(ws)
+  ws.on('close', () => sockets.delete(ws))
+}
+frameServer.on('connection', track(frameSockets))
+logServer.on('connection', track(logSockets))
+
+// main.py advances the model once per connected client; here every /ws client shares one tick
+// so opening extra tabs does not change how fast energy accumulates
+setInterval(() => {
+  if (frameSockets.size === 0) return
+  if (randomTelemetry) jitterTelemetry()
+  const frame = JSON.stringify(backend.nextFrame(eventLoopTime()))
+  frameSockets.forEach(ws => ws.send(frame))
+}, FRAME_INTERVAL_MS)
+
+setInterval(() => {
+  if (logSockets.size === 0) return
+  const logs = JSON.stringify(backend.logsFrame(eventLoopTime()))
+  logSockets.forEach(ws => ws.send(logs))
+}, LOG_INTERVAL_MS)
+
+let dropTimer: ReturnType<typeof setInterval> | undefined
+function restartDropTimer() {
+  clearInterval(dropTimer)
+  dropTimer = faults.dropEveryMs > 0 ? setInterval(dropSockets, faults.dropEveryMs) : undefined
+}
+restartDropTimer()
+
+server.listen(port, () => {
+  console.log(`[mock] Stargate mock backend on http://localhost:${port} (${randomTelemetry ? 'random' : 'scripted'} telemetry)`)
+  console.log('[mock] Faults:', JSON.stringify(faults))
+})
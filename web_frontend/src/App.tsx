@@ -1,99 +1,77 @@
-import { useState, useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import PortalDisplay from './components/PortalDisplay'
 import BridgeDisplay from './components/BridgeDisplay'
 import PayloadControls_v2 from './components/PayloadControls_v2'
+import PayloadManifestEditor from './components/PayloadManifestEditor'
+import PayloadQueue from './components/PayloadQueue'
 import EnergyControls_v2 from './components/EnergyControls_v2'
 import OperationsControls_v2 from './components/OperationsControls_v2'
+import BridgeOptimizer from './components/BridgeOptimizer'
 import Portal3D from './components/Portal3D'
+import ConnectionStatus from './components/ConnectionStatus'
+import TelemetryCharts from './components/TelemetryCharts'
+import SessionReplay from './components/SessionReplay'
+import SweepHistory from './components/SweepHistory'
+import LogViewer from './components/LogViewer'
+import ExportPanel from './components/ExportPanel'
+import RunReport from './components/RunReport'
+import TransferSequencer from './components/TransferSequencer'
+import HardwarePanel from './components/HardwarePanel'
+import AlarmBanner from './components/AlarmBanner'
+import AlarmPanel from './components/AlarmPanel'
+import { useSocketConnection } from './hooks/use-socket-connection'
+import { useSimulationStore } from './hooks/use-simulation-store'
+import { useOfflineMode, useOfflineSimulation } from './hooks/use-offline-simulation'
+import * as api from './lib/api'
+import * as actions from './lib/simulation-actions'
+import { evaluateFrame, reportConnection } from './lib/alarm-manager'
+import { ingestFrame } from './lib/log-store'
+import { parseFrame } from './lib/frame-schema'
+import { setOfflineMode } from './lib/offline-mode'
+import { recordFrame } from './lib/session-recorder'
+import { dispatch, portalKey, selectReplayRunId, selectView } from './lib/simulation-store'
 import './components/SliderStyles.css'
 
-interface SimulationData {
-  status: string;
-  run_id?: string;
-  portal1?: any;
-  portal2?: any;
-  bridge_strength?: number;
-  transfer_energy?: number;
-  detune?: number;
-}
-
 function App() {
-  const [simulationData, setSimulationData] = useState<SimulationData>({ status: 'disconnected' })
-  const [wsConnected, setWsConnected] = useState(false)
-  useEffect(() => {
-    const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-    const wsProtocol = backendUrl.startsWith('https://') ? 'wss://' : 'ws://'
-    const wsUrl = backendUrl.replace(/^https?:\/\//, wsProtocol) + '/ws'
-    
-    let ws: WebSocket
-    let reconnectAttempts = 0
-    const maxReconnectAttempts = 10
-    
-    const connect = () => {
-      console.log('Connecting to WebSocket:', wsUrl)
-      ws = new WebSocket(wsUrl)
-      
-      const connectionTimeout = setTimeout(() => {
-        if (ws.readyState === WebSocket.CONNECTING) {
-          console.log('WebSocket connection timeout after 120s')
-          ws.close()
-        }
-      }, 120000)
-      
-      ws.onopen = () => {
-        clearTimeout(connectionTimeout)
-        setWsConnected(true)
-        reconnectAttempts = 0
-        console.log('WebSocket connected successfully')
-      }
-      
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data)
-          setSimulationData(data)
-        } catch (error) {
-          console.error('Error parsing WebSocket data:', error)
-        }
-      }
-      
-      ws.onclose = (event) => {
-        clearTimeout(connectionTimeout)
-        setWsConnected(false)
-        console.log('WebSocket disconnected - Code:', event.code, 'Reason:', event.reason)
-        console.log('WebSocket readyState:', ws.readyState)
-        
-        if (reconnectAttempts < maxReconnectAttempts) {
-          const delay = Math.min(5000 * Math.pow(2, reconnectAttempts), 30000) // Exponential backoff, max 30s
-          console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttempts + 1}/${maxReconnectAttempts})`)
-          reconnectAttempts++
-          setTimeout(connect, delay)
-        } else {
-          console.error('Max reconnection attempts reached')
-        }
-      }
-      
-      ws.onerror = (error) => {
-        console.error('WebSocket error:', error)
-        setWsConnected(false)
-      }
-    }
-    
-    connect()
+  const simulationData = useSimulationStore(selectView)
+  const quarantinedFrames = useSimulationStore(state => state.quarantinedFrames)
+  const replayRunId = useSimulationStore(selectReplayRunId)
+  const offline = useOfflineMode()
+  const [visualizedPortal, setVisualizedPortal] = useState<api.PortalId>(1)
 
-    return () => {
-      if (ws) {
-        ws.close()
-      }
+  const handleFrame = (data: string) => {
+    const result = parseFrame(data)
+    if (result.ok) {
+      const receivedAt = Date.now()
+      dispatch({ type: 'FRAME_RECEIVED', frame: result.frame, receivedAt })
+      evaluateFrame(result.frame)
+      ingestFrame(result.frame, receivedAt)
+      recordFrame(result.frame, receivedAt).catch(error => {
+        console.error('Error recording WebSocket frame:', error)
+      })
+      return result.frame.timestamp
     }
-  }, [])
+    console.error('Rejected WebSocket frame (schema mismatch):', result.quarantined.issues)
+    dispatch({ type: 'FRAME_QUARANTINED', quarantined: result.quarantined })
+  }
+
+  // Live frames are ignored while the in-browser model is driving the panels
+  const connection = useSocketConnection({
+    url: api.websocketUrl('/ws'),
+    onMessage: (data) => (offline ? undefined : handleFrame(data))
+  })
+  useOfflineSimulation(offline, handleFrame)
+
+  // Only a stream that was up and then dropped counts; the initial dial is not an alarm
+  const socketDown = !offline && connection.lastFrameAt !== null &&
+    (connection.state === 'reconnecting' || connection.state === 'failed')
+  useEffect(() => {
+    reportConnection(socketDown)
+  }, [socketDown])
 
   const initializeSimulation = async () => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/initialize?payload_volume=0.1&payload_mass=75.0`, {
-        method: 'POST'
-      })
-      const data = await response.json()
+      const data = await actions.initialize(0.1, 75.0)
       console.log('Simulation initialized:', data)
     } catch (error) {
       console.error('Error initializing simulation:', error)
@@ -112,19 +90,52 @@ function App() {
             Dual Portal Resonance Bridge with Empirical Physics
           </div>
           <div className="flex items-center justify-center space-x-4 mb-4">
-            <div className={`flex items-center space-x-2 ${wsConnected ? 'text-green-400' : 'text-red-400'}`}>
-              <div className={`w-3 h-3 rounded-full ${wsConnected ? 'bg-green-400 animate-pulse' : 'bg-red-500'}`}></div>
-              <span className="text-sm font-mono">
-                WebSocket: {wsConnected ? 'Connected' : 'Disconnected'}
-              </span>
-            </div>
+            <ConnectionStatus label="WebSocket" connection={connection} />
             <button
               onClick={initializeSimulation}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium transition-colors"
             >
               Initialize Simulation
             </button>
+            <button
+              onClick={() => setOfflineMode(!offline)}
+              className={`px-4 py-2 rounded text-sm font-medium transition-colors ${
+                offline ? 'bg-indigo-600 hover:bg-indigo-700' : 'bg-gray-700 hover:bg-gray-600'
+              }`}
+              title="Run the portal model in the browser instead of the FastAPI backend"
+            >
+              Offline Simulation: {offline ? 'ON' : 'OFF'}
+            </button>
           </div>
+          <AlarmBanner />
+          {replayRunId && (
+            <div className="max-w-2xl mx-auto mb-4 bg-purple-900 border border-purple-500 rounded p-2 text-sm font-bold text-purple-100">
+              ⏪ REPLAY MODE - showing recorded run {replayRunId}. Controls still act on the live backend.
+            </div>
+          )}
+          {quarantinedFrames.length > 0 && (
+            <div className="max-w-2xl mx-auto mb-4 bg-red-900 border border-red-500 rounded p-2 text-left">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-bold text-red-100">
+                  ⚠️ Schema mismatch: {quarantinedFrames.length} frame{quarantinedFrames.length === 1 ? '' : 's'} rejected
+                </span>
+                <button
+                  onClick={() => dispatch({ type: 'QUARANTINE_CLEARED' })}
+                  className="px-2 py-1 bg-red-700 hover:bg-red-600 rounded text-xs font-medium transition-colors"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <div className="text-xs text-red-200 mt-1">
+                Showing last valid data. Latest rejection at {new Date(quarantinedFrames[quarantinedFrames.length - 1].receivedAt).toLocaleTimeString()}:
+              </div>
+              <ul className="text-xs font-mono text-red-100 mt-1 space-y-0.5">
+                {quarantinedFrames[quarantinedFrames.length - 1].issues.slice(0, 5).map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         <div className="mt-8 bg-black border border-white rounded-lg p-6">
@@ -215,13 +226,21 @@ function App() {
               <PortalDisplay 
                 portalNumber={1}
                 title="Portal 1 - Origin Gate"
-                portal={simulationData.portal1}
+                portal={simulationData.portal1 ?? undefined}
               />
             </div>
             
             <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
               <PayloadControls_v2 />
             </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <PayloadManifestEditor />
+            </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <PayloadQueue />
+            </div>
             
             <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
               <EnergyControls_v2 portalNumber={1} />
@@ -236,6 +255,14 @@ function App() {
             <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
               <OperationsControls_v2 />
             </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <BridgeOptimizer />
+            </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <TransferSequencer />
+            </div>
           </div>
 
           <div className="lg:col-span-1 space-y-6">
@@ -243,20 +270,68 @@ function App() {
               <PortalDisplay 
                 portalNumber={2}
                 title="Portal 2 - Destination Gate"
-                portal={simulationData.portal2}
+                portal={simulationData.portal2 ?? undefined}
               />
             </div>
             
             <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
               <EnergyControls_v2 portalNumber={2} />
             </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <HardwarePanel />
+            </div>
+
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <AlarmPanel />
+            </div>
             
             <div className="bg-gray-900 border border-gray-700 rounded-lg p-4">
-              <Portal3D title="Portal 3D Visualization" />
+              <div className="flex space-x-2 mb-3">
+                {([1, 2] as const).map(portalId => (
+                  <button
+                    key={portalId}
+                    onClick={() => setVisualizedPortal(portalId)}
+                    className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                      visualizedPortal === portalId ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    }`}
+                  >
+                    Portal {portalId}
+                  </button>
+                ))}
+              </div>
+              <Portal3D
+                title="Portal 3D Visualization"
+                portalData={simulationData[portalKey(visualizedPortal)] ?? undefined}
+              />
             </div>
           </div>
         </div>
 
+        <div className="mt-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+          <TelemetryCharts />
+        </div>
+
+        <div className="mt-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+          <LogViewer />
+        </div>
+
+        <div className="mt-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+          <SweepHistory />
+        </div>
+
+        <div className="mt-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+          <SessionReplay />
+        </div>
+
+        <div className="mt-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+          <ExportPanel />
+        </div>
+
+        <div className="mt-6 bg-gray-900 border border-gray-700 rounded-lg p-4">
+          <RunReport />
+        </div>
+
         <div className="mt-8 bg-gray-900 border border-gray-700 rounded-lg p-4">
           <div className="text-center">
             <div className="text-sm text-gray-400 mb-2">
@@ -1,69 +1,36 @@
-import { useState, useEffect } from 'react'
 import PortalDisplay from './components/PortalDisplay'
 import BridgeDisplay from './components/BridgeDisplay'
 import PayloadControls_v2 from './components/PayloadControls_v2'
 import EnergyControls_v2 from './components/EnergyControls_v2'
 import OperationsControls_v2 from './components/OperationsControls_v2'
 import Portal3D from './components/Portal3D'
+import ConnectionStatus from './components/ConnectionStatus'
+import { useSocketConnection } from './hooks/use-socket-connection'
+import { useSimulationStore } from './hooks/use-simulation-store'
+import * as api from './lib/api'
+import { parseFrame } from './lib/frame-schema'
+import * as actions from './lib/simulation-actions'
+import { dispatch, selectView } from './lib/simulation-store'
 import './components/SliderStyles.css'
 
-interface SimulationData {
-  status: string;
-  run_id?: string;
-  portal1?: any;
-  portal2?: any;
-  bridge_strength?: number;
-  transfer_energy?: number;
-  detune?: number;
-  status_log?: string[];
-}
-
 function App_v8() {
-  const [simulationData, setSimulationData] = useState<SimulationData>({ status: 'idle' })
-  const [wsConnected, setWsConnected] = useState(false)
-
-  useEffect(() => {
-    const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-    const wsUrl = backendUrl.replace('http', 'ws') + '/ws'
-    
-    const ws = new WebSocket(wsUrl)
-    
-    ws.onopen = () => {
-      console.log('WebSocket connected')
-      setWsConnected(true)
-    }
-    
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data)
-        setSimulationData(data)
-      } catch (error) {
-        console.error('Error parsing WebSocket data:', error)
+  const simulationData = useSimulationStore(selectView)
+  const connection = useSocketConnection({
+    url: api.websocketUrl('/ws'),
+    onMessage: (data) => {
+      const result = parseFrame(data)
+      if (result.ok) {
+        dispatch({ type: 'FRAME_RECEIVED', frame: result.frame, receivedAt: Date.now() })
+        return result.frame.timestamp
       }
+      console.error('Rejected WebSocket frame (schema mismatch):', result.quarantined.issues)
+      dispatch({ type: 'FRAME_QUARANTINED', quarantined: result.quarantined })
     }
-    
-    ws.onclose = () => {
-      console.log('WebSocket disconnected')
-      setWsConnected(false)
-    }
-    
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error)
-      setWsConnected(false)
-    }
-    
-    return () => {
-      ws.close()
-    }
-  }, [])
+  })
 
   const initializeSimulation = async () => {
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/initialize`, {
-        method: 'POST'
-      })
-      const data = await response.json()
+      const data = await actions.initialize()
       console.log('Simulation initialized:', data)
     } catch (error) {
       console.error('Error initializing simulation:', error)
@@ -81,12 +48,7 @@ function App_v8() {
             Dual Portal Resonance Bridge with Empirical Physics
           </div>
           <div className="flex items-center justify-center space-x-4 mb-4">
-            <div className={`flex items-center space-x-2 ${wsConnected ? 'text-green-400' : 'text-red-400'}`}>
-              <div className={`w-3 h-3 rounded-full ${wsConnected ? 'bg-green-400 animate-pulse' : 'bg-red-500'}`}></div>
-              <span className="text-sm font-mono">
-                WebSocket: {wsConnected ? 'Connected' : 'Disconnected'}
-              </span>
-            </div>
+            <ConnectionStatus label="WebSocket" connection={connection} />
             <button
               onClick={initializeSimulation}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded text-sm font-medium transition-colors"
@@ -102,7 +64,7 @@ function App_v8() {
               <PortalDisplay 
                 portalNumber={1}
                 title="Portal 1 - Origin Gate"
-                portal={simulationData.portal1}
+                portal={simulationData.portal1 ?? undefined}
               />
             </div>
             
@@ -130,7 +92,7 @@ function App_v8() {
               <PortalDisplay 
                 portalNumber={2}
                 title="Portal 2 - Destination Gate"
-                portal={simulationData.portal2}
+                portal={simulationData.portal2 ?? undefined}
               />
             </div>
             
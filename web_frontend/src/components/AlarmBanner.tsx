@@ -0,0 +1,49 @@
+import React from 'react'
+import { SEVERITY_ORDER, acknowledgeAll, isActive, isShelved } from '../lib/alarm-manager'
+import { useAlarms } from '../hooks/use-alarms'
+import { useNow } from '../hooks/use-now'
+
+const BANNER_STYLES = {
+  critical: 'bg-red-900 border-red-500 text-red-100',
+  major: 'bg-orange-900 border-orange-500 text-orange-100',
+  minor: 'bg-yellow-900 border-yellow-500 text-yellow-100'
+}
+
+const AlarmBanner: React.FC = () => {
+  const alarmState = useAlarms(state => state)
+  const now = useNow(10000)
+
+  const visible = alarmState.alarms.filter(alarm => isActive(alarm) && !isShelved(alarmState, alarm.key, now))
+  if (visible.length === 0) return null
+
+  const unacknowledged = visible.filter(alarm => alarm.acknowledgedAt === null)
+  const highest = [...visible].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.raisedAt - a.raisedAt
+  )[0]
+
+  return (
+    <div className={`max-w-2xl mx-auto mb-4 border rounded p-2 text-left ${BANNER_STYLES[highest.severity]} ${
+      unacknowledged.length > 0 ? 'animate-pulse' : ''
+    }`}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold">
+          🚨 {visible.length} active alarm{visible.length === 1 ? '' : 's'}
+          {unacknowledged.length > 0 && ` (${unacknowledged.length} unacknowledged)`}
+        </span>
+        {unacknowledged.length > 0 && (
+          <button
+            onClick={acknowledgeAll}
+            className="px-2 py-1 bg-gray-800 hover:bg-gray-700 rounded text-xs font-medium transition-colors"
+          >
+            Acknowledge All
+          </button>
+        )}
+      </div>
+      <div className="text-xs mt-1">
+        {highest.severity.toUpperCase()}: {highest.label} - {highest.detail}
+      </div>
+    </div>
+  )
+}
+
+export default AlarmBanner
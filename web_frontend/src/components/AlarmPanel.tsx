@@ -0,0 +1,170 @@
+import React, { useState } from 'react'
+import {
+  SEVERITY_ORDER,
+  SHELVE_DURATIONS_MS,
+  acknowledgeAlarm,
+  clearAlarmHistory,
+  isActive,
+  isShelved,
+  setAlarmTone,
+  shelveAlarm,
+  unshelveAlarm,
+  type Alarm,
+  type AlarmSeverity
+} from '../lib/alarm-manager'
+import { useAlarms } from '../hooks/use-alarms'
+import { useNow } from '../hooks/use-now'
+
+const SEVERITY_STYLES: Record<AlarmSeverity, string> = {
+  critical: 'bg-red-600 text-white',
+  major: 'bg-orange-600 text-white',
+  minor: 'bg-yellow-600 text-black'
+}
+
+const formatTime = (value: number) => new Date(value).toLocaleTimeString()
+
+// Unacknowledged first, then by severity, then newest
+const byPriority = (a: Alarm, b: Alarm) =>
+  Number(a.acknowledgedAt !== null) - Number(b.acknowledgedAt !== null) ||
+  SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+  b.raisedAt - a.raisedAt
+
+const AlarmPanel: React.FC = () => {
+  const alarmState = useAlarms(state => state)
+  const now = useNow(10000)
+  const [view, setView] = useState<'active' | 'history'>('active')
+
+  const active = alarmState.alarms.filter(isActive).sort(byPriority)
+  const shelvedKeys = Object.keys(alarmState.shelved).filter(key => isShelved(alarmState, key, now))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400 font-semibold">Alarms</div>
+        <button
+          onClick={() => setAlarmTone(!alarmState.toneEnabled)}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          title="Sound a tone when a new alarm is raised"
+        >
+          {alarmState.toneEnabled ? '🔔 Tone on' : '🔕 Tone off'}
+        </button>
+      </div>
+
+      <div className="flex space-x-2">
+        {(['active', 'history'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+              view === option ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            }`}
+          >
+            {option === 'active' ? `Active (${active.length})` : `History (${alarmState.alarms.length})`}
+          </button>
+        ))}
+      </div>
+
+      {view === 'active' && (
+        <div className="space-y-2">
+          {active.length === 0 && <div className="text-xs text-gray-500">No active alarms</div>}
+          {active.map(alarm => {
+            const shelved = isShelved(alarmState, alarm.key, now)
+            return (
+              <div
+                key={alarm.id}
+                className={`bg-gray-800 border rounded p-2 text-xs space-y-1 ${
+                  alarm.acknowledgedAt === null ? 'border-red-500' : 'border-gray-600'
+                } ${shelved ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-1 rounded font-bold ${SEVERITY_STYLES[alarm.severity]}`}>
+                      {alarm.severity.toUpperCase()}
+                    </span>
+                    <span className="text-gray-200">{alarm.label}</span>
+                  </div>
+                  <span className="text-gray-400">{formatTime(alarm.raisedAt)}</span>
+                </div>
+                <div className="text-gray-400">
+                  {alarm.detail}
+                  {alarm.clearedAt !== null && ` · cleared ${formatTime(alarm.clearedAt)}`}
+                  {alarm.acknowledgedAt !== null && ' · acknowledged'}
+                  {shelved && ' · shelved'}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {alarm.acknowledgedAt === null && (
+                    <button
+                      onClick={() => acknowledgeAlarm(alarm.id)}
+                      className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                  {!shelved && (
+                    <select
+                      value=""
+                      onChange={(e) => shelveAlarm(alarm.key, Number(e.target.value))}
+                      className="bg-gray-700 border border-gray-500 rounded px-1 py-1 text-xs text-gray-300"
+                    >
+                      <option value="" disabled>Shelve…</option>
+                      {SHELVE_DURATIONS_MS.map(duration => (
+                        <option key={duration} value={duration}>{duration / 60000} min</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+
+          {shelvedKeys.length > 0 && (
+            <div className="bg-gray-800 border border-gray-600 rounded p-2 space-y-1">
+              <div className="text-xs text-gray-200">Shelved</div>
+              {shelvedKeys.map(key => (
+                <div key={key} className="flex items-center justify-between text-xs">
+                  <span className="text-gray-400 font-mono">{key}</span>
+                  <span className="text-gray-500">until {formatTime(alarmState.shelved[key])}</span>
+                  <button
+                    onClick={() => unshelveAlarm(key)}
+                    className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+                  >
+                    Unshelve
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {view === 'history' && (
+        <div className="space-y-2">
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {alarmState.alarms.length === 0 && <div className="text-xs text-gray-500">No alarms recorded</div>}
+            {alarmState.alarms.map(alarm => (
+              <div key={alarm.id} className="grid grid-cols-[auto_1fr_auto] gap-2 text-xs items-center bg-gray-800 rounded p-1">
+                <span className={`px-1 rounded font-bold ${SEVERITY_STYLES[alarm.severity]}`}>
+                  {alarm.severity[0].toUpperCase()}
+                </span>
+                <span className="text-gray-300 truncate" title={alarm.detail}>{alarm.label}</span>
+                <span className="text-gray-500 font-mono">
+                  {new Date(alarm.raisedAt).toLocaleString()}
+                  {alarm.clearedAt !== null ? ` → ${formatTime(alarm.clearedAt)}` : ' (open)'}
+                </span>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={clearAlarmHistory}
+            disabled={alarmState.alarms.every(isActive)}
+            className="w-full px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+          >
+            Clear finished alarms
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AlarmPanel
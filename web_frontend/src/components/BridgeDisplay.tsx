@@ -1,20 +1,13 @@
 import React from 'react'
+import BridgeScene3D from './BridgeScene3D'
 import MonitoringDashboard from './MonitoringDashboard'
 import OperationsControls from './OperationsControls'
-
-interface SimulationData {
-  status: string;
-  run_id?: string;
-  portal1?: any;
-  portal2?: any;
-  bridge_strength?: number;
-  transfer_energy?: number;
-  detune?: number;
-  status_log?: string[];
-}
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import type { SimulationFrame } from '../lib/frame-schema'
 
 interface BridgeDisplayProps {
-  simulationData: SimulationData;
+  simulationData: SimulationFrame;
 }
 
 const BridgeDisplay: React.FC<BridgeDisplayProps> = ({ simulationData }) => {
@@ -22,11 +15,7 @@ const BridgeDisplay: React.FC<BridgeDisplayProps> = ({ simulationData }) => {
 
   const handleFormBridge = async () => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/form_bridge`, {
-        method: 'POST'
-      })
-      const data = await response.json()
+      const data = await actions.formBridge()
       console.log('Bridge formation:', data)
     } catch (error) {
       console.error('Error forming bridge:', error)
@@ -35,11 +24,7 @@ const BridgeDisplay: React.FC<BridgeDisplayProps> = ({ simulationData }) => {
 
   const handleTransferPayload = async () => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/transfer_payload`, {
-        method: 'POST'
-      })
-      const data = await response.json()
+      const data = await actions.transferPayload()
       console.log('Payload transfer:', data)
     } catch (error) {
       console.error('Error transferring payload:', error)
@@ -48,11 +33,7 @@ const BridgeDisplay: React.FC<BridgeDisplayProps> = ({ simulationData }) => {
 
   const handleUpdateEnergy = async () => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/update_energy?dt=1.0`, {
-        method: 'POST'
-      })
-      const data = await response.json()
+      const data = await api.updateEnergy(1.0)
       console.log('Energy update:', data)
     } catch (error) {
       console.error('Error updating energy:', error)
@@ -228,8 +209,8 @@ const BridgeDisplay: React.FC<BridgeDisplayProps> = ({ simulationData }) => {
       <div className="border-t border-gray-600 pt-4">
         <div className="text-sm text-gray-200 mb-3">Bridge Visualization &amp; Controls</div>
         <div className="bg-gray-700 rounded p-4 text-center">
-          <div className="text-4xl mb-3">
-            {bridge_strength && bridge_strength > 0.5 ? '🌀' : '⭕'}
+          <div className="mb-3">
+            <BridgeScene3D portal1={portal1} portal2={portal2} bridgeStrength={bridge_strength} detune={detune} />
           </div>
           <div className={`text-sm font-bold ${
             bridge_strength && bridge_strength > 0.5 ? 'text-green-400' : 'text-red-400'
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { getSimulationState, selectView } from '../lib/simulation-store'
+import { SIMULATION_CONFIG } from '../lib/simulation-model'
+import { loadPolicy, loadTeam, strengthThreshold } from '../lib/sweep-policy'
+import {
+  modelEvaluator,
+  optimizeBridge,
+  optimizeOnBackend,
+  type Evaluation,
+  type StopReason
+} from '../lib/bridge-optimizer'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+
+type EvaluatorId = 'model' | 'backend'
+
+const DEFAULT_BUDGET = 40
+// The grid sweep it replaces always costs 10x10 evaluations
+const GRID_EVALUATIONS = 100
+const TOLERANCE = 1e-4
+
+const STOP_LABELS: Record<StopReason, string> = {
+  converged: 'Converged',
+  budget: 'Budget exhausted',
+  aborted: 'Stopped'
+}
+
+const BridgeOptimizer: React.FC = () => {
+  const simulationData = useSimulationStore(selectView)
+  const [evaluatorId, setEvaluatorId] = useState<EvaluatorId>('model')
+  const [budget, setBudget] = useState(DEFAULT_BUDGET)
+  const [evaluations, setEvaluations] = useState<Evaluation[]>([])
+  const [best, setBest] = useState<Evaluation | null>(null)
+  const [stopReason, setStopReason] = useState<StopReason | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const threshold = strengthThreshold(loadPolicy(loadTeam()))
+
+  const runOptimizer = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setEvaluations([])
+    setBest(null)
+    setStopReason(null)
+    setError(null)
+
+    // Start from whatever the portals are running now, like the grid sweep does
+    const frame = getSimulationState().view
+    const start: api.BridgeParameters = {
+      frequency1: frame.portal1?.freq ?? SIMULATION_CONFIG.resonance_frequency,
+      frequency2: frame.portal2?.freq ?? SIMULATION_CONFIG.resonance_frequency + SIMULATION_CONFIG.detune_default,
+      energy1: frame.portal1?.energy ?? 10000,
+      energy2: frame.portal2?.energy ?? 10000
+    }
+
+    try {
+      const options = {
+        budget,
+        tolerance: TOLERANCE,
+        signal: controller.signal,
+        onEvaluation: (evaluation: Evaluation) => {
+          setEvaluations(previous => [...previous, evaluation])
+          setBest(previous => (!previous || evaluation.strength > previous.strength ? evaluation : previous))
+        }
+      }
+      const result = evaluatorId === 'model'
+        ? await optimizeBridge(modelEvaluator(frame), start, options)
+        : await optimizeOnBackend(start, threshold, options)
+      setStopReason(result.reason)
+    } catch (err) {
+      console.error('Error running optimizer:', err)
+      setError(api.errorMessage(err))
+    } finally {
+      setIsRunning(false)
+      abortRef.current = null
+    }
+  }
+
+  const applyBest = async () => {
+    if (!best) return
+    try {
+      await actions.applyParameters(best.params)
+    } catch (err) {
+      console.error('Error applying optimizer result:', err)
+      alert(`Failed to apply parameters: ${api.errorMessage(err)}`)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-400 font-semibold">Bridge Optimizer (Nelder–Mead)</div>
+
+      <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-3">
+        <div className="flex space-x-2">
+          {(['model', 'backend'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setEvaluatorId(id)}
+              disabled={isRunning}
+              className={`flex-1 px-2 py-1 rounded text-xs font-medium transition-colors ${
+                evaluatorId === id ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              {id === 'model' ? 'Offline Model' : 'Backend'}
+            </button>
+          ))}
+        </div>
+        {evaluatorId === 'backend' && (
+          <div className="text-xs text-yellow-400">
+            Each evaluation moves the live portals; when the run ends the best point is applied if it meets the
+            threshold, otherwise the starting parameters are restored
+          </div>
+        )}
+
+        <div>
+          <label className="block text-xs text-gray-300 mb-1">Evaluation Budget</label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="range"
+              min="10"
+              max="100"
+              step="5"
+              value={budget}
+              disabled={isRunning}
+              onChange={(e) => setBudget(Number(e.target.value))}
+              className="flex-1 h-3 bg-gradient-to-r from-gray-600 to-gray-500 border border-gray-400 rounded-lg appearance-none cursor-pointer slider-thumb"
+            />
+            <span className="text-purple-300 font-mono text-sm w-16 font-bold">{budget}</span>
+          </div>
+        </div>
+
+        <button
+          onClick={isRunning ? () => abortRef.current?.abort() : runOptimizer}
+          className={`w-full px-3 py-2 rounded text-sm font-medium transition-colors text-white ${
+            isRunning ? 'bg-red-600 hover:bg-red-700' : 'bg-purple-600 hover:bg-purple-700'
+          }`}
+        >
+          {isRunning ? 'Stop Optimizer' : 'Run Optimizer'}
+        </button>
+
+        <div className="w-full bg-gray-600 rounded-full h-2">
+          <div
+            className="h-2 rounded-full bg-purple-500 transition-all duration-300"
+            style={{ width: `${(evaluations.length / budget) * 100}%` }}
+          ></div>
+        </div>
+        <div className="flex justify-between text-xs text-gray-400">
+          <span>{evaluations.length} / {budget} evaluations (grid: {GRID_EVALUATIONS})</span>
+          {stopReason && <span className="text-gray-200">{STOP_LABELS[stopReason]}</span>}
+        </div>
+
+        {error && <div className="text-xs text-red-400">Optimizer failed: {error}</div>}
+      </div>
+
+      {evaluations.length > 0 && (
+        <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-3">
+          <div className="text-xs text-gray-200">Convergence</div>
+          <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={evaluations}>
+                <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                <XAxis dataKey="index" stroke="#9ca3af" fontSize={10} />
+                <YAxis domain={[0, 1]} stroke="#9ca3af" fontSize={10} width={40} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563', fontSize: 12 }}
+                  labelFormatter={(value: number) => `Evaluation #${value}`}
+                  formatter={(value: number) => value.toFixed(3)}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line dataKey="strength" name="Candidate" stroke="#60a5fa" strokeWidth={0} dot={{ r: 2 }} isAnimationActive={false} />
+                <Line dataKey="bestStrength" name="Best so far" stroke="#34d399" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {best && (
+            <>
+              <div className="bg-gray-700 rounded p-2 grid grid-cols-2 gap-x-3 text-xs font-mono">
+                <span className="text-gray-300">Best #{best.index}</span>
+                <span className={best.strength >= threshold ? 'text-green-400' : 'text-red-400'}>
+                  Bridge {best.strength.toFixed(3)}
+                </span>
+                <span className="text-gray-200">f₁ {best.params.frequency1.toFixed(3)} Hz</span>
+                <span className="text-gray-200">f₂ {best.params.frequency2.toFixed(3)} Hz</span>
+                <span className="text-gray-200">E₁ {best.params.energy1.toFixed(0)} J</span>
+                <span className="text-gray-200">E₂ {best.params.energy2.toFixed(0)} J</span>
+              </div>
+              <button
+                onClick={applyBest}
+                disabled={isRunning || best.strength < threshold || !simulationData.run_id}
+                className={`w-full px-3 py-2 rounded text-sm font-medium transition-colors ${
+                  isRunning || best.strength < threshold || !simulationData.run_id
+                    ? 'bg-gray-600 cursor-not-allowed text-gray-400'
+                    : 'bg-green-600 hover:bg-green-700 text-white'
+                }`}
+              >
+                Apply Best Parameters
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BridgeOptimizer
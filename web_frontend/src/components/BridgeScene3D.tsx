@@ -0,0 +1,213 @@
+import React, { useEffect, useRef } from 'react'
+import * as THREE from 'three'
+import type { PortalFrame } from '../lib/frame-schema'
+import { createSixSpherePortal, type SixSpherePortal } from '../lib/portal-geometry'
+import { selectLastTransfer } from '../lib/simulation-store'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+
+interface BridgeScene3DProps {
+  portal1: PortalFrame | null;
+  portal2: PortalFrame | null;
+  bridgeStrength: number;
+  detune: number;
+}
+
+interface SceneData {
+  bridgeStrength: number;
+  detune: number;
+  freq1: number;
+  freq2: number;
+}
+
+const HEIGHT = 180
+const PORTAL_OFFSET = 2.4
+const PORTAL_SCALE = 0.7
+const BRIDGE_LENGTH = 2 * PORTAL_OFFSET
+const PARTICLE_COUNT = 12
+const TRANSIT_SECONDS = 1.5
+const OSCILLATION_AMPLITUDE = 0.06
+
+const BridgeScene3D: React.FC<BridgeScene3DProps> = ({ portal1, portal2, bridgeStrength, detune }) => {
+  const mountRef = useRef<HTMLDivElement>(null)
+  const lastTransfer = useSimulationStore(selectLastTransfer)
+  // The render loop reads the latest values from here instead of rebuilding on each frame
+  const dataRef = useRef<SceneData>({ bridgeStrength, detune, freq1: 0, freq2: 0 })
+  const transitStartRef = useRef<number | null>(null)
+  const seenTransferRef = useRef(lastTransfer?.at)
+  const portalsRef = useRef<SixSpherePortal[]>([])
+
+  useEffect(() => {
+    if (!lastTransfer || lastTransfer.at === seenTransferRef.current) return
+    seenTransferRef.current = lastTransfer.at
+    if (lastTransfer.result.success) transitStartRef.current = performance.now()
+  }, [lastTransfer])
+
+  useEffect(() => {
+    const mount = mountRef.current
+    if (!mount) return
+
+    const scene = new THREE.Scene()
+    scene.background = new THREE.Color(0x1a1a1a)
+
+    const camera = new THREE.PerspectiveCamera(60, mount.clientWidth / HEIGHT, 0.1, 1000)
+    camera.position.set(0, 0.6, 5.5)
+    camera.lookAt(0, 0, 0)
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true })
+    renderer.setPixelRatio(window.devicePixelRatio)
+    renderer.setSize(mount.clientWidth, HEIGHT)
+    mount.appendChild(renderer.domElement)
+
+    const portals = [createSixSpherePortal(), createSixSpherePortal()]
+    portals.forEach((portal, index) => {
+      portal.group.position.x = index === 0 ? -PORTAL_OFFSET : PORTAL_OFFSET
+      portal.group.scale.setScalar(PORTAL_SCALE)
+      scene.add(portal.group)
+    })
+    portalsRef.current = portals
+
+    // Unit-radius tube lying along x; its radius is scaled per frame from bridge strength
+    const bridgeGeometry = new THREE.CylinderGeometry(1, 1, BRIDGE_LENGTH, 24, 1, true)
+    bridgeGeometry.rotateZ(Math.PI / 2)
+    const bridgeMaterial = new THREE.MeshBasicMaterial({
+      color: 0x22d3ee,
+      transparent: true,
+      opacity: 0,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    })
+    const bridge = new THREE.Mesh(bridgeGeometry, bridgeMaterial)
+    scene.add(bridge)
+
+    const particleGeometry = new THREE.SphereGeometry(0.05, 8, 8)
+    const particleMaterial = new THREE.MeshBasicMaterial({ color: 0xe0f2fe, transparent: true })
+    const particles = Array.from({ length: PARTICLE_COUNT }, (_, index) => {
+      const particle = new THREE.Mesh(particleGeometry, particleMaterial)
+      particle.userData.progress = index / PARTICLE_COUNT
+      scene.add(particle)
+      return particle
+    })
+
+    const payloadGeometry = new THREE.OctahedronGeometry(0.2)
+    const payloadMaterial = new THREE.MeshPhongMaterial({ color: 0xfbbf24, emissive: 0x92400e })
+    const payload = new THREE.Mesh(payloadGeometry, payloadMaterial)
+    payload.visible = false
+    scene.add(payload)
+
+    scene.add(new THREE.AmbientLight(0x404040, 0.4))
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8)
+    directionalLight.position.set(1, 1, 1)
+    scene.add(directionalLight)
+
+    const resizeObserver = new ResizeObserver(() => {
+      const width = mount.clientWidth
+      if (width === 0) return
+      renderer.setSize(width, HEIGHT)
+      camera.aspect = width / HEIGHT
+      camera.updateProjectionMatrix()
+    })
+    resizeObserver.observe(mount)
+
+    const clock = new THREE.Clock()
+    let animationId = 0
+    const animate = () => {
+      animationId = requestAnimationFrame(animate)
+      const delta = clock.getDelta()
+      const elapsed = clock.getElapsedTime()
+      const data = dataRef.current
+      const strength = Math.min(Math.max(data.bridgeStrength, 0), 1)
+
+      portals.forEach((portal, index) => {
+        const freq = index === 0 ? data.freq1 : data.freq2
+        portal.group.rotation.y += 0.01
+        portal.setSpread(1 + OSCILLATION_AMPLITUDE * Math.sin(2 * Math.PI * freq * elapsed))
+      })
+
+      bridge.visible = strength > 0
+      bridge.scale.set(1, 0.04 + 0.22 * strength, 0.04 + 0.22 * strength)
+      bridgeMaterial.opacity = 0.1 + 0.5 * strength
+
+      // Positive detune flows from portal 1 to portal 2, negative the other way
+      const direction = Math.sign(data.detune)
+      particles.forEach(particle => {
+        particle.visible = strength > 0 && direction !== 0
+        if (!particle.visible) return
+        const progress = (particle.userData.progress + delta * (0.2 + 0.6 * strength) * direction + 1) % 1
+        particle.userData.progress = progress
+        particle.position.set(-PORTAL_OFFSET + progress * BRIDGE_LENGTH, 0, 0)
+      })
+      particleMaterial.opacity = 0.4 + 0.6 * strength
+
+      // Payloads always travel from the origin gate (portal 1) to the destination gate
+      const transitStart = transitStartRef.current
+      if (transitStart !== null) {
+        const t = (performance.now() - transitStart) / (TRANSIT_SECONDS * 1000)
+        if (t >= 1) {
+          transitStartRef.current = null
+          payload.visible = false
+        } else {
+          const eased = t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2
+          payload.visible = true
+          payload.position.set(-PORTAL_OFFSET + eased * BRIDGE_LENGTH, 0.15 * Math.sin(Math.PI * t), 0)
+          payload.rotation.x += 0.1
+          payload.rotation.y += 0.15
+        }
+      }
+
+      renderer.render(scene, camera)
+    }
+    animate()
+
+    return () => {
+      cancelAnimationFrame(animationId)
+      resizeObserver.disconnect()
+      portals.forEach(portal => portal.dispose())
+      portalsRef.current = []
+      bridgeGeometry.dispose()
+      bridgeMaterial.dispose()
+      particleGeometry.dispose()
+      particleMaterial.dispose()
+      payloadGeometry.dispose()
+      payloadMaterial.dispose()
+      renderer.dispose()
+      renderer.forceContextLoss()
+      mount.removeChild(renderer.domElement)
+    }
+  }, [])
+
+  // Declared after the scene effect so the first run sees the freshly built portals
+  useEffect(() => {
+    dataRef.current = { bridgeStrength, detune, freq1: portal1?.freq ?? 0, freq2: portal2?.freq ?? 0 }
+    // Centre spheres show each portal's safety status, as in Portal3D
+    const frames = [portal1, portal2]
+    frames.forEach((portal, index) => {
+      const centre = portalsRef.current[index]?.spheres[0]
+      if (!centre) return
+      const color = portal ? (portal.safety_status ? 0x00ff00 : 0xff0000) : 0x00ff00
+      centre.material.color.setHex(color)
+      centre.material.emissive.setHex(color).multiplyScalar(0.1)
+    })
+  }, [portal1, portal2, bridgeStrength, detune])
+
+  const direction = Math.sign(detune)
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={mountRef}
+        className="w-full border border-gray-600 rounded bg-gray-800 overflow-hidden"
+        style={{ height: `${HEIGHT}px` }}
+      />
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Portal 1</span>
+        <span>
+          {bridgeStrength <= 0 ? 'No bridge' : direction > 0 ? 'Flow P1 → P2' : direction < 0 ? 'Flow P2 → P1' : 'No detune flow'}
+        </span>
+        <span>Portal 2</span>
+      </div>
+    </div>
+  )
+}
+
+export default BridgeScene3D
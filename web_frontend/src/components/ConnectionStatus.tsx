@@ -0,0 +1,45 @@
+import React from 'react'
+import type { ConnectionState, SocketConnection } from '../hooks/use-socket-connection'
+
+interface ConnectionStatusProps {
+  label: string;
+  connection: SocketConnection;
+}
+
+const stateStyles: Record<ConnectionState, { text: string; dot: string; description: string }> = {
+  connecting: { text: 'text-blue-400', dot: 'bg-blue-400 animate-pulse', description: 'Connecting' },
+  open: { text: 'text-green-400', dot: 'bg-green-400 animate-pulse', description: 'Connected' },
+  stale: { text: 'text-yellow-400', dot: 'bg-yellow-400', description: 'Stale - no new frames' },
+  reconnecting: { text: 'text-orange-400', dot: 'bg-orange-400 animate-pulse', description: 'Reconnecting' },
+  failed: { text: 'text-red-400', dot: 'bg-red-500', description: 'Disconnected' }
+}
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ label, connection }) => {
+  const { state, attempt, maxReconnectAttempts, lastFrameAt, reconnectNow } = connection
+  const style = stateStyles[state]
+
+  return (
+    <div className="flex items-center space-x-3">
+      <div
+        className={`flex items-center space-x-2 ${style.text}`}
+        title={lastFrameAt ? `Last frame: ${new Date(lastFrameAt).toLocaleTimeString()}` : 'No frames received yet'}
+      >
+        <div className={`w-3 h-3 rounded-full ${style.dot}`}></div>
+        <span className="text-sm font-mono">
+          {label}: {style.description}
+          {state === 'reconnecting' && ` (${attempt}/${maxReconnectAttempts})`}
+        </span>
+      </div>
+      {state !== 'open' && state !== 'connecting' && (
+        <button
+          onClick={reconnectNow}
+          className="px-2 py-1 bg-gray-700 hover:bg-gray-600 border border-gray-500 rounded text-xs font-medium transition-colors"
+        >
+          Reconnect now
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default ConnectionStatus
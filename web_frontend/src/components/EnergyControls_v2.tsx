@@ -1,129 +1,68 @@
 import React, { useState } from 'react'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { selectControls, selectPortalEnergy } from '../lib/simulation-store'
+import { useSimulationStore } from '../hooks/use-simulation-store'
 
 interface EnergyControlsProps {
-  portalNumber: number;
+  portalNumber: api.PortalId;
 }
 
 const EnergyControls_v2: React.FC<EnergyControlsProps> = ({ portalNumber }) => {
-  const [parameters, setParameters] = useState({
-    energy1: 0,
-    energy2: 0,
-    frequency1: 7.83,
-    frequency2: 7.91
-  })
-  
-  const [energyState, setEnergyState] = useState({
-    portal1Active: false,
-    portal2Active: false
-  })
+  const [currentFrequency, setCurrentFrequency] = useState(portalNumber === 1 ? 7.83 : 7.91)
+  const [draftEnergy, setDraftEnergy] = useState<number | null>(null)
 
-  const handleParameterChange = (param: string, value: number) => {
-    setParameters(prev => ({
-      ...prev,
-      [param]: value
-    }))
-  }
+  const isPortalActive = useSimulationStore(selectControls(portalNumber)).energized
+  const portalEnergy = Math.round(useSimulationStore(selectPortalEnergy(portalNumber)))
+  const currentEnergy = draftEnergy ?? portalEnergy
 
-  const toggleEnergyState = async (portal: number) => {
-    const stateKey = `portal${portal}Active` as keyof typeof energyState
-    const newState = !energyState[stateKey]
-    
-    setEnergyState(prev => ({
-      ...prev,
-      [stateKey]: newState
-    }))
-    
+  const toggleEnergyState = async (portal: api.PortalId) => {
+    const newState = !isPortalActive
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/energy_control`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          portal_id: portal,
-          action: newState ? 'on' : 'off'
-        })
+      const data = await actions.controlEnergy({
+        portal_id: portal,
+        action: newState ? 'on' : 'off'
       })
-      
-      if (response.ok) {
-        const data = await response.json()
-        console.log(`Portal ${portal} energy ${newState ? 'activated' : 'deactivated'}:`, data)
-        
-        if (!newState) {
-          setParameters(prev => ({
-            ...prev,
-            [`energy${portal}`]: 0
-          }))
-        } else {
-          setParameters(prev => ({
-            ...prev,
-            [`energy${portal}`]: 1000
-          }))
-        }
-      }
+      console.log(`Portal ${portal} energy ${newState ? 'activated' : 'deactivated'}:`, data)
     } catch (error) {
       console.error(`Error toggling energy for portal ${portal}:`, error)
-      setEnergyState(prev => ({
-        ...prev,
-        [stateKey]: !newState
-      }))
     }
   }
 
-  const adjustEnergy = async (portal: number, action: 'increase' | 'decrease') => {
-    const energyKey = `energy${portal}` as keyof typeof parameters
-    const currentEnergy = parameters[energyKey] as number
-    const newEnergy = action === 'increase' 
-      ? Math.min(currentEnergy + 1000, 20000)
-      : Math.max(currentEnergy - 1000, 0)
-    
+  const adjustEnergy = async (portal: api.PortalId, action: 'increase' | 'decrease') => {
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/energy_control`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          portal_id: portal,
-          action: action,
-          amount: 1000
-        })
+      const data = await actions.controlEnergy({
+        portal_id: portal,
+        action: action,
+        amount: 1000
       })
-      
-      if (response.ok) {
-        setParameters(prev => ({
-          ...prev,
-          [energyKey]: newEnergy
-        }))
-        console.log(`Portal ${portal} energy ${action}d to ${newEnergy}J`)
-      }
+      console.log(`Portal ${portal} energy ${action}d to ${data.new_energy}J`)
     } catch (error) {
       console.error(`Error ${action}ing energy for portal ${portal}:`, error)
     }
   }
 
+  const commitDraftEnergy = async () => {
+    if (draftEnergy === null) return
+    const target = draftEnergy
+    setDraftEnergy(null)
+    try {
+      const data = await actions.setEnergyLevel(portalNumber, target)
+      if (data) console.log(`Portal ${portalNumber} energy set to ${data.new_energy}J`)
+    } catch (error) {
+      console.error(`Error setting energy for portal ${portalNumber}:`, error)
+    }
+  }
+
   const resetEnergyToIdle = async () => {
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      await fetch(`${backendUrl}/api/reset_system`, { method: 'POST' })
-      
-      setParameters(prev => ({
-        ...prev,
-        energy1: 0,
-        energy2: 0
-      }))
-      setEnergyState({
-        portal1Active: false,
-        portal2Active: false
-      })
+      await actions.resetSystem()
       console.log('All energy systems reset to idle state')
     } catch (error) {
       console.error('Error resetting energy systems:', error)
     }
   }
 
-  const isPortalActive = portalNumber === 1 ? energyState.portal1Active : energyState.portal2Active
-  const currentEnergy = portalNumber === 1 ? parameters.energy1 : parameters.energy2
-  const currentFrequency = portalNumber === 1 ? parameters.frequency1 : parameters.frequency2
-
   return (
     <div className="space-y-4">
       <div className="text-lg font-semibold text-yellow-400 mb-4">
@@ -161,7 +100,10 @@ const EnergyControls_v2: React.FC<EnergyControlsProps> = ({ portalNumber }) => {
                 max="20000"
                 step="100"
                 value={currentEnergy}
-                onChange={(e) => handleParameterChange(portalNumber === 1 ? 'energy1' : 'energy2', Number(e.target.value))}
+                onChange={(e) => setDraftEnergy(Number(e.target.value))}
+                onPointerUp={commitDraftEnergy}
+                onKeyUp={commitDraftEnergy}
+                onBlur={commitDraftEnergy}
                 disabled={!isPortalActive}
                 className="flex-1 h-3 bg-gradient-to-r from-gray-600 to-gray-500 border border-gray-400 rounded-lg appearance-none cursor-pointer slider-thumb disabled:opacity-50"
               />
@@ -210,7 +152,7 @@ const EnergyControls_v2: React.FC<EnergyControlsProps> = ({ portalNumber }) => {
                 max="8.5"
                 step="0.01"
                 value={currentFrequency}
-                onChange={(e) => handleParameterChange(portalNumber === 1 ? 'frequency1' : 'frequency2', Number(e.target.value))}
+                onChange={(e) => setCurrentFrequency(Number(e.target.value))}
                 disabled={!isPortalActive}
                 className="flex-1 h-3 bg-gradient-to-r from-gray-600 to-gray-500 border border-gray-400 rounded-lg appearance-none cursor-pointer slider-thumb disabled:opacity-50"
               />
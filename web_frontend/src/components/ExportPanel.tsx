@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react'
+import * as api from '../lib/api'
+import {
+  MIME_TYPES,
+  alarmRows,
+  downloadFile,
+  fileStamp,
+  openHtml,
+  sweepRows,
+  telemetryRows,
+  toCsv,
+  toJson,
+  type ExportFormat
+} from '../lib/export'
+import { collectRunReport, knownRunIds, renderRunReportHtml } from '../lib/run-report'
+import { selectHistory } from '../lib/simulation-store'
+import { useAlarms } from '../hooks/use-alarms'
+import { useLogStore } from '../hooks/use-log-store'
+import { useRunJournal } from '../hooks/use-run-journal'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+import { useSweepHistory } from '../hooks/use-sweep-history'
+
+const buttonClass =
+  'px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50'
+
+interface ClientDataset {
+  id: string;
+  label: string;
+  count: number;
+  rows: () => object[];
+  // JSON exports keep the original structure rather than the flattened CSV rows
+  raw: () => unknown;
+}
+
+const ExportPanel: React.FC = () => {
+  const history = useSimulationStore(selectHistory)
+  const currentRunId = useSimulationStore(state => state.frame.run_id ?? null)
+  const sweeps = useSweepHistory()
+  const alarms = useAlarms(state => state.alarms)
+  const logEntries = useLogStore(state => state.entries)
+  const runEvents = useRunJournal()
+  const [busy, setBusy] = useState<ExportFormat | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reportRun, setReportRun] = useState('')
+
+  const runIds = useMemo(
+    () => knownRunIds(currentRunId, history, sweeps, alarms, logEntries, runEvents),
+    [currentRunId, history, sweeps, alarms, logEntries, runEvents]
+  )
+  const selectedRun = runIds.includes(reportRun) ? reportRun : runIds[0] ?? ''
+
+  const datasets: ClientDataset[] = [
+    { id: 'telemetry', label: 'Telemetry history', count: history.length, rows: () => telemetryRows(history), raw: () => history },
+    { id: 'sweeps', label: 'Sweep results', count: sweeps.length, rows: () => sweepRows(sweeps), raw: () => sweeps },
+    { id: 'alarms', label: 'Alarm history', count: alarms.length, rows: () => alarmRows(alarms), raw: () => alarms }
+  ]
+
+  const exportBackend = async (format: ExportFormat) => {
+    setBusy(format)
+    setError(null)
+    setMessage(null)
+    try {
+      const response = format === 'csv' ? await api.exportCsv() : await api.exportJson()
+      if (response.data === null) {
+        setMessage('The backend logger has no records to export yet')
+      } else {
+        downloadFile(response.filename, response.data, MIME_TYPES[format])
+        setMessage(`Downloaded ${response.filename}`)
+      }
+    } catch (err) {
+      setError(api.errorMessage(err))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const exportDataset = (dataset: ClientDataset, format: ExportFormat) => {
+    const content = format === 'csv' ? toCsv(dataset.rows()) : toJson(dataset.raw())
+    const filename = `stargate_${dataset.id}_${fileStamp()}.${format}`
+    downloadFile(filename, content, MIME_TYPES[format])
+    setMessage(`Downloaded ${filename}`)
+  }
+
+  const reportHtml = () => renderRunReportHtml(collectRunReport(selectedRun))
+
+  const openReport = () => {
+    if (!openHtml(reportHtml())) setError('The report window was blocked; allow pop-ups or download it instead')
+  }
+
+  const downloadReport = () => {
+    const filename = `stargate_report_${selectedRun}_${fileStamp()}.html`
+    downloadFile(filename, reportHtml(), MIME_TYPES.html)
+    setMessage(`Downloaded ${filename}`)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-400 font-semibold">Export Center</div>
+
+      {error && <div className="text-xs text-red-400">Export failed: {error}</div>}
+      {message && <div className="text-xs text-green-400">{message}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2">
+          <div className="text-xs text-gray-200 font-semibold">Backend logger</div>
+          <div className="text-xs text-gray-400">Every logged event, as written by the simulation logger</div>
+          <div className="flex gap-2">
+            <button onClick={() => exportBackend('csv')} disabled={busy !== null} className={buttonClass}>
+              {busy === 'csv' ? 'Exporting…' : 'Datalog CSV'}
+            </button>
+            <button onClick={() => exportBackend('json')} disabled={busy !== null} className={buttonClass}>
+              {busy === 'json' ? 'Exporting…' : 'Audit JSON'}
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2">
+          <div className="text-xs text-gray-200 font-semibold">Recorded in this browser</div>
+          {datasets.map(dataset => (
+            <div key={dataset.id} className="flex items-center justify-between text-xs">
+              <span className="text-gray-400">
+                {dataset.label} ({dataset.count})
+              </span>
+              <div className="flex gap-2">
+                {(['csv', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => exportDataset(dataset, format)}
+                    disabled={dataset.count === 0}
+                    className={buttonClass}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2">
+          <div className="text-xs text-gray-200 font-semibold">Run report</div>
+          <div className="text-xs text-gray-400">Printable HTML with telemetry charts, sweeps, alarms and the event log</div>
+          <select
+            value={selectedRun}
+            onChange={(e) => setReportRun(e.target.value)}
+            disabled={runIds.length === 0}
+            className="w-full bg-gray-700 border border-gray-500 rounded px-2 py-1 text-xs text-white"
+          >
+            {runIds.length === 0 && <option value="">No runs recorded</option>}
+            {runIds.map(id => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            <button onClick={openReport} disabled={!selectedRun} className={buttonClass}>
+              Open printable
+            </button>
+            <button onClick={downloadReport} disabled={!selectedRun} className={buttonClass}>
+              Download HTML
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExportPanel
@@ -0,0 +1,111 @@
+import React from 'react'
+import * as api from '../lib/api'
+import { SIMULATION_CONFIG } from '../lib/simulation-model'
+import { selectView } from '../lib/simulation-store'
+import { usePolling } from '../hooks/use-polling'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+
+const POLL_INTERVAL_MS = 5000
+const JOULES_PER_KWH = 3.6e6
+
+const formatRuntime = (seconds: number) => {
+  if (!Number.isFinite(seconds)) return '∞'
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${Math.floor(seconds % 60)}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+const HardwarePanel: React.FC = () => {
+  const safety = usePolling(api.getSafetyStatus, POLL_INTERVAL_MS)
+  const simulationData = useSimulationStore(selectView)
+
+  const hardware = safety.data?.hardware
+  const threshold = safety.data?.portal1.temp_threshold ?? SIMULATION_CONFIG.floor_temp_threshold
+  const battery = hardware?.battery_status
+
+  // Power draw comes from the live frames so the estimate follows parameter changes between polls
+  const powerDraw = (simulationData.portal1?.power ?? 0) + (simulationData.portal2?.power ?? 0)
+  // TeslaBattery.supply_power drains capacity_kWh itself, so it already is the remaining energy
+  const remainingJoules = battery ? battery.capacity_kWh * JOULES_PER_KWH : 0
+  const runtimeSeconds = powerDraw > 0 ? remainingJoules / powerDraw : Infinity
+
+  const getChargeColor = (pct: number) => {
+    if (pct > 50) return 'bg-green-500'
+    if (pct > 20) return 'bg-yellow-500'
+    return 'bg-red-500'
+  }
+
+  const sensors = hardware
+    ? [
+        { portal: 1, temp: hardware.temp_sensor_1, contact: hardware.contact_sensor_1 },
+        { portal: 2, temp: hardware.temp_sensor_2, contact: hardware.contact_sensor_2 }
+      ]
+    : []
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400 font-semibold">Hardware Status</div>
+        <span className="text-xs text-gray-500">
+          {safety.lastUpdated ? `Updated ${new Date(safety.lastUpdated).toLocaleTimeString()}` : 'Not polled yet'}
+        </span>
+      </div>
+
+      {safety.error && (
+        <div className="text-xs text-yellow-400">
+          {hardware ? `Showing last reading - ${safety.error}` : `Hardware data unavailable: ${safety.error}`}
+        </div>
+      )}
+
+      {battery && hardware && (
+        <>
+          <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2">
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-200">Tesla Battery ({battery.capacity_kWh} kWh)</span>
+              <span className="font-mono text-white">{battery.charge_pct.toFixed(1)}%</span>
+            </div>
+            <div className="w-full bg-gray-600 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full transition-all duration-500 ${getChargeColor(battery.charge_pct)}`}
+                style={{ width: `${Math.min(Math.max(battery.charge_pct, 0), 100)}%` }}
+              ></div>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-gray-400">Draw: {(powerDraw / 1000).toFixed(1)} kW</span>
+              <span className="text-gray-300">Est. runtime: <span className="font-mono">{formatRuntime(runtimeSeconds)}</span></span>
+            </div>
+          </div>
+
+          <div className="flex justify-between items-center bg-gray-800 border border-gray-600 rounded p-3">
+            <span className="text-xs text-gray-200">Failsafe Block</span>
+            <div className={`px-2 py-1 rounded text-xs font-bold ${
+              hardware.failsafe_engaged || battery.failsafe_engaged ? 'bg-red-600 text-white' : 'bg-green-600 text-white'
+            }`}>
+              {hardware.failsafe_engaged || battery.failsafe_engaged ? 'ENGAGED' : 'STANDBY'}
+            </div>
+          </div>
+
+          <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2">
+            <div className="text-xs text-gray-200">Floor Sensors (threshold {threshold.toFixed(2)}°C)</div>
+            {sensors.map(sensor => {
+              const tempOk = sensor.temp <= threshold
+              return (
+                <div key={sensor.portal} className="grid grid-cols-3 gap-2 text-xs items-center">
+                  <span className="text-gray-300">Portal {sensor.portal}</span>
+                  <span className={`font-mono ${tempOk ? 'text-blue-400' : 'text-red-400'}`}>
+                    {sensor.temp.toFixed(2)}°C {tempOk ? '✓' : `(+${(sensor.temp - threshold).toFixed(2)})`}
+                  </span>
+                  <span className={sensor.contact ? 'text-green-400' : 'text-red-400'}>
+                    {sensor.contact ? 'Contact ✓' : 'No contact ✗'}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default HardwarePanel
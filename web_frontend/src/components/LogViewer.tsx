@@ -0,0 +1,273 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import * as api from '../lib/api'
+import { logsMessageSchema } from '../lib/api-schemas'
+import { LOG_LEVELS, clearLogView, ingestRecords, togglePin, type LogEntry, type LogLevel } from '../lib/log-store'
+import { useLogStore } from '../hooks/use-log-store'
+import { useOfflineLogs, useOfflineMode } from '../hooks/use-offline-simulation'
+import { useSocketConnection } from '../hooks/use-socket-connection'
+import ConnectionStatus from './ConnectionStatus'
+
+type PortalFilter = 'all' | '1' | '2' | 'system'
+
+const ROW_HEIGHT = 22
+const VIEW_HEIGHT = 320
+const OVERSCAN = 10
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  INFO: 'text-blue-300',
+  WARN: 'text-yellow-300',
+  ERROR: 'text-red-400'
+}
+
+const formatTime = (value: number) => new Date(value).toLocaleTimeString()
+
+const LogRow: React.FC<{ entry: LogEntry; pinned: boolean; selected: boolean; onSelect: () => void }> = ({
+  entry,
+  pinned,
+  selected,
+  onSelect
+}) => (
+  <div
+    onClick={onSelect}
+    className={`flex items-center space-x-2 px-2 text-xs font-mono cursor-pointer whitespace-nowrap ${
+      selected ? 'bg-gray-700' : 'hover:bg-gray-800'
+    }`}
+    style={{ height: ROW_HEIGHT }}
+  >
+    <button
+      onClick={(e) => {
+        e.stopPropagation()
+        togglePin(entry)
+      }}
+      className={pinned ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}
+      title={pinned ? 'Unpin' : 'Pin'}
+    >
+      {pinned ? '★' : '☆'}
+    </button>
+    <span className="text-gray-500">{formatTime(entry.time)}</span>
+    <span className={`w-12 ${LEVEL_STYLES[entry.level]}`}>{entry.level}</span>
+    <span className="w-14 text-gray-400">{entry.source}</span>
+    <span className="text-gray-200 truncate">{entry.message}</span>
+  </div>
+)
+
+const LogViewer: React.FC = () => {
+  const entries = useLogStore(state => state.entries)
+  const pinned = useLogStore(state => state.pinned)
+  const offline = useOfflineMode()
+  const [levels, setLevels] = useState<LogLevel[]>(LOG_LEVELS)
+  const [portal, setPortal] = useState<PortalFilter>('all')
+  const [runId, setRunId] = useState('all')
+  const [text, setText] = useState('')
+  const [follow, setFollow] = useState(true)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [selected, setSelected] = useState<LogEntry | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [skipped, setSkipped] = useState(0)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const ingest = (records: readonly unknown[]) => {
+    const rejected = ingestRecords(records)
+    if (rejected > 0) {
+      console.error(`Skipped ${rejected} malformed logger record${rejected === 1 ? '' : 's'}`)
+      setSkipped(count => count + rejected)
+    }
+  }
+
+  const handleLogs = (data: string) => {
+    try {
+      const result = logsMessageSchema.safeParse(JSON.parse(data))
+      if (!result.success) {
+        console.error('Rejected /ws/logs message (schema mismatch):', result.error.issues)
+        return
+      }
+      ingest(result.data.records ?? [])
+      return result.data.timestamp
+    } catch (err) {
+      console.error('Rejected /ws/logs message:', err)
+    }
+  }
+
+  // Live log messages are ignored while the in-browser model is driving the panels
+  const connection = useSocketConnection({
+    url: api.websocketUrl('/ws/logs'),
+    onMessage: (data) => (offline ? undefined : handleLogs(data))
+  })
+  useOfflineLogs(offline, handleLogs)
+
+  const refreshRecords = async () => {
+    try {
+      ingest((await api.getLogEvents()).records)
+      setError(null)
+    } catch (err) {
+      setError(api.errorMessage(err))
+    }
+  }
+
+  // /ws/logs only resends the last ten records, so the full trail is fetched once up front
+  useEffect(() => {
+    api.getAuditTrail()
+      .then(data => ingest(data.audit_trail))
+      .catch(err => setError(api.errorMessage(err)))
+  }, [])
+
+  const runIds = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.run_id).filter((id): id is string => Boolean(id)))),
+    [entries]
+  )
+
+  const filtered = useMemo(() => {
+    const needle = text.trim().toLowerCase()
+    return entries.filter(entry =>
+      levels.includes(entry.level) &&
+      (portal === 'all' || (portal === 'system' ? entry.portal === null : entry.portal === Number(portal))) &&
+      (runId === 'all' || entry.run_id === runId) &&
+      (!needle || entry.message.toLowerCase().includes(needle))
+    )
+  }, [entries, levels, portal, runId, text])
+
+  useEffect(() => {
+    if (follow && scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+  }, [filtered, follow])
+
+  // Only the rows in (or near) the viewport are rendered; spacers keep the scrollbar honest
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(filtered.length, Math.ceil((scrollTop + VIEW_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+  const pinnedIds = new Set(pinned.map(entry => entry.id))
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(current => (current.includes(level) ? current.filter(existing => existing !== level) : [...current, level]))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-400 font-semibold">Event Log</div>
+        <div className="flex flex-wrap items-center gap-2">
+          {!offline && <ConnectionStatus label="Log stream" connection={connection} />}
+          <button
+            onClick={refreshRecords}
+            className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={clearLogView}
+            className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          >
+            Clear view
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-yellow-400">Could not load logger records: {error}</div>}
+      {skipped > 0 && (
+        <div className="text-xs text-yellow-400">
+          Skipped {skipped} malformed logger record{skipped === 1 ? '' : 's'}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className={`px-2 py-1 rounded font-medium transition-colors ${
+              levels.includes(level) ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-400'
+            }`}
+          >
+            {level}
+          </button>
+        ))}
+        <select
+          value={portal}
+          onChange={(e) => setPortal(e.target.value as PortalFilter)}
+          className="bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+        >
+          <option value="all">All portals</option>
+          <option value="1">Portal 1</option>
+          <option value="2">Portal 2</option>
+          <option value="system">System / bridge</option>
+        </select>
+        <select
+          value={runId}
+          onChange={(e) => setRunId(e.target.value)}
+          className="bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+        >
+          <option value="all">All runs</option>
+          {runIds.map(id => (
+            <option key={id} value={id}>{id}</option>
+          ))}
+        </select>
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Search messages"
+          className="flex-1 min-w-32 bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+        />
+        <label className="flex items-center space-x-1 text-gray-300">
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+          <span>Follow</span>
+        </label>
+      </div>
+
+      {pinned.length > 0 && (
+        <div className="bg-gray-800 border border-yellow-700 rounded py-1">
+          <div className="px-2 text-xs text-yellow-400 mb-1">Pinned ({pinned.length})</div>
+          {pinned.map(entry => (
+            <LogRow
+              key={entry.id}
+              entry={entry}
+              pinned
+              selected={selected?.id === entry.id}
+              onSelect={() => setSelected(entry)}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500">
+        Showing {filtered.length} of {entries.length} entries
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="bg-gray-800 border border-gray-600 rounded overflow-y-auto"
+        style={{ height: VIEW_HEIGHT }}
+      >
+        <div style={{ height: first * ROW_HEIGHT }} />
+        {filtered.slice(first, last).map(entry => (
+          <LogRow
+            key={entry.id}
+            entry={entry}
+            pinned={pinnedIds.has(entry.id)}
+            selected={selected?.id === entry.id}
+            onSelect={() => setSelected(entry)}
+          />
+        ))}
+        <div style={{ height: (filtered.length - last) * ROW_HEIGHT }} />
+      </div>
+
+      {selected && (
+        <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-1 text-xs">
+          <div className="flex items-center justify-between">
+            <span className={`font-bold ${LEVEL_STYLES[selected.level]}`}>
+              {selected.level} · {selected.source} · {new Date(selected.time).toLocaleString()}
+            </span>
+            <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-white">✕</button>
+          </div>
+          <div className="text-gray-200 break-words">{selected.message}</div>
+          {selected.run_id && <div className="text-gray-400">Run: {selected.run_id}</div>}
+          {selected.record && (
+            <pre className="bg-gray-900 rounded p-2 text-gray-300 overflow-x-auto">
+              {JSON.stringify(selected.record, null, 2)}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LogViewer
@@ -0,0 +1,128 @@
+import React, { useRef, useState } from 'react'
+import { MIME_TYPES, downloadFile } from '../lib/export'
+import { exportMaterials, importMaterials, removeMaterial, saveMaterial, type Material } from '../lib/materials'
+import { useMaterials } from '../hooks/use-materials'
+
+const buttonClass = 'px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors'
+
+const EMPTY_DRAFT: Material = { name: '', density: 1000, color: '#9CA3AF', notes: '' }
+
+const MaterialLibraryEditor: React.FC = () => {
+  const materials = useMaterials()
+  const [draft, setDraft] = useState<Material>(EMPTY_DRAFT)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  const report = (action: () => string | void) => {
+    try {
+      setMessage(action() ?? null)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      setMessage(null)
+    }
+  }
+
+  const save = () =>
+    report(() => {
+      saveMaterial(draft)
+      setDraft(EMPTY_DRAFT)
+      return `Saved ${draft.name.trim()}`
+    })
+
+  const importFile = async (file: File) => {
+    const text = await file.text()
+    report(() => {
+      const { imported, skipped } = importMaterials(text)
+      return `Imported ${imported} material${imported === 1 ? '' : 's'}${skipped.length ? `; skipped built-ins: ${skipped.join(', ')}` : ''}`
+    })
+  }
+
+  const userCount = materials.filter(material => !material.builtin).length
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {materials.map(material => (
+          <div key={material.name} className="flex items-center space-x-2 bg-gray-700 rounded px-2 py-1">
+            <span style={{ color: material.color }}>●</span>
+            <span className="w-20 text-white truncate">{material.name}</span>
+            <span className="w-20 text-yellow-300 font-mono text-right">{material.density.toLocaleString()} kg/m³</span>
+            <span className="flex-1 text-gray-400 truncate" title={material.notes}>{material.notes}</span>
+            {material.builtin ? (
+              <span className="text-gray-500">built-in</span>
+            ) : (
+              <button onClick={() => removeMaterial(material.name)} className="text-red-400 hover:text-red-300" title="Remove">
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto] gap-2 items-center">
+        <input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Material name"
+          className="bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+        />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={draft.density}
+          onChange={(e) => setDraft({ ...draft, density: Number(e.target.value) })}
+          className="w-24 bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+          title="Density (kg/m³)"
+        />
+        <input
+          type="color"
+          value={draft.color}
+          onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+          className="w-8 h-7 bg-gray-700 border border-gray-500 rounded"
+          title="Display colour"
+        />
+        <input
+          value={draft.notes}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          placeholder="Notes"
+          className="col-span-2 bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+        />
+        <button onClick={save} disabled={!draft.name.trim()} className={`${buttonClass} disabled:opacity-50`}>
+          Save
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>
+          Import JSON
+        </button>
+        <button
+          onClick={() => downloadFile('stargate_materials.json', exportMaterials(), MIME_TYPES.json)}
+          disabled={userCount === 0}
+          className={`${buttonClass} disabled:opacity-50`}
+        >
+          Export JSON ({userCount})
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importFile(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      {error && <div className="text-red-400">{error}</div>}
+      {message && <div className="text-green-400">{message}</div>}
+    </div>
+  )
+}
+
+export default MaterialLibraryEditor
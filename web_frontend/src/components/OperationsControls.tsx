@@ -1,4 +1,8 @@
 import React, { useState } from 'react'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { portalKey, selectControls } from '../lib/simulation-store'
+import { useSimulationStore } from '../hooks/use-simulation-store'
 import './SliderStyles.css'
 
 const OperationsControls: React.FC = () => {
@@ -6,15 +10,19 @@ const OperationsControls: React.FC = () => {
     sweepRange: 10.0
   })
 
-  const [sweepResults, setSweepResults] = useState<any[]>([])
+  const [sweepResults, setSweepResults] = useState<api.SweepResult[]>([])
   const [isRunning, setIsRunning] = useState(false)
-  const [scanResults, setScanResults] = useState<any>(null)
   const [isScanning, setIsScanning] = useState(false)
-  const [transportReady, setTransportReady] = useState(false)
-  const [stargateStatus, setStargateStatus] = useState({
-    portal1: 'UNLOCKED',
-    portal2: 'UNLOCKED'
-  })
+  // Locks, scans and transport readiness live in the shared store, so this panel agrees
+  // with every other panel that locks or scans
+  const transportReady = useSimulationStore(state => state.transportReady)
+  const stargateStatus = {
+    portal1: useSimulationStore(selectControls(1)).lock,
+    portal2: useSimulationStore(selectControls(2)).lock
+  }
+  const scanResults = useSimulationStore(state =>
+    state.lastScanPortal ? state.controls[portalKey(state.lastScanPortal)].scan : null
+  )
   const [sweepApprovalStatus, setSweepApprovalStatus] = useState<{
     approved: boolean;
     criteria: string;
@@ -31,11 +39,10 @@ const OperationsControls: React.FC = () => {
   const runParameterSweep = async () => {
     setIsRunning(true)
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/parameter_sweep?range=${parameters.sweepRange}`, {
-        method: 'POST'
+      const data = await api.parameterSweep({
+        energy_range: parameters.sweepRange,
+        freq_range: 0.5
       })
-      const data = await response.json()
       setSweepResults(data.results || [])
       console.log('Parameter sweep results:', data)
       
@@ -75,88 +82,43 @@ const OperationsControls: React.FC = () => {
         current.bridge_strength > best.bridge_strength ? current : best
       )
       
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/apply_optimal_parameters`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(optimal)
+      const data = await actions.applyParameters({
+        frequency1: optimal.frequency1,
+        frequency2: optimal.frequency2,
+        energy1: optimal.energy1,
+        energy2: optimal.energy2
       })
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      
-      const data = await response.json()
       console.log('Applied optimal parameters:', data)
     } catch (error) {
       console.error('Error applying optimal parameters:', error)
     }
   }
 
-  const unlockAllPortals = () => {
-    setStargateStatus({
-      portal1: 'UNLOCKED',
-      portal2: 'UNLOCKED'
-    })
-    setTransportReady(false)
-    console.log('All portals unlocked - system reset to default state')
+  const unlockAllPortals = async () => {
+    try {
+      await actions.unlockPortals()
+      console.log('All portals unlocked - system reset to default state')
+    } catch (error) {
+      console.error('Error unlocking portals:', error)
+    }
   }
 
-  const scanStargateContents = async (portalId: number) => {
+  const scanStargateContents = async (portalId: api.PortalId) => {
     setIsScanning(true)
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000)
-      
-      const response = await fetch(`${backendUrl}/api/scan_portal?portal_id=${portalId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: controller.signal
-      })
-      
-      clearTimeout(timeoutId)
-      
-      if (!response.ok) {
-        throw new Error(`Scan failed with status: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      setScanResults(data)
+      const data = await actions.scanPortal(portalId)
       console.log(`Portal ${portalId} scan results:`, data)
     } catch (error) {
       console.error(`Error scanning portal ${portalId}:`, error)
-      setScanResults({
-        error: `Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        portal_id: portalId,
-        timestamp: new Date().toISOString()
-      })
     } finally {
       setIsScanning(false)
     }
   }
 
-  const lockStargateForTransport = async (portalId: number) => {
+  const lockStargateForTransport = async (portalId: api.PortalId) => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/lock_portal?portal_id=${portalId}`, {
-        method: 'POST'
-      })
-      const data = await response.json()
+      const data = await actions.lockPortal(portalId)
       console.log(`Portal ${portalId} lock result:`, data)
-      
-      setStargateStatus(prev => ({
-        ...prev,
-        [`portal${portalId}`]: data.locked ? 'LOCKED' : 'IDLE'
-      }))
-      
-      if (stargateStatus.portal1 === 'LOCKED' && stargateStatus.portal2 === 'LOCKED') {
-        setTransportReady(true)
-      }
     } catch (error) {
       console.error(`Error locking portal ${portalId}:`, error)
     }
@@ -258,7 +220,7 @@ const OperationsControls: React.FC = () => {
               </div>
               {scanResults.required_params && (
                 <div className="text-xs text-yellow-200 mt-1 font-semibold">
-                  Required: {scanResults.required_params}
+                  Required: {JSON.stringify(scanResults.required_params)}
                 </div>
               )}
               {scanResults.timestamp && (
@@ -1,24 +1,44 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { portalKey, selectControls } from '../lib/simulation-store'
+import { recordSweep } from '../lib/sweep-history'
+import { evaluatePolicy, strengthThreshold } from '../lib/sweep-policy'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+import { useSweepPolicy } from '../hooks/use-sweep-policy'
+import ScanInspector from './ScanInspector'
+import SweepHeatmap from './SweepHeatmap'
+import SweepPolicyEditor from './SweepPolicyEditor'
 
 const OperationsControls_v2: React.FC = () => {
   const [parameters, setParameters] = useState({
     sweepRangeEnergy: 1000,
     sweepRangeFreq: 0.5
   })
-  const [sweepResults, setSweepResults] = useState<any[]>([])
+  const [sweepResults, setSweepResults] = useState<api.SweepResult[]>([])
+  const [sweepSteps, setSweepSteps] = useState(10)
+  const [selectedConfig, setSelectedConfig] = useState<api.SweepResult | null>(null)
   const [isRunning, setIsRunning] = useState(false)
-  const [scanResults, setScanResults] = useState<any>(null)
   const [isScanning, setIsScanning] = useState(false)
-  const [transportReady, setTransportReady] = useState(false)
-  const [stargateStatus, setStargateStatus] = useState({
-    portal1: 'UNLOCKED',
-    portal2: 'UNLOCKED'
-  })
-  const [sweepApprovalStatus, setSweepApprovalStatus] = useState<{
-    approved: boolean;
-    criteria: string;
-    report: string;
-  } | null>(null)
+  const transportReady = useSimulationStore(state => state.transportReady)
+  const stargateStatus = {
+    portal1: useSimulationStore(selectControls(1)).lock,
+    portal2: useSimulationStore(selectControls(2)).lock
+  }
+  const { team, setTeam, policy, setPolicy } = useSweepPolicy()
+  const [showPolicy, setShowPolicy] = useState(false)
+
+  const bestConfig = sweepResults.length > 0
+    ? sweepResults.reduce((best, current) => current.bridge_strength > best.bridge_strength ? current : best)
+    : null
+
+  // Re-evaluated whenever the selection or the policy changes, so the report always
+  // describes the configuration the Apply button would send
+  const policyReport = useMemo(
+    () => (sweepResults.length > 0 ? evaluatePolicy(policy, sweepResults, sweepSteps, selectedConfig ?? bestConfig) : null),
+    [policy, sweepResults, sweepSteps, selectedConfig, bestConfig]
+  )
+  const failedRules = policyReport?.rules.filter(rule => !rule.passed) ?? []
 
   const handleParameterChange = (param: string, value: number) => {
     setParameters(prev => ({
@@ -29,17 +49,18 @@ const OperationsControls_v2: React.FC = () => {
 
   const runParameterSweep = async () => {
     setIsRunning(true)
-    setSweepApprovalStatus(null)
+    setSweepResults([])
+    setSelectedConfig(null)
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/parameter_sweep?energy_range=${parameters.sweepRangeEnergy}&freq_range=${parameters.sweepRangeFreq}`, {
-        method: 'POST'
+      const data = await api.parameterSweep({
+        energy_range: parameters.sweepRangeEnergy,
+        freq_range: parameters.sweepRangeFreq
       })
-      const data = await response.json()
       setSweepResults(data.results || [])
+      setSweepSteps(data.sweep_parameters.steps)
+      setSelectedConfig(data.best_result)
+      recordSweep('operations', parameters, data)
       console.log('Parameter sweep results:', data)
-      
-      setTimeout(() => evaluateSweepResults(data.results || []), 100)
     } catch (error) {
       console.error('Error running parameter sweep:', error)
     } finally {
@@ -47,51 +68,21 @@ const OperationsControls_v2: React.FC = () => {
     }
   }
 
-  const evaluateSweepResults = (results: any[]) => {
-    if (results.length === 0) return
-    
-    const optimal = results.reduce((best, current) => 
-      current.bridge_strength > best.bridge_strength ? current : best
-    )
-    
-    const avgStrength = results.reduce((sum, r) => sum + r.bridge_strength, 0) / results.length
-    const minAcceptableStrength = 0.5
-    
-    const approved = optimal.bridge_strength >= minAcceptableStrength
-    const criteria = `Bridge strength ≥ ${minAcceptableStrength} (Optimal: ${optimal.bridge_strength.toFixed(3)})`
-    const report = `Sweep evaluated ${results.length} configurations. Average strength: ${avgStrength.toFixed(3)}. ${approved ? 'APPROVED' : 'REJECTED'} based on safety criteria.`
-    
-    setSweepApprovalStatus({ approved, criteria, report })
-  }
-
   const applyOptimalParameters = async () => {
-    if (!sweepApprovalStatus?.approved) {
-      alert('Cannot apply parameters - sweep results not approved. Bridge strength must be ≥ 0.5 for safety.')
+    const config = policyReport?.candidate
+    if (!policyReport?.approved || !config) {
+      alert(`Cannot apply parameters - sweep not approved by the ${team} policy: ${failedRules.map(rule => rule.label).join(', ') || 'no rules are enabled'}`)
       return
     }
     
     try {
-      const optimal = sweepResults.reduce((best, current) => 
-        current.bridge_strength > best.bridge_strength ? current : best
-      )
-      
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/apply_optimal_parameters`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          frequency1: optimal.frequency1,
-          frequency2: optimal.frequency2,
-          energy1: optimal.energy1,
-          energy2: optimal.energy2
-        })
+      const data = await actions.applyParameters({
+        frequency1: config.frequency1,
+        frequency2: config.frequency2,
+        energy1: config.energy1,
+        energy2: config.energy2
       })
-      
-      const data = await response.json()
       console.log('Applied optimal parameters:', data)
-      setTransportReady(true)
     } catch (error) {
       console.error('Error applying optimal parameters:', error)
     }
@@ -99,66 +90,30 @@ const OperationsControls_v2: React.FC = () => {
 
   const unlockAllPortals = async () => {
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/unlock_portals`, { 
-        method: 'POST' 
-      })
-      
-      if (response.ok) {
-        setStargateStatus({
-          portal1: 'UNLOCKED',
-          portal2: 'UNLOCKED'
-        })
-        setTransportReady(false)
-        console.log('All portals unlocked - system reset to default state')
-      }
+      await actions.unlockPortals()
+      console.log('All portals unlocked - system reset to default state')
     } catch (error) {
       console.error('Error unlocking portals:', error)
-      setStargateStatus({
-        portal1: 'UNLOCKED',
-        portal2: 'UNLOCKED'
-      })
-      setTransportReady(false)
     }
   }
 
-  const scanStargateContents = async (portalId: number) => {
+  const lockStargate = async (portalId: api.PortalId) => {
+    try {
+      const data = await actions.lockPortal(portalId)
+      console.log(`Portal ${portalId} lock result:`, data)
+    } catch (error) {
+      console.error(`Error locking portal ${portalId}:`, error)
+      alert(`Failed to lock Portal ${portalId}: ${api.errorMessage(error)}`)
+    }
+  }
+
+  const scanStargateContents = async (portalId: api.PortalId) => {
     setIsScanning(true)
-    setScanResults(null)
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 10000)
-      
-      const response = await fetch(`${backendUrl}/api/scan_portal?portal_id=${portalId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        signal: controller.signal
-      })
-      
-      clearTimeout(timeoutId)
-      
-      if (!response.ok) {
-        throw new Error(`Scan failed with status: ${response.status} - ${response.statusText}`)
-      }
-      
-      const data = await response.json()
-      setScanResults({
-        ...data,
-        portal_id: portalId,
-        timestamp: new Date().toISOString()
-      })
+      const data = await actions.scanPortal(portalId)
       console.log(`Portal ${portalId} scan results:`, data)
     } catch (error) {
       console.error(`Error scanning portal ${portalId}:`, error)
-      setScanResults({
-        error: `Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        portal_id: portalId,
-        timestamp: new Date().toISOString()
-      })
     } finally {
       setIsScanning(false)
     }
@@ -222,18 +177,20 @@ const OperationsControls_v2: React.FC = () => {
             
             <button
               onClick={applyOptimalParameters}
-              disabled={!sweepApprovalStatus?.approved}
+              disabled={!policyReport?.approved}
               className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
-                !sweepApprovalStatus?.approved
+                !policyReport?.approved
                   ? 'bg-gray-800 cursor-not-allowed text-gray-400'
                   : 'bg-green-600 hover:bg-green-700 text-white'
               }`}
             >
-              Apply Optimal Parameters
+              {selectedConfig && selectedConfig.step !== bestConfig?.step
+                ? `Apply Selected #${selectedConfig.step}`
+                : 'Apply Optimal Parameters'}
             </button>
           </div>
           
-          {!sweepApprovalStatus?.approved && sweepResults.length > 0 && (
+          {!policyReport?.approved && sweepResults.length > 0 && (
             <div className="text-xs text-red-400 bg-red-900 border border-red-600 rounded p-2">
               ⚠️ Parameters cannot be applied - sweep results do not meet safety criteria
             </div>
@@ -241,6 +198,21 @@ const OperationsControls_v2: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-gray-800 border border-gray-600 rounded p-3">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-xs text-gray-200">Approval Policy ({team})</div>
+          <button
+            onClick={() => setShowPolicy(show => !show)}
+            className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          >
+            {showPolicy ? 'Hide' : `Edit ${policy.rules.filter(rule => rule.enabled).length} rules`}
+          </button>
+        </div>
+        {showPolicy && (
+          <SweepPolicyEditor team={team} policy={policy} onTeamChange={setTeam} onPolicyChange={setPolicy} />
+        )}
+      </div>
+
       <div className="bg-gray-800 border border-gray-600 rounded p-3">
         <div className="text-xs text-gray-200 mb-3">Portal Scanning & Diagnostics</div>
         <div className="space-y-3">
@@ -269,32 +241,7 @@ const OperationsControls_v2: React.FC = () => {
             </button>
           </div>
           
-          {scanResults && (
-            <div className={`border rounded p-2 ${
-              scanResults.error ? 'bg-red-800 border-red-400' : 'bg-gray-700 border-gray-400'
-            }`}>
-              <div className="text-xs text-white mb-1 font-semibold">
-                {scanResults.error ? 'Scan Error:' : `Portal ${scanResults.portal_id} Scan Results:`}
-              </div>
-              <div className={`text-sm font-mono font-bold ${
-                scanResults.error ? 'text-red-100' : 'text-cyan-100'
-              }`}>
-                {scanResults.error || scanResults.contents || 'Portal Empty'}
-              </div>
-              {scanResults.required_params && (
-                <div className="text-xs text-yellow-200 mt-1 font-semibold">
-                  Required: {typeof scanResults.required_params === 'object' 
-                    ? JSON.stringify(scanResults.required_params) 
-                    : scanResults.required_params}
-                </div>
-              )}
-              {scanResults.timestamp && (
-                <div className="text-xs text-gray-400 mt-1">
-                  Scanned: {new Date(scanResults.timestamp).toLocaleTimeString()}
-                </div>
-              )}
-            </div>
-          )}
+          <ScanInspector />
         </div>
       </div>
 
@@ -320,7 +267,24 @@ const OperationsControls_v2: React.FC = () => {
               </div>
             </div>
           </div>
-          
+
+          <div className="flex space-x-2">
+            {([1, 2] as const).map(portalId => (
+              <button
+                key={portalId}
+                onClick={() => lockStargate(portalId)}
+                disabled={stargateStatus[portalKey(portalId)] === 'LOCKED'}
+                className={`flex-1 px-3 py-2 rounded text-sm font-medium transition-colors ${
+                  stargateStatus[portalKey(portalId)] === 'LOCKED'
+                    ? 'bg-gray-600 cursor-not-allowed text-gray-400'
+                    : 'bg-orange-600 hover:bg-orange-700 text-white'
+                }`}
+              >
+                Lock Portal {portalId}
+              </button>
+            ))}
+          </div>
+
           {transportReady && (
             <div className="bg-green-800 border border-green-400 rounded p-2">
               <div className="text-xs text-green-100 font-bold">✅ TRANSPORT READY</div>
@@ -353,38 +317,39 @@ const OperationsControls_v2: React.FC = () => {
               Best Bridge Strength: {Math.max(...sweepResults.map(r => r.bridge_strength)).toFixed(3)}
             </div>
             
-            {sweepApprovalStatus && (
+            {policyReport && (
               <div className={`p-2 rounded border ${
-                sweepApprovalStatus.approved 
+                policyReport.approved 
                   ? 'bg-green-800 border-green-400' 
                   : 'bg-red-800 border-red-400'
               }`}>
                 <div className={`text-xs font-bold ${
-                  sweepApprovalStatus.approved ? 'text-green-100' : 'text-red-100'
+                  policyReport.approved ? 'text-green-100' : 'text-red-100'
                 }`}>
-                  {sweepApprovalStatus.approved ? '✅ SWEEP APPROVED' : '❌ SWEEP REJECTED'}
+                  {policyReport.approved ? '✅ SWEEP APPROVED' : '❌ SWEEP REJECTED'}
                 </div>
                 <div className="text-xs text-gray-200 mt-1">
-                  Criteria: {sweepApprovalStatus.criteria}
+                  Configuration #{policyReport.candidate?.step} against {policyReport.rules.length} rules ({team} policy)
                 </div>
-                <div className="text-xs text-gray-300 mt-1">
-                  Report: {sweepApprovalStatus.report}
+                <div className="mt-1 space-y-0.5">
+                  {policyReport.rules.map(rule => (
+                    <div key={rule.id} className="grid grid-cols-[1rem_1fr_auto] gap-1 text-xs">
+                      <span>{rule.passed ? '✓' : '✗'}</span>
+                      <span className={rule.passed ? 'text-gray-200' : 'text-red-200'}>{rule.label}</span>
+                      <span className="font-mono text-gray-300">{rule.actual} ({rule.expected})</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
             
-            <div className="grid grid-cols-5 gap-1">
-              {sweepResults.slice(0, 10).map((result, index) => (
-                <div
-                  key={index}
-                  className={`p-1 rounded text-xs text-center ${
-                    result.bridge_strength > 0.5 ? 'bg-green-600' : 'bg-red-600'
-                  }`}
-                >
-                  {result.bridge_strength.toFixed(2)}
-                </div>
-              ))}
-            </div>
+            <SweepHeatmap
+              results={sweepResults}
+              steps={sweepSteps}
+              threshold={strengthThreshold(policy)}
+              selected={selectedConfig}
+              onSelect={setSelectedConfig}
+            />
           </div>
         </div>
       )}
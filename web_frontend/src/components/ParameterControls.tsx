@@ -1,4 +1,9 @@
 import React, { useState } from 'react'
+import * as api from '../lib/api'
+import { DEFAULT_MATERIAL, findMaterial, massOf } from '../lib/materials'
+import { useMaterials } from '../hooks/use-materials'
+import * as actions from '../lib/simulation-actions'
+import { recordSweep } from '../lib/sweep-history'
 import './SliderStyles.css'
 
 interface ParameterControlsProps {
@@ -13,13 +18,13 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
     frequency2: 30.0,
     payloadVolume: 0.1,
     payloadMass: 75.0,
-    payloadType: 'Gold',
+    payloadType: DEFAULT_MATERIAL,
     sweepRange: 10.0
   })
 
-  const [sweepResults, setSweepResults] = useState<any[]>([])
+  const [sweepResults, setSweepResults] = useState<api.SweepResult[]>([])
   const [isRunning, setIsRunning] = useState(false)
-  const [scanResults, setScanResults] = useState<any>(null)
+  const [scanResults, setScanResults] = useState<api.ScanPortalResponse | null>(null)
   const [isScanning, setIsScanning] = useState(false)
   const [transportReady, setTransportReady] = useState(false)
   const [stargateStatus, setStargateStatus] = useState({
@@ -41,12 +46,7 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
     }
   })
 
-  const payloadTypes = [
-    { value: 'Gold', density: 19.3, description: 'Precious metal - High density' },
-    { value: 'Wood', density: 0.6, description: 'Organic material - Low density' },
-    { value: 'Aluminum', density: 2.7, description: 'Light metal - Medium density' },
-    { value: 'Biological', density: 1.0, description: 'Living tissue - Variable density' }
-  ]
+  const materials = useMaterials()
 
   const handleParameterChange = (param: string, value: number | string) => {
     const newParams = { ...parameters, [param]: value }
@@ -54,9 +54,9 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
     onParameterUpdate(newParams)
     
     if (param === 'payloadType') {
-      const selectedType = payloadTypes.find(t => t.value === value)
+      const selectedType = findMaterial(value as string)
       if (selectedType) {
-        const calculatedMass = parameters.payloadVolume * selectedType.density * 1000
+        const calculatedMass = massOf(selectedType.name, parameters.payloadVolume)
         const massParams = { ...newParams, payloadMass: calculatedMass }
         setParameters(massParams)
         onParameterUpdate(massParams)
@@ -67,31 +67,16 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
   const runParameterSweep = async () => {
     setIsRunning(true)
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/parameter_sweep?base_freq=${parameters.frequency1}&sweep_range=${parameters.sweepRange}&steps=10`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        }
+      const data = await api.parameterSweep({
+        energy_range: parameters.sweepRange,
+        freq_range: 0.5
       })
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      
-      if (data.status === 'success') {
-        setSweepResults(data.results || [])
-        console.log('Parameter sweep results:', data)
-      } else {
-        console.error('Parameter sweep failed:', data.message)
-        alert(`Parameter sweep failed: ${data.message}`)
-      }
+      setSweepResults(data.results || [])
+      recordSweep('parameters', { sweepRangeEnergy: parameters.sweepRange, sweepRangeFreq: 0.5 }, data)
+      console.log('Parameter sweep results:', data)
     } catch (error) {
       console.error('Error running parameter sweep:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      alert(`Error running parameter sweep: ${errorMessage}`)
+      alert(`Error running parameter sweep: ${api.errorMessage(error)}`)
     } finally {
       setIsRunning(false)
     }
@@ -107,142 +92,80 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
         handleParameterChange('energy1', optimal.energy1)
         handleParameterChange('energy2', optimal.energy2)
         
-        const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-        const response = await fetch(`${backendUrl}/api/set_parameters?frequency1=${optimal.freq1}&frequency2=${optimal.freq2}`, {
-          method: 'POST'
+        const data = await actions.applyParameters({
+          frequency1: optimal.frequency1,
+          frequency2: optimal.frequency2,
+          energy1: optimal.energy1,
+          energy2: optimal.energy2
         })
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
-        }
-        
-        const data = await response.json()
-        
-        if (data.status === 'success') {
-          console.log('Applied optimal parameters:', data)
-          alert(`Applied optimal parameters: Energy1=${optimal.energy1.toFixed(0)}J, Energy2=${optimal.energy2.toFixed(0)}J`)
-        } else {
-          console.error('Failed to apply parameters:', data.message)
-          alert(`Failed to apply parameters: ${data.message}`)
-        }
+        console.log('Applied optimal parameters:', data)
+        alert(`Applied optimal parameters: Energy1=${optimal.energy1.toFixed(0)}J, Energy2=${optimal.energy2.toFixed(0)}J`)
       } catch (error) {
         console.error('Error applying optimal parameters:', error)
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-        alert(`Error applying optimal parameters: ${errorMessage}`)
+        alert(`Error applying optimal parameters: ${api.errorMessage(error)}`)
       }
     }
   }
 
-  const scanStargateContents = async (portalNumber: number) => {
+  const scanStargateContents = async (portalNumber: api.PortalId) => {
     setIsScanning(true)
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/scan_portal?portal=${portalNumber}`, {
-        method: 'POST'
-      })
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      
-      const data = await response.json()
+      const data = await actions.scanPortal(portalNumber)
       setScanResults(data)
-      
-      if (data.status === 'success') {
-        console.log('Scan results:', data)
-        alert(`Portal ${portalNumber} scan complete: ${data.contents || 'Empty'}`)
-      } else {
-        console.error('Scan failed:', data.message)
-        alert(`Scan failed: ${data.message}`)
-      }
+      console.log('Scan results:', data)
+      alert(`Portal ${portalNumber} scan complete: ${data.contents || 'Empty'}`)
     } catch (error) {
       console.error('Error scanning portal:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      alert(`Error scanning portal: ${errorMessage}`)
+      alert(`Error scanning portal: ${api.errorMessage(error)}`)
     } finally {
       setIsScanning(false)
     }
   }
 
-  const commitPayloadToGate = async (portal: number) => {
+  const commitPayloadToGate = async (portal: api.PortalId) => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/load_payload`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          portal: portal,
-          payload_type: parameters.payloadType,
-          payload_volume: parameters.payloadVolume,
-          payload_mass: parameters.payloadMass
-        })
+      const data = await actions.loadPayload(portal, {
+        type: parameters.payloadType,
+        volume: parameters.payloadVolume,
+        mass: parameters.payloadMass
       })
       
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      
-      const data = await response.json()
+      setPayloadAssignment(prev => ({
+        ...prev,
+        [`portal${portal}`]: {
+          type: parameters.payloadType,
+          volume: parameters.payloadVolume,
+          mass: parameters.payloadMass
+        },
+        loadingBay: null
+      }))
       
-      if (data.status === 'success') {
-        setPayloadAssignment(prev => ({
-          ...prev,
-          [`portal${portal}`]: {
-            type: parameters.payloadType,
-            volume: parameters.payloadVolume,
-            mass: parameters.payloadMass
-          },
-          loadingBay: null
-        }))
-        
-        console.log(`Payload committed to Portal ${portal}:`, data)
-        alert(`Payload successfully loaded into Portal ${portal}`)
-      } else {
-        console.error(`Failed to load payload to portal ${portal}:`, data.message)
-        alert(`Failed to load payload to portal ${portal}: ${data.message}`)
-      }
+      console.log(`Payload committed to Portal ${portal}:`, data)
+      alert(`Payload successfully loaded into Portal ${portal}`)
     } catch (error) {
       console.error(`Error loading payload to portal ${portal}:`, error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      alert(`Error loading payload to portal ${portal}: ${errorMessage}`)
+      alert(`Error loading payload to portal ${portal}: ${api.errorMessage(error)}`)
     }
   }
 
-  const lockStargateForTransport = async (portalNumber: number) => {
+  const lockStargateForTransport = async (portalNumber: api.PortalId) => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/lock_portal?portal=${portalNumber}`, {
-        method: 'POST'
-      })
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
+      const data = await actions.lockPortal(portalNumber)
       
-      const data = await response.json()
+      setStargateStatus(prev => ({
+        ...prev,
+        [`portal${portalNumber}`]: 'LOCKED'
+      }))
       
-      if (data.status === 'success') {
-        setStargateStatus(prev => ({
-          ...prev,
-          [`portal${portalNumber}`]: 'LOCKED'
-        }))
-        
-        if (stargateStatus.portal1 === 'LOCKED' || stargateStatus.portal2 === 'LOCKED') {
-          setTransportReady(true)
-        }
-        
-        console.log(`Portal ${portalNumber} locked for transport`)
-        alert(`Portal ${portalNumber} LOCKED - Ready for transport`)
-      } else {
-        console.error('Lock failed:', data.message)
-        alert(`Lock failed: ${data.message}`)
+      if (stargateStatus.portal1 === 'LOCKED' || stargateStatus.portal2 === 'LOCKED') {
+        setTransportReady(true)
       }
+      
+      console.log(`Portal ${portalNumber} locked for transport:`, data)
+      alert(`Portal ${portalNumber} LOCKED - Ready for transport`)
     } catch (error) {
       console.error('Error locking portal:', error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      alert(`Error locking portal: ${errorMessage}`)
+      alert(`Error locking portal: ${api.errorMessage(error)}`)
     }
   }
 
@@ -337,9 +260,9 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
               onChange={(e) => handleParameterChange('payloadType', e.target.value)}
               className="w-full px-3 py-2 bg-gray-600 text-white rounded border border-gray-500 focus:border-blue-400 focus:outline-none"
             >
-              {payloadTypes.map(type => (
-                <option key={type.value} value={type.value}>
-                  {type.value} - {type.description}
+              {materials.map(material => (
+                <option key={material.name} value={material.name}>
+                  {material.name} - {material.notes}
                 </option>
               ))}
             </select>
@@ -366,7 +289,7 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
             <div className="flex items-center space-x-2">
               <div className="flex-1 bg-gray-700 border border-gray-500 rounded px-3 py-2">
                 <span className="text-green-300 font-mono text-sm font-bold">
-                  {(parameters.payloadVolume * (payloadTypes.find(t => t.value === parameters.payloadType)?.density || 1) * 1000).toFixed(1)}
+                  {massOf(parameters.payloadType, parameters.payloadVolume).toFixed(1)}
                 </span>
               </div>
               <span className="text-xs text-gray-300 w-16">Auto-calc</span>
@@ -549,7 +472,7 @@ const ParameterControls: React.FC<ParameterControlsProps> = ({ onParameterUpdate
               </div>
               {scanResults.required_params && (
                 <div className="text-xs text-yellow-200 mt-1 font-semibold">
-                  Required: {scanResults.required_params}
+                  Required: {JSON.stringify(scanResults.required_params)}
                 </div>
               )}
             </div>
@@ -1,37 +1,30 @@
 import React, { useState } from 'react'
+import * as api from '../lib/api'
+import { DEFAULT_MATERIAL, densityOf, findMaterial, massFor, massOf, volumeFor } from '../lib/materials'
+import * as actions from '../lib/simulation-actions'
+import { selectControls } from '../lib/simulation-store'
+import { useMaterials } from '../hooks/use-materials'
+import { useSimulationStore } from '../hooks/use-simulation-store'
 import './SliderStyles.css'
 
 const PayloadControls: React.FC = () => {
   const [parameters, setParameters] = useState({
     payloadVolume: 0.1,
-    payloadMass: 75.0,
-    payloadType: 'Gold'
+    payloadMass: massOf(DEFAULT_MATERIAL, 0.1),
+    payloadType: DEFAULT_MATERIAL
   })
+  const materials = useMaterials()
 
-  const [payloadAssignment, setPayloadAssignment] = useState<{
-    portal1: { type: string; volume: number; mass: number } | null;
-    portal2: { type: string; volume: number; mass: number } | null;
-    loadingBay: { type: string; volume: number; mass: number } | null;
-  }>({
-    portal1: null,
-    portal2: null,
-    loadingBay: {
-      type: parameters.payloadType,
-      volume: parameters.payloadVolume,
-      mass: parameters.payloadMass
-    }
-  })
+  // What each portal holds comes from the shared store, whichever panel loaded it
+  const payloadAssignment = {
+    portal1: useSimulationStore(selectControls(1)).payload,
+    portal2: useSimulationStore(selectControls(2)).payload
+  }
 
-  const payloadTypes = [
-    { value: 'Gold', density: 19300, densityDisplay: 19.3, description: 'Precious metal - Extremely high density', color: '#FFD700' },
-    { value: 'Wood', density: 600, densityDisplay: 0.6, description: 'Organic material - Low density variable', color: '#8B4513' },
-    { value: 'Aluminum', density: 2700, densityDisplay: 2.7, description: 'Light metal - Medium density', color: '#C0C0C0' },
-    { value: 'Biological', density: 1000, densityDisplay: 1.0, description: 'Living tissue - Water-based density', color: '#90EE90' }
-  ]
+  const density = densityOf(parameters.payloadType)
 
   const handleParameterChange = (param: string, value: number | string) => {
-    const currentMaterial = payloadTypes.find(t => t.value === (param === 'payloadType' ? value as string : parameters.payloadType))
-    const density = currentMaterial?.density || 1000 // kg/m³
+    const density = densityOf(param === 'payloadType' ? value as string : parameters.payloadType)
     
     let newVolume = parameters.payloadVolume
     let newMass = parameters.payloadMass
@@ -39,13 +32,13 @@ const PayloadControls: React.FC = () => {
     
     if (param === 'payloadType') {
       newType = value as string
-      newMass = newVolume * density
+      newMass = massFor(newVolume, density)
     } else if (param === 'payloadVolume') {
       newVolume = value as number
-      newMass = newVolume * density
+      newMass = massFor(newVolume, density)
     } else if (param === 'payloadMass') {
       newMass = value as number
-      newVolume = newMass / density
+      newVolume = volumeFor(newMass, density)
     }
     
     setParameters({
@@ -53,49 +46,16 @@ const PayloadControls: React.FC = () => {
       payloadMass: newMass,
       payloadType: newType
     })
-    
-    setPayloadAssignment(prev => ({
-      ...prev,
-      loadingBay: {
-        type: newType,
-        volume: newVolume,
-        mass: newMass
-      }
-    }))
   }
 
-  const commitPayloadToGate = async (gateNumber: number) => {
+  const commitPayloadToGate = async (gateNumber: api.PortalId) => {
     try {
-      const backendUrl = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/load_payload`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          portal_id: gateNumber,
-          payload_type: parameters.payloadType,
-          payload_volume: parameters.payloadVolume,
-          payload_mass: parameters.payloadMass
-        })
+      const data = await actions.loadPayload(gateNumber, {
+        type: parameters.payloadType,
+        volume: parameters.payloadVolume,
+        mass: parameters.payloadMass
       })
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-      
-      const data = await response.json()
       console.log(`Payload committed to gate ${gateNumber}:`, data)
-      
-      setPayloadAssignment(prev => ({
-        ...prev,
-        [`portal${gateNumber}`]: {
-          type: parameters.payloadType,
-          volume: parameters.payloadVolume,
-          mass: parameters.payloadMass
-        },
-        loadingBay: null
-      }))
     } catch (error) {
       console.error(`Error committing payload to gate ${gateNumber}:`, error)
     }
@@ -105,14 +65,10 @@ const PayloadControls: React.FC = () => {
     setParameters({
       payloadVolume: 0.0,
       payloadMass: 0.0,
-      payloadType: 'Gold'
+      payloadType: DEFAULT_MATERIAL
     })
     
-    setPayloadAssignment({
-      portal1: null,
-      portal2: null,
-      loadingBay: null
-    })
+    actions.clearPayloads()
   }
 
   const resetToIdleState = () => {
@@ -135,15 +91,15 @@ const PayloadControls: React.FC = () => {
               onChange={(e) => handleParameterChange('payloadType', e.target.value)}
               className="w-full px-3 py-2 bg-gray-600 text-white rounded border border-gray-500 focus:border-blue-400 focus:outline-none"
             >
-              {payloadTypes.map(type => (
-                <option key={type.value} value={type.value}>
-                  {type.value} - {type.description} (ρ={type.densityDisplay} g/cm³)
+              {materials.map(material => (
+                <option key={material.name} value={material.name}>
+                  {material.name} - {material.notes} (ρ={material.density / 1000} g/cm³)
                 </option>
               ))}
             </select>
             <div className="mt-2 text-xs text-gray-400">
-              <span style={{color: payloadTypes.find(t => t.value === parameters.payloadType)?.color}}>●</span>
-              {' '}Density: {payloadTypes.find(t => t.value === parameters.payloadType)?.density} kg/m³ (FIXED)
+              <span style={{color: findMaterial(parameters.payloadType)?.color}}>●</span>
+              {' '}Density: {density} kg/m³ (FIXED)
             </div>
           </div>
           
@@ -198,7 +154,7 @@ const PayloadControls: React.FC = () => {
               </div>
               <div>
                 <span className="text-gray-300">Density:</span>
-                <div className="text-yellow-300 font-mono font-bold">{payloadTypes.find(t => t.value === parameters.payloadType)?.density} kg/m³</div>
+                <div className="text-yellow-300 font-mono font-bold">{density} kg/m³</div>
               </div>
             </div>
             <div className="text-xs text-gray-400 mt-1">
@@ -217,7 +173,7 @@ const PayloadControls: React.FC = () => {
                 {parameters.payloadType} - {parameters.payloadVolume.toFixed(3)}m³ - {parameters.payloadMass.toFixed(1)}kg
               </div>
               <div className="text-xs text-gray-300">
-                Density: {payloadTypes.find(t => t.value === parameters.payloadType)?.density} kg/m³ | Ready for portal assignment
+                Density: {density} kg/m³ | Ready for portal assignment
               </div>
             </div>
             
@@ -1,4 +1,13 @@
 import React, { useState } from 'react'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { DEFAULT_MATERIAL, densityOf, massOf } from '../lib/materials'
+import { enqueuePayload } from '../lib/payload-queue'
+import { selectControls, type LoadedPayload } from '../lib/simulation-store'
+import { useMaterials } from '../hooks/use-materials'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+import MaterialLibraryEditor from './MaterialLibraryEditor'
+import PayloadPreview from './PayloadPreview'
 
 interface PayloadControlsProps {
   portalNumber?: number;
@@ -7,27 +16,23 @@ interface PayloadControlsProps {
 const PayloadControls_v2: React.FC<PayloadControlsProps> = () => {
   const [parameters, setParameters] = useState({
     payloadVolume: 0.1,
-    payloadMass: 1.93,
-    payloadType: 'Gold'
+    payloadMass: massOf(DEFAULT_MATERIAL, 0.1),
+    payloadType: DEFAULT_MATERIAL
   })
 
-  const [payloadAssignment, setPayloadAssignment] = useState({
-    portal1: null as string | null,
-    portal2: null as string | null,
-    loadingBay: 'Gold - 1.93 kg' as string | null
-  })
+  const [loadingBay, setLoadingBay] = useState<string | null>(`${DEFAULT_MATERIAL} - ${massOf(DEFAULT_MATERIAL, 0.1)} kg`)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const materials = useMaterials()
+  const portal1Payload = useSimulationStore(selectControls(1)).payload
+  const portal2Payload = useSimulationStore(selectControls(2)).payload
+
+  const describePayload = (payload: LoadedPayload | null) =>
+    payload ? `${payload.type} - ${payload.mass} kg` : null
 
-  const materialDensities = {
-    'Gold': 19.3,
-    'Lead': 11.34,
-    'Iron': 7.87,
-    'Aluminum': 2.70,
-    'Water': 1.0,
-    'Air': 0.001225,
-    'Titanium': 4.51,
-    'Copper': 8.96,
-    'Silver': 10.49,
-    'Platinum': 21.45
+  const payloadAssignment = {
+    portal1: describePayload(portal1Payload),
+    portal2: describePayload(portal2Payload),
+    loadingBay
   }
 
   const handleParameterChange = (param: string, value: number | string) => {
@@ -35,72 +40,52 @@ const PayloadControls_v2: React.FC<PayloadControlsProps> = () => {
       const newParams = { ...prev, [param]: value }
       
       if (param === 'payloadType' || param === 'payloadVolume') {
-        const density = materialDensities[newParams.payloadType as keyof typeof materialDensities] || 1.0
-        newParams.payloadMass = Number((newParams.payloadVolume * density).toFixed(2))
+        newParams.payloadMass = Number(massOf(newParams.payloadType, newParams.payloadVolume).toFixed(2))
       }
       
       return newParams
     })
   }
 
-  const commitPayload = async (portalId: number) => {
+  const commitPayload = async (portalId: api.PortalId) => {
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/load_payload`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          portal_id: portalId,
-          volume: parameters.payloadVolume,
-          mass: parameters.payloadMass,
-          material: parameters.payloadType
-        })
+      const data = await actions.loadPayload(portalId, {
+        type: parameters.payloadType,
+        volume: parameters.payloadVolume,
+        mass: parameters.payloadMass
       })
-      
-      const data = await response.json()
       console.log(`Payload committed to Portal ${portalId}:`, data)
-      
-      const payloadDescription = `${parameters.payloadType} - ${parameters.payloadMass} kg`
-      setPayloadAssignment(prev => ({
-        ...prev,
-        [`portal${portalId}`]: payloadDescription,
-        loadingBay: null
-      }))
+      setLoadingBay(null)
     } catch (error) {
       console.error(`Error committing payload to Portal ${portalId}:`, error)
     }
   }
 
+  const queuePayload = () => {
+    enqueuePayload({
+      type: parameters.payloadType,
+      volume: parameters.payloadVolume,
+      mass: parameters.payloadMass
+    })
+  }
+
   const clearPayloadAfterTransfer = () => {
     setParameters({
       payloadVolume: 0.0,
       payloadMass: 0.0,
-      payloadType: 'Gold'
+      payloadType: DEFAULT_MATERIAL
     })
     
-    setPayloadAssignment({
-      portal1: null,
-      portal2: null,
-      loadingBay: null
-    })
+    actions.clearPayloads()
+    setLoadingBay(null)
     console.log('All payloads cleared after successful transfer')
   }
 
   const resetToIdleState = async () => {
     try {
-      const backendUrl = (import.meta as any).env.VITE_BACKEND_URL || 'http://localhost:8080'
-      const response = await fetch(`${backendUrl}/api/reset_system`, {
-        method: 'POST'
-      })
-      
-      if (response.ok) {
-        clearPayloadAfterTransfer()
-        console.log('System reset to idle state - all payloads cleared, energy off, gates unlocked')
-      } else {
-        console.error('Failed to reset system on backend')
-      }
+      await actions.resetSystem()
+      clearPayloadAfterTransfer()
+      console.log('System reset to idle state - all payloads cleared, energy off, gates unlocked')
     } catch (error) {
       console.error('Error resetting system:', error)
       clearPayloadAfterTransfer()
@@ -121,12 +106,12 @@ const PayloadControls_v2: React.FC<PayloadControlsProps> = () => {
               onChange={(e) => handleParameterChange('payloadType', e.target.value)}
               className="w-full px-2 py-1 bg-gray-700 border border-gray-500 rounded text-white text-sm"
             >
-              {Object.keys(materialDensities).map(material => (
-                <option key={material} value={material}>{material}</option>
+              {materials.map(material => (
+                <option key={material.name} value={material.name}>{material.name}</option>
               ))}
             </select>
             <div className="text-xs text-gray-400 mt-1">
-              Density: {materialDensities[parameters.payloadType as keyof typeof materialDensities]} kg/m³
+              Density: {densityOf(parameters.payloadType).toLocaleString()} kg/m³
             </div>
           </div>
           
@@ -162,6 +147,21 @@ const PayloadControls_v2: React.FC<PayloadControlsProps> = () => {
         </div>
       </div>
 
+      <PayloadPreview volume={parameters.payloadVolume} mass={parameters.payloadMass} />
+
+      <div className="bg-gray-800 border border-gray-600 rounded p-3">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-xs text-gray-200">Material Library</div>
+          <button
+            onClick={() => setShowLibrary(show => !show)}
+            className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          >
+            {showLibrary ? 'Hide' : `Manage ${materials.length} materials`}
+          </button>
+        </div>
+        {showLibrary && <MaterialLibraryEditor />}
+      </div>
+
       <div className="bg-gray-800 border border-gray-600 rounded p-3">
         <div className="text-xs text-gray-200 mb-3">Loading Bay Status</div>
         <div className="space-y-2">
@@ -196,6 +196,13 @@ const PayloadControls_v2: React.FC<PayloadControlsProps> = () => {
               Load → Portal 2
             </button>
           </div>
+          <button
+            onClick={queuePayload}
+            disabled={parameters.payloadVolume <= 0}
+            className="w-full px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+          >
+            Add {parameters.payloadType} - {parameters.payloadMass} kg to queue
+          </button>
         </div>
       </div>
 
@@ -0,0 +1,219 @@
+import React, { useState } from 'react'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { DEFAULT_MATERIAL } from '../lib/materials'
+import {
+  PORTAL_LIMITS,
+  createManifestItem,
+  manifestPayload,
+  manifestTotals,
+  resolveItem,
+  validateManifest,
+  type ManifestItem,
+  type ManifestQuantity
+} from '../lib/payload-manifest'
+import { enqueuePayload } from '../lib/payload-queue'
+import { useMaterials } from '../hooks/use-materials'
+import PayloadPreview from './PayloadPreview'
+
+const UNITS: Record<ManifestQuantity, string> = { volume: 'm³', mass: 'kg' }
+
+const PayloadManifestEditor: React.FC = () => {
+  const materials = useMaterials()
+  const [items, setItems] = useState<ManifestItem[]>(() => [createManifestItem(DEFAULT_MATERIAL)])
+  const [loading, setLoading] = useState<api.PortalId | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateItem = (id: string, changes: Partial<ManifestItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)))
+  }
+
+  const removeItem = (id: string) => {
+    setItems(current => current.filter(item => item.id !== id))
+  }
+
+  const addItem = () => {
+    setItems(current => [...current, createManifestItem(DEFAULT_MATERIAL)])
+  }
+
+  // Re-derived every render so a density edit in the library shows up immediately
+  const entries = items.map(resolveItem)
+  const totals = manifestTotals(entries.filter((entry): entry is api.PayloadManifestEntry => entry !== null))
+  const issues = validateManifest(items)
+
+  const load = async (portal: api.PortalId) => {
+    setLoading(portal)
+    setError(null)
+    setMessage(null)
+    try {
+      const payload = manifestPayload(items)
+      await actions.loadPayload(portal, payload)
+      setMessage(`Loaded ${payload.type} (${payload.mass} kg, ${payload.volume} m³) into Portal ${portal}`)
+    } catch (err) {
+      setError(api.errorMessage(err))
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  const usage = (value: number, limit: number) => Math.min(100, (value / limit) * 100)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400 font-semibold">Payload Manifest</div>
+        <button
+          onClick={() => setItems([])}
+          disabled={items.length === 0}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2 text-xs">
+        {items.length === 0 && <div className="text-gray-500">No items</div>}
+        {items.map((item, index) => {
+          const entry = entries[index]
+          return (
+            <div key={item.id} className="space-y-1 bg-gray-700 rounded p-2">
+              <div className="flex items-center space-x-2">
+                <select
+                  value={item.material}
+                  onChange={(e) => updateItem(item.id, { material: e.target.value })}
+                  className="flex-1 bg-gray-600 border border-gray-500 rounded px-1 py-1 text-white"
+                >
+                  {!materials.some(material => material.name === item.material) && (
+                    <option value={item.material}>{item.material} (missing)</option>
+                  )}
+                  {materials.map(material => (
+                    <option key={material.name} value={material.name}>{material.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => removeItem(item.id)}
+                  className="text-red-400 hover:text-red-300"
+                  title="Remove item"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-400">×</span>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={item.count}
+                  onChange={(e) => updateItem(item.id, { count: Number(e.target.value) })}
+                  className="w-14 bg-gray-600 border border-gray-500 rounded px-1 py-1 text-white"
+                  title="Count"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={item.amount}
+                  onChange={(e) => updateItem(item.id, { amount: Number(e.target.value) })}
+                  className="flex-1 min-w-0 bg-gray-600 border border-gray-500 rounded px-1 py-1 text-white"
+                  title={`Per-unit ${item.quantity}`}
+                />
+                <select
+                  value={item.quantity}
+                  onChange={(e) => updateItem(item.id, { quantity: e.target.value as ManifestQuantity })}
+                  className="bg-gray-600 border border-gray-500 rounded px-1 py-1 text-white"
+                >
+                  {(Object.keys(UNITS) as ManifestQuantity[]).map(quantity => (
+                    <option key={quantity} value={quantity}>{UNITS[quantity]} each</option>
+                  ))}
+                </select>
+              </div>
+              {entry && (
+                <div className="text-gray-400 font-mono">
+                  {(entry.unit_volume * entry.count).toFixed(4)} m³ · {(entry.unit_mass * entry.count).toFixed(2)} kg
+                </div>
+              )}
+            </div>
+          )
+        })}
+        <button
+          onClick={addItem}
+          className="w-full px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+        >
+          + Add item
+        </button>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2 text-xs">
+        <div className="text-gray-200">Totals</div>
+        {[
+          { label: 'Volume', value: totals.volume, limit: PORTAL_LIMITS.maxVolume, text: `${totals.volume.toFixed(4)} m³` },
+          { label: 'Mass', value: totals.mass, limit: PORTAL_LIMITS.maxMass, text: `${totals.mass.toFixed(2)} kg` },
+          { label: 'Units', value: totals.units, limit: PORTAL_LIMITS.maxUnits, text: String(totals.units) }
+        ].map(row => (
+          <div key={row.label}>
+            <div className="flex justify-between">
+              <span className="text-gray-400">{row.label}</span>
+              <span className="text-white font-mono">{row.text} / {row.limit}</span>
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded">
+              <div
+                className={`h-1.5 rounded ${row.value > row.limit ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${usage(row.value, row.limit)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-between">
+          <span className="text-gray-400">Average density</span>
+          <span className="text-yellow-300 font-mono">{totals.averageDensity.toFixed(1)} kg/m³</span>
+        </div>
+      </div>
+
+      <PayloadPreview volume={totals.volume} mass={totals.mass} />
+
+      {issues.length > 0 && (
+        <ul className="text-xs text-red-400 space-y-0.5">
+          {issues.map(issue => (
+            <li key={issue}>✗ {issue}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        {([1, 2] as const).map(portal => (
+          <button
+            key={portal}
+            onClick={() => load(portal)}
+            disabled={issues.length > 0 || loading !== null}
+            className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+              issues.length > 0 || loading !== null
+                ? 'bg-gray-600 cursor-not-allowed text-gray-400'
+                : 'bg-blue-600 hover:bg-blue-700 text-white'
+            }`}
+          >
+            {loading === portal ? 'Loading…' : `Load → Portal ${portal}`}
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={() => {
+          const payload = manifestPayload(items)
+          enqueuePayload(payload)
+          setMessage(`Queued ${payload.type} (${payload.mass} kg)`)
+        }}
+        disabled={issues.length > 0}
+        className="w-full px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+      >
+        Add to queue
+      </button>
+
+      {error && <div className="text-xs text-red-400">Load failed: {error}</div>}
+      {message && <div className="text-xs text-green-400">{message}</div>}
+    </div>
+  )
+}
+
+export default PayloadManifestEditor
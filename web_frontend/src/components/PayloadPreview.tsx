@@ -0,0 +1,78 @@
+import React, { useState } from 'react'
+import type * as api from '../lib/api'
+import { previewPayload } from '../lib/payload-preview'
+import { MIN_TRANSFER_BRIDGE_STRENGTH } from '../lib/simulation-model'
+import { selectView } from '../lib/simulation-store'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+
+interface PayloadPreviewProps {
+  volume: number;
+  mass: number;
+}
+
+const PayloadPreview: React.FC<PayloadPreviewProps> = ({ volume, mass }) => {
+  const view = useSimulationStore(selectView)
+  const [portal, setPortal] = useState<api.PortalId>(1)
+  const preview = previewPayload(volume, portal, view)
+
+  const rows = preview
+    ? [
+        {
+          label: 'Portal frequency',
+          value: `${preview.currentFreq.toFixed(4)} → ${preview.predictedFreq.toFixed(4)} Hz`,
+          color: 'text-blue-300'
+        },
+        { label: 'Frequency gap', value: `${preview.frequencyGap.toFixed(4)} Hz`, color: 'text-purple-300' },
+        { label: 'Bridge detune', value: `${preview.detune.toFixed(4)} Hz`, color: 'text-purple-300' },
+        {
+          label: 'Bridge strength',
+          value: preview.bridgeStrength.toFixed(3),
+          color: preview.bridgeStrength >= MIN_TRANSFER_BRIDGE_STRENGTH ? 'text-green-300' : 'text-red-300'
+        },
+        { label: 'Transfer energy', value: `${preview.transferEnergy.toFixed(1)} J`, color: 'text-yellow-300' }
+      ]
+    : []
+
+  return (
+    <div className="bg-gray-800 border border-gray-600 rounded p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-xs text-gray-200">Load Preview</div>
+        <div className="flex space-x-1">
+          {([1, 2] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setPortal(id)}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                portal === id ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              Portal {id}
+            </button>
+          ))}
+        </div>
+      </div>
+      {preview ? (
+        <div className="space-y-1 text-xs">
+          <div className="text-gray-400">
+            {volume.toFixed(3)} m³ · {mass.toFixed(2)} kg at the current energy levels
+          </div>
+          {rows.map(row => (
+            <div key={row.label} className="flex justify-between">
+              <span className="text-gray-300">{row.label}:</span>
+              <span className={`font-mono ${row.color}`}>{row.value}</span>
+            </div>
+          ))}
+          <div className={preview.transferViable ? 'text-green-400' : 'text-yellow-400'}>
+            {preview.transferViable ? '✓ Transfer predicted to succeed' : '✗ Transfer predicted to fail at these energies'}
+          </div>
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">
+          {volume > 0 ? 'Initialize the simulation to preview against live portal data' : 'Set a volume to preview'}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PayloadPreview
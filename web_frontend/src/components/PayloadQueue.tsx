@@ -0,0 +1,141 @@
+import React from 'react'
+import {
+  assignPortal,
+  clearFinished,
+  isBatchActive,
+  moveItem,
+  removeItem,
+  requestPause,
+  requeueItem,
+  runBatch,
+  type QueueItemStatus
+} from '../lib/payload-queue'
+import { usePayloadQueue } from '../hooks/use-payload-queue'
+
+const buttonClass =
+  'px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50'
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  queued: 'text-gray-400',
+  loading: 'text-blue-400',
+  bridging: 'text-blue-400',
+  transferring: 'text-blue-400',
+  done: 'text-green-400',
+  failed: 'text-red-400'
+}
+
+const PayloadQueue: React.FC = () => {
+  const items = usePayloadQueue(state => state.items)
+  const batch = usePayloadQueue(state => state.batch)
+  const pauseReason = usePayloadQueue(state => state.pauseReason)
+
+  const active = isBatchActive(batch)
+  const pending = items.filter(item => item.status === 'queued' || item.status === 'failed').length
+  const finished = items.filter(item => item.status === 'done').length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400 font-semibold">Payload Queue</div>
+        <button onClick={clearFinished} disabled={finished === 0 || active} className={buttonClass}>
+          Clear done ({finished})
+        </button>
+      </div>
+
+      <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-1 text-xs">
+        {items.length === 0 && (
+          <div className="text-gray-500">Stage payloads from Payload Configuration or the manifest editor</div>
+        )}
+        {items.map((item, index) => {
+          const editable = !active && item.status !== 'done'
+          return (
+            <div key={item.id} className="bg-gray-700 rounded px-2 py-1 space-y-1">
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-500 w-4">{index + 1}.</span>
+                <span className="flex-1 text-white truncate" title={item.payload.type}>
+                  {item.payload.type} - {item.payload.mass} kg
+                </span>
+                <select
+                  value={item.portal}
+                  onChange={(e) => assignPortal(item.id, Number(e.target.value) === 2 ? 2 : 1)}
+                  disabled={!editable}
+                  className="bg-gray-600 border border-gray-500 rounded px-1 text-white disabled:opacity-50"
+                >
+                  <option value={1}>Portal 1</option>
+                  <option value={2}>Portal 2</option>
+                </select>
+                <button
+                  onClick={() => moveItem(item.id, -1)}
+                  disabled={active || index === 0}
+                  className="text-gray-300 hover:text-white disabled:opacity-30"
+                  title="Move up"
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => moveItem(item.id, 1)}
+                  disabled={active || index === items.length - 1}
+                  className="text-gray-300 hover:text-white disabled:opacity-30"
+                  title="Move down"
+                >
+                  ▼
+                </button>
+                <button
+                  onClick={() => removeItem(item.id)}
+                  disabled={active}
+                  className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className={STATUS_STYLES[item.status]}>
+                  {item.status}
+                  {item.message && `: ${item.message}`}
+                </span>
+                {item.status === 'failed' && !active && (
+                  <button onClick={() => requeueItem(item.id)} className="text-blue-300 hover:text-blue-200">
+                    Requeue
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {batch === 'paused' && pauseReason && (
+        <div className="bg-yellow-900 border border-yellow-500 rounded p-2 text-xs text-yellow-100">
+          ⏸ Batch paused: {pauseReason}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => runBatch()}
+          disabled={active || pending === 0}
+          className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+            active || pending === 0 ? 'bg-gray-600 cursor-not-allowed text-gray-400' : 'bg-green-600 hover:bg-green-700 text-white'
+          }`}
+        >
+          {active ? 'Running...' : batch === 'paused' ? `Resume (${pending})` : `Run batch (${pending})`}
+        </button>
+        <button
+          onClick={requestPause}
+          disabled={batch !== 'running'}
+          className={`px-3 py-2 rounded text-sm font-medium transition-colors ${
+            batch !== 'running' ? 'bg-gray-600 cursor-not-allowed text-gray-400' : 'bg-yellow-600 hover:bg-yellow-700 text-white'
+          }`}
+        >
+          {batch === 'pausing' ? 'Pausing after current…' : 'Pause'}
+        </button>
+      </div>
+      <div className="text-xs text-gray-400 text-center">
+        Each payload is loaded, bridged and transferred in turn; the batch pauses on a failure or safety trip
+      </div>
+    </div>
+  )
+}
+
+export default PayloadQueue
@@ -1,5 +1,6 @@
 import React, { useRef, useEffect } from 'react'
 import * as THREE from 'three'
+import { createSixSpherePortal } from '../lib/portal-geometry'
 
 interface Portal3DProps {
   portalData?: {
@@ -12,121 +13,133 @@ interface Portal3DProps {
   title: string;
 }
 
+interface PortalScene {
+  spheres: THREE.Mesh<THREE.SphereGeometry, THREE.MeshPhongMaterial>[];
+  halo: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>;
+}
+
+const HEIGHT = 200
+// Energy at which the glow saturates; matches the upper clamp main.py applies to portal energy
+const FULL_GLOW_ENERGY = 20000
+const OSCILLATION_AMPLITUDE = 0.06
+
+const glowLevel = (data: Portal3DProps['portalData']) =>
+  Math.min((data?.energy ?? 0) / FULL_GLOW_ENERGY, 1) * Math.min(Math.max(data?.stability ?? 0, 0), 1)
+
 const Portal3D: React.FC<Portal3DProps> = ({ portalData, title }) => {
   const mountRef = useRef<HTMLDivElement>(null)
-  const sceneRef = useRef<THREE.Scene>()
-  const rendererRef = useRef<THREE.WebGLRenderer>()
-  const animationRef = useRef<number>()
+  const sceneRef = useRef<PortalScene>()
+  // Read by the render loop so new frames never rebuild the scene
+  const dataRef = useRef(portalData)
 
   useEffect(() => {
-    if (!mountRef.current) return
+    const mount = mountRef.current
+    if (!mount) return
 
     const scene = new THREE.Scene()
     scene.background = new THREE.Color(0x1a1a1a)
-    sceneRef.current = scene
 
-    const camera = new THREE.PerspectiveCamera(75, 300 / 200, 0.1, 1000)
+    const camera = new THREE.PerspectiveCamera(75, mount.clientWidth / HEIGHT, 0.1, 1000)
     camera.position.z = 5
 
     const renderer = new THREE.WebGLRenderer({ antialias: true })
-    renderer.setSize(300, 200)
-    rendererRef.current = renderer
-    mountRef.current.appendChild(renderer.domElement)
-
-    const sphereGeometry = new THREE.SphereGeometry(0.3, 16, 16)
-    const spheres: THREE.Mesh[] = []
-
-    const positions = [
-      { x: 0, y: 0, z: 0 },      // Center
-      { x: 1, y: 0, z: 0 },      // Right
-      { x: -1, y: 0, z: 0 },     // Left
-      { x: 0.5, y: 0.866, z: 0 }, // Top right
-      { x: -0.5, y: 0.866, z: 0 }, // Top left
-      { x: 0, y: -0.866, z: 0 }   // Bottom
-    ]
-
-    positions.forEach((pos, index) => {
-      const material = new THREE.MeshPhongMaterial({
-        color: index === 0 ? 0x00ff00 : 0x0066ff,
-        emissive: index === 0 ? 0x002200 : 0x001122,
-        shininess: 100
-      })
-      
-      const sphere = new THREE.Mesh(sphereGeometry, material)
-      sphere.position.set(pos.x, pos.y, pos.z)
-      spheres.push(sphere)
-      scene.add(sphere)
-    })
-
-    const lineMaterial = new THREE.LineBasicMaterial({ color: 0x444444 })
-    positions.forEach((pos, i) => {
-      if (i === 0) return // Skip center sphere connections for now
-      
-      const points = [
-        new THREE.Vector3(0, 0, 0), // Center
-        new THREE.Vector3(pos.x, pos.y, pos.z)
-      ]
-      
-      const geometry = new THREE.BufferGeometry().setFromPoints(points)
-      const line = new THREE.Line(geometry, lineMaterial)
-      scene.add(line)
+    renderer.setPixelRatio(window.devicePixelRatio)
+    renderer.setSize(mount.clientWidth, HEIGHT)
+    mount.appendChild(renderer.domElement)
+
+    const portal = createSixSpherePortal()
+    const { group, spheres } = portal
+    scene.add(group)
+
+    const haloGeometry = new THREE.SphereGeometry(1, 32, 32)
+    const haloMaterial = new THREE.MeshBasicMaterial({
+      color: 0x3399ff,
+      transparent: true,
+      opacity: 0,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
     })
+    const halo = new THREE.Mesh(haloGeometry, haloMaterial)
+    group.add(halo)
 
-    const ambientLight = new THREE.AmbientLight(0x404040, 0.4)
-    scene.add(ambientLight)
-
+    scene.add(new THREE.AmbientLight(0x404040, 0.4))
     const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8)
     directionalLight.position.set(1, 1, 1)
     scene.add(directionalLight)
 
+    sceneRef.current = { spheres, halo }
+
+    const resizeObserver = new ResizeObserver(() => {
+      const width = mount.clientWidth
+      if (width === 0) return
+      renderer.setSize(width, HEIGHT)
+      camera.aspect = width / HEIGHT
+      camera.updateProjectionMatrix()
+    })
+    resizeObserver.observe(mount)
+
+    const clock = new THREE.Clock()
+    let animationId = 0
     const animate = () => {
-      animationRef.current = requestAnimationFrame(animate)
-      
-      scene.rotation.y += 0.01
-      
-      if (portalData) {
-        const energyIntensity = Math.min((portalData.energy || 0) / 10000, 1)
-        const stabilityColor = portalData.safety_status ? 0x00ff00 : 0xff0000
-        
-        spheres.forEach((sphere, index) => {
-          const material = sphere.material as THREE.MeshPhongMaterial
-          if (index === 0) {
-            material.color.setHex(stabilityColor)
-            material.emissive.setHex(stabilityColor).multiplyScalar(0.1)
-          } else {
-            const blueIntensity = 0x0066ff + Math.floor(energyIntensity * 0x004400)
-            material.color.setHex(blueIntensity)
-            material.emissive.setHex(0x001122).multiplyScalar(energyIntensity)
-          }
-        })
-      }
-      
+      animationId = requestAnimationFrame(animate)
+      const elapsed = clock.getElapsedTime()
+      group.rotation.y += 0.01
+
+      // Outer spheres breathe radially at the portal's own resonance frequency
+      const freq = dataRef.current?.freq ?? 0
+      portal.setSpread(1 + OSCILLATION_AMPLITUDE * Math.sin(2 * Math.PI * freq * elapsed))
+
       renderer.render(scene, camera)
     }
-    
     animate()
 
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current)
-      }
-      if (mountRef.current && renderer.domElement) {
-        mountRef.current.removeChild(renderer.domElement)
-      }
+      cancelAnimationFrame(animationId)
+      resizeObserver.disconnect()
+      portal.dispose()
+      haloGeometry.dispose()
+      haloMaterial.dispose()
       renderer.dispose()
+      renderer.forceContextLoss()
+      mount.removeChild(renderer.domElement)
+      sceneRef.current = undefined
     }
+  }, [])
+
+  useEffect(() => {
+    dataRef.current = portalData
+    const portalScene = sceneRef.current
+    if (!portalScene) return
+
+    const glow = glowLevel(portalData)
+    const stabilityColor = portalData?.safety_status ? 0x00ff00 : 0xff0000
+
+    portalScene.spheres.forEach((sphere, index) => {
+      const material = sphere.material
+      if (index === 0) {
+        material.color.setHex(portalData ? stabilityColor : 0x00ff00)
+        material.emissive.setHex(portalData ? stabilityColor : 0x002200).multiplyScalar(0.1 + 0.4 * glow)
+      } else {
+        material.color.setHex(0x0066ff).lerp(new THREE.Color(0x66ccff), glow)
+        material.emissive.setHex(0x3399ff).multiplyScalar(0.05 + 0.6 * glow)
+      }
+    })
+
+    portalScene.halo.scale.setScalar(1.2 + 0.6 * glow)
+    portalScene.halo.material.opacity = 0.25 * glow
   }, [portalData])
 
   return (
     <div className="space-y-2">
       <div className="text-sm text-gray-400 font-semibold">{title}</div>
-      <div 
-        ref={mountRef} 
-        className="border border-gray-600 rounded bg-gray-800"
-        style={{ width: '300px', height: '200px' }}
+      <div
+        ref={mountRef}
+        className="w-full border border-gray-600 rounded bg-gray-800 overflow-hidden"
+        style={{ height: `${HEIGHT}px` }}
       />
       <div className="text-xs text-gray-500">
         Six-Sphere Portal Configuration
+        {portalData?.freq !== undefined && ` · oscillating at ${portalData.freq.toFixed(2)} Hz`}
       </div>
     </div>
   )
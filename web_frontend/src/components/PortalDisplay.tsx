@@ -2,6 +2,7 @@ import React from 'react'
 import Portal3D from './Portal3D'
 import EnergyControls from './EnergyControls'
 import PayloadControls from './PayloadControls'
+import type { PortalPayloadFrame } from '../lib/frame-schema'
 
 interface PortalData {
   freq?: number;
@@ -13,6 +14,7 @@ interface PortalData {
   safety_status?: boolean;
   payload_volume?: number;
   payload_mass?: number;
+  payload?: PortalPayloadFrame | null;
   status_log?: string[];
 }
 
@@ -120,7 +122,35 @@ const PortalDisplay: React.FC<PortalDisplayProps> = ({ portal, title, portalNumb
             <span className="text-gray-300">Mass:</span>
             <span className="text-white font-mono">{portal.payload_mass?.toFixed(1) || '0.0'} kg</span>
           </div>
+          {portal.payload && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Loaded:</span>
+                <span className="text-white">{portal.payload.type}</span>
+              </div>
+              {portal.payload.volume > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-300">Avg. Density:</span>
+                  <span className="text-yellow-300 font-mono">
+                    {(portal.payload.mass / portal.payload.volume).toFixed(1)} kg/m³
+                  </span>
+                </div>
+              )}
+            </>
+          )}
         </div>
+        {portal.payload?.manifest && portal.payload.manifest.length > 0 && (
+          <div className="mt-2 space-y-1 text-xs max-h-24 overflow-y-auto">
+            {portal.payload.manifest.map((entry, index) => (
+              <div key={index} className="flex justify-between bg-gray-800 rounded px-2 py-1">
+                <span className="text-gray-300">{entry.count} × {entry.material}</span>
+                <span className="text-gray-400 font-mono">
+                  {(entry.unit_volume * entry.count).toFixed(3)} m³ · {(entry.unit_mass * entry.count).toFixed(1)} kg
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Status Log */}
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react'
+import { MIME_TYPES, downloadFile, openHtml, toJson } from '../lib/export'
+import {
+  buildRunReport,
+  knownRunIds,
+  renderRunReportHtml,
+  renderRunReportMarkdown,
+  reportSections,
+  summarizeRun
+} from '../lib/run-report'
+import { selectHistory } from '../lib/simulation-store'
+import { useAlarms } from '../hooks/use-alarms'
+import { useLogStore } from '../hooks/use-log-store'
+import { useRunJournal } from '../hooks/use-run-journal'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+import { useSweepHistory } from '../hooks/use-sweep-history'
+
+const buttonClass =
+  'px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50'
+
+// The full event log stays in the exports; on screen it is cut to the latest lines
+const MAX_SCREEN_ROWS = 50
+
+const RunReport: React.FC = () => {
+  const history = useSimulationStore(selectHistory)
+  const frame = useSimulationStore(state => state.frame)
+  const sweeps = useSweepHistory()
+  const alarms = useAlarms(state => state.alarms)
+  const logs = useLogStore(state => state.entries)
+  const events = useRunJournal()
+  const [runChoice, setRunChoice] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const runIds = useMemo(
+    () => knownRunIds(frame.run_id ?? null, history, sweeps, alarms, logs, events),
+    [frame.run_id, history, sweeps, alarms, logs, events]
+  )
+  const runId = runIds.includes(runChoice) ? runChoice : runIds[0] ?? ''
+
+  const report = useMemo(
+    () => (runId ? buildRunReport(runId, { history, frame, sweeps, alarms, logs, events }) : null),
+    [runId, history, frame, sweeps, alarms, logs, events]
+  )
+  const summary = useMemo(() => (report ? summarizeRun(report) : null), [report])
+
+  const exportFile = (extension: 'md' | 'json') => {
+    if (!summary) return
+    const content = extension === 'md' ? renderRunReportMarkdown(summary) : toJson(summary)
+    downloadFile(`stargate_run_${summary.run_id}.${extension}`, content, MIME_TYPES[extension])
+  }
+
+  const print = () => {
+    if (!report) return
+    setError(openHtml(renderRunReportHtml(report)) ? null : 'The report window was blocked; allow pop-ups to print')
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-400 font-semibold">Run Report</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={runId}
+            onChange={(e) => setRunChoice(e.target.value)}
+            disabled={runIds.length === 0}
+            className="bg-gray-700 border border-gray-500 rounded px-2 py-1 text-xs text-white"
+          >
+            {runIds.length === 0 && <option value="">No runs recorded</option>}
+            {runIds.map(id => (
+              <option key={id} value={id}>{id}</option>
+            ))}
+          </select>
+          <button onClick={print} disabled={!report} className={buttonClass}>
+            Print
+          </button>
+          <button onClick={() => exportFile('md')} disabled={!summary} className={buttonClass}>
+            Markdown
+          </button>
+          <button onClick={() => exportFile('json')} disabled={!summary} className={buttonClass}>
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-yellow-400">{error}</div>}
+      {!summary && <div className="text-xs text-gray-500">Initialize a run to start recording its report</div>}
+
+      {summary && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {reportSections(summary).map(section => (
+            <div key={section.title} className="bg-gray-800 border border-gray-600 rounded p-3 space-y-2">
+              <div className="text-xs text-gray-200 font-semibold">{section.title}</div>
+              {section.tables.map((table, index) => (
+                <div key={index} className="space-y-1">
+                  {table.title && <div className="text-xs text-gray-400">{table.title}</div>}
+                  {table.rows.length === 0 ? (
+                    <div className="text-xs text-gray-500">None recorded</div>
+                  ) : (
+                    <div className="max-h-48 overflow-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-gray-400 text-left">
+                            {table.headers.map(header => (
+                              <th key={header} className="pr-2 font-medium">{header}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {table.rows.slice(-MAX_SCREEN_ROWS).map((row, rowIndex) => (
+                            <tr key={rowIndex} className="text-gray-200 align-top">
+                              {row.map((cell, cellIndex) => (
+                                <td key={cellIndex} className="pr-2 font-mono">{cell}</td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RunReport
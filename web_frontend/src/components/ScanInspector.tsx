@@ -0,0 +1,222 @@
+import React, { useState } from 'react'
+import * as api from '../lib/api'
+import * as actions from '../lib/simulation-actions'
+import { clearScanHistory, diffScan, requiredParameters } from '../lib/scan-history'
+import { portalKey, selectView } from '../lib/simulation-store'
+import { useScanHistory } from '../hooks/use-scan-history'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+
+const buttonClass =
+  'px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50'
+
+const ScanInspector: React.FC = () => {
+  const history = useScanHistory()
+  const view = useSimulationStore(selectView)
+  const lastScanPortal = useSimulationStore(state => state.lastScanPortal)
+  const [portalChoice, setPortalChoice] = useState<api.PortalId | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Follows the most recent scan until the operator picks a portal
+  const portal = portalChoice ?? lastScanPortal ?? 1
+  const entries = history[portalKey(portal)]
+  const entry = entries.find(candidate => candidate.id === selectedId) ?? entries[0] ?? null
+  const scan = entry?.scan ?? null
+  const mismatches = entry ? diffScan(entry) : []
+  const required = scan ? requiredParameters(scan, view) : null
+
+  const applyRequired = async () => {
+    if (!required) return
+    setIsApplying(true)
+    setError(null)
+    setMessage(null)
+    try {
+      const data = await actions.applyParameters(required.params)
+      const applied = data.applied_params
+      setMessage(
+        `Applied to Portal ${portal}: ${(portal === 1 ? applied.frequency1 : applied.frequency2).toFixed(2)} Hz, ` +
+          `${(portal === 1 ? applied.energy1 : applied.energy2).toFixed(0)} J - bridge ${data.bridge_strength.toFixed(3)}`
+      )
+    } catch (err) {
+      console.error('Error applying required parameters:', err)
+      setError(api.errorMessage(err))
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const rows = scan?.measured && scan.required
+    ? [
+        { label: 'Frequency', measured: `${scan.measured.frequency.toFixed(2)} Hz`, required: `${scan.required.frequency.toFixed(2)} Hz` },
+        { label: 'Energy', measured: `${scan.measured.energy.toFixed(1)} J`, required: `≥ ${scan.required.energy.toFixed(0)} J` },
+        { label: 'Stability', measured: scan.measured.stability.toFixed(2), required: '-' },
+        { label: 'Sensed volume', measured: `${scan.measured.volume.toFixed(3)} m³`, required: '-' },
+        { label: 'Sensed mass', measured: `${scan.measured.mass.toFixed(1)} kg`, required: '-' }
+      ]
+    : []
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1">
+          {([1, 2] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => {
+                setPortalChoice(id)
+                setSelectedId(null)
+              }}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                portal === id ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              Portal {id} ({history[portalKey(id)].length})
+            </button>
+          ))}
+        </div>
+        <button onClick={() => clearScanHistory(portal)} disabled={entries.length === 0} className={buttonClass}>
+          Clear history
+        </button>
+      </div>
+
+      {!scan && <div className="text-gray-500">No scans of Portal {portal} yet</div>}
+
+      {scan && (
+        <div className={`border rounded p-2 space-y-2 ${scan.error ? 'bg-red-800 border-red-400' : 'bg-gray-700 border-gray-400'}`}>
+          <div className="flex justify-between">
+            <span className="text-white font-semibold">
+              {scan.error ? 'Scan Error' : `Portal ${scan.portal_id} Scan Results`}
+            </span>
+            <span className="text-gray-400">{new Date(scan.timestamp).toLocaleTimeString()}</span>
+          </div>
+          <div className={`font-mono ${scan.error ? 'text-red-100' : 'text-cyan-100'}`}>
+            {scan.error || scan.contents || 'Portal Empty'}
+          </div>
+
+          {!scan.error && scan.payload !== undefined && (
+            <div className="space-y-1">
+              <div className="text-gray-300">Payload</div>
+              {scan.payload ? (
+                <>
+                  <div className="grid grid-cols-3 gap-2 font-mono text-white">
+                    <span>{scan.payload.type}</span>
+                    <span>{scan.payload.mass} kg</span>
+                    <span>{scan.payload.volume} m³</span>
+                  </div>
+                  {scan.payload.manifest?.map((item, index) => (
+                    <div key={index} className="flex justify-between text-gray-400 pl-2">
+                      <span>{item.count} × {item.material}</span>
+                      <span className="font-mono">
+                        {(item.unit_volume * item.count).toFixed(3)} m³ · {(item.unit_mass * item.count).toFixed(1)} kg
+                      </span>
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <div className="text-gray-400">No payload committed</div>
+              )}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <table className="w-full">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="font-medium"></th>
+                  <th className="font-medium">Measured</th>
+                  <th className="font-medium">Required</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label} className="text-gray-200">
+                    <td className="text-gray-300">{row.label}</td>
+                    <td className="font-mono">{row.measured}</td>
+                    <td className="font-mono text-yellow-200">{row.required}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Older backends only send the formatted measured values */}
+          {!scan.error && !scan.required && scan.required_params && (
+            <div className="text-yellow-200">
+              Measured: {scan.required_params.frequency}, {scan.required_params.energy}, stability {scan.required_params.stability}
+            </div>
+          )}
+
+          {!scan.error && (
+            mismatches.length > 0 ? (
+              <ul className="space-y-0.5">
+                {mismatches.map(mismatch => (
+                  <li key={mismatch.field} className="text-yellow-300">
+                    ⚠ {mismatch.field}: loading bay {mismatch.expected}, scan {mismatch.scanned}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-green-400">✓ Scan matches the loading bay</div>
+            )
+          )}
+
+          {required && required.unreachable.length > 0 && (
+            <ul className="space-y-0.5">
+              {required.unreachable.map(reason => (
+                <li key={reason} className="text-red-300">
+                  ✗ {reason} - cannot be met
+                </li>
+              ))}
+            </ul>
+          )}
+          {!scan.error && (
+            <button
+              onClick={applyRequired}
+              disabled={!required || isApplying}
+              className={`w-full px-3 py-2 rounded text-sm font-medium transition-colors ${
+                !required || isApplying ? 'bg-gray-600 cursor-not-allowed text-gray-400' : 'bg-cyan-600 hover:bg-cyan-700 text-white'
+              }`}
+            >
+              {isApplying
+                ? 'Applying...'
+                : required && required.unreachable.length > 0
+                  ? 'Apply closest reachable parameters'
+                  : 'Apply required parameters'}
+            </button>
+          )}
+          {error && <div className="text-red-300">Apply failed: {error}</div>}
+          {message && <div className="text-green-300">{message}</div>}
+        </div>
+      )}
+
+      {entries.length > 1 && (
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {entries.map(candidate => {
+            const count = diffScan(candidate).length
+            return (
+              <button
+                key={candidate.id}
+                onClick={() => setSelectedId(candidate.id)}
+                className={`w-full flex justify-between rounded px-2 py-1 text-left ${
+                  candidate === entry ? 'bg-gray-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                }`}
+              >
+                <span>{new Date(candidate.scan.timestamp).toLocaleTimeString()}</span>
+                <span className="truncate px-2">
+                  {candidate.scan.error ? 'Error' : candidate.scan.payload?.type ?? candidate.scan.contents}
+                </span>
+                <span className={candidate.scan.error ? 'text-red-400' : count > 0 ? 'text-yellow-300' : 'text-green-400'}>
+                  {candidate.scan.error ? '✗' : count > 0 ? `${count} mismatch${count === 1 ? '' : 'es'}` : '✓'}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ScanInspector
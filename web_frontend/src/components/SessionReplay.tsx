@@ -0,0 +1,115 @@
+import React, { useState } from 'react'
+import { REPLAY_SPEEDS, useSessionReplay } from '../hooks/use-session-replay'
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+const SessionReplay: React.FC = () => {
+  const replay = useSessionReplay()
+  const [selectedRunId, setSelectedRunId] = useState('')
+  const { frames, position } = replay
+
+  const elapsed = frames.length > 0 ? frames[position].receivedAt - frames[0].receivedAt : 0
+  const duration = frames.length > 0 ? frames[frames.length - 1].receivedAt - frames[0].receivedAt : 0
+  const runId = selectedRunId || replay.runs[0]?.run_id || ''
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400 font-semibold">Session Recording & Replay</div>
+        <button
+          onClick={replay.refreshRuns}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {replay.error && <div className="text-xs text-red-400">{replay.error}</div>}
+
+      {replay.runs.length === 0 ? (
+        <div className="text-xs text-gray-500">
+          No recorded runs yet. Every /ws frame is recorded once a run has been initialized.
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={runId}
+            onChange={(e) => setSelectedRunId(e.target.value)}
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded px-2 py-1 text-xs text-white"
+          >
+            {replay.runs.map(run => (
+              <option key={run.run_id} value={run.run_id}>
+                {run.run_id} · {new Date(run.startedAt).toLocaleString()} · {run.frameCount} frames
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => replay.startReplay(runId)}
+            disabled={!runId}
+            className="px-3 py-1 rounded text-xs font-medium bg-purple-600 hover:bg-purple-700 text-white transition-colors"
+          >
+            Replay
+          </button>
+          <button
+            onClick={() => replay.deleteRun(runId)}
+            disabled={!runId}
+            className="px-3 py-1 rounded text-xs font-medium bg-red-600 hover:bg-red-700 text-white transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
+      {replay.activeRunId && (
+        <div className="bg-gray-800 border border-purple-500 rounded p-3 space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-purple-300 font-semibold">Replaying {replay.activeRunId}</span>
+            <span className="text-gray-400 font-mono">
+              {formatDuration(elapsed)} / {formatDuration(duration)} · frame {position + 1}/{frames.length}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(frames.length - 1, 0)}
+            value={position}
+            onChange={(e) => replay.seek(parseInt(e.target.value))}
+            className="w-full"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={replay.isPlaying ? replay.pause : replay.play}
+              className="px-3 py-1 rounded text-xs font-medium bg-blue-600 hover:bg-blue-700 text-white transition-colors"
+            >
+              {replay.isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <div className="flex items-center gap-1">
+              {REPLAY_SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => replay.setSpeed(speed)}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                    replay.speed === speed ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                  }`}
+                >
+                  {speed}×
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={replay.stopReplay}
+              className="ml-auto px-3 py-1 rounded text-xs font-medium bg-gray-600 hover:bg-gray-500 text-white transition-colors"
+            >
+              Exit replay
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SessionReplay
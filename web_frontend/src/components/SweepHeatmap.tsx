@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react'
+import type * as api from '../lib/api'
+
+interface SweepHeatmapProps {
+  results: api.SweepResult[];
+  steps: number;
+  threshold: number;
+  selected: api.SweepResult | null;
+  onSelect: (result: api.SweepResult) => void;
+}
+
+interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+const CELL_SIZE = 24
+const LABEL_WIDTH = 84
+const LABEL_HEIGHT = 28
+
+// main.py sweeps row i (portal 1 frequency/energy) and column j (portal 2) together,
+// emitting results in row-major order, so `step` gives the cell position directly.
+const buildGrid = (results: api.SweepResult[], steps: number) => {
+  const rows: (api.SweepResult | null)[][] = Array.from({ length: steps }, () => Array(steps).fill(null))
+  results.forEach(result => {
+    const row = Math.floor(result.step / steps)
+    const col = result.step % steps
+    if (row < steps) rows[row][col] = result
+  })
+  return rows
+}
+
+// Cell edges separating approved from rejected cells (or from the grid border) trace the threshold contour
+const contourSegments = (rows: (api.SweepResult | null)[][], threshold: number): Segment[] => {
+  const approved = (row: number, col: number) => (rows[row]?.[col]?.bridge_strength ?? -1) >= threshold
+  const segments: Segment[] = []
+  rows.forEach((cells, row) => {
+    cells.forEach((_, col) => {
+      if (!approved(row, col)) return
+      if (!approved(row - 1, col)) segments.push({ x1: col, y1: row, x2: col + 1, y2: row })
+      if (!approved(row + 1, col)) segments.push({ x1: col, y1: row + 1, x2: col + 1, y2: row + 1 })
+      if (!approved(row, col - 1)) segments.push({ x1: col, y1: row, x2: col, y2: row + 1 })
+      if (!approved(row, col + 1)) segments.push({ x1: col + 1, y1: row, x2: col + 1, y2: row + 1 })
+    })
+  })
+  return segments
+}
+
+// Red below the threshold, then yellow to green as the bridge strengthens
+const strengthColor = (strength: number, threshold: number) => {
+  if (strength < threshold) {
+    const lightness = 25 + (strength / threshold) * 20
+    return `hsl(0, 70%, ${lightness}%)`
+  }
+  // A threshold of 1 leaves no band to grade, so anything meeting it is full green
+  const span = 1 - threshold
+  const hue = span > 0 ? 50 + Math.min(1, (strength - threshold) / span) * 70 : 120
+  return `hsl(${hue}, 70%, 40%)`
+}
+
+const SweepHeatmap: React.FC<SweepHeatmapProps> = ({ results, steps, threshold, selected, onSelect }) => {
+  const [hovered, setHovered] = useState<api.SweepResult | null>(null)
+  const rows = useMemo(() => buildGrid(results, steps), [results, steps])
+  const contour = useMemo(() => contourSegments(rows, threshold), [rows, threshold])
+  const best = useMemo(
+    () => results.reduce<api.SweepResult | null>((top, current) => (!top || current.bridge_strength > top.bridge_strength ? current : top), null),
+    [results]
+  )
+
+  const width = LABEL_WIDTH + steps * CELL_SIZE
+  const height = LABEL_HEIGHT + steps * CELL_SIZE
+  const detail = hovered ?? selected
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" onMouseLeave={() => setHovered(null)}>
+        <text x={LABEL_WIDTH} y={10} fill="#9ca3af" fontSize={8}>Portal 2 (f₂ / E₂) →</text>
+        {rows[0]?.map((cell, col) =>
+          cell && col % 3 === 0 ? (
+            <text key={col} x={LABEL_WIDTH + col * CELL_SIZE + 1} y={LABEL_HEIGHT - 4} fill="#9ca3af" fontSize={6}>
+              {cell.frequency2.toFixed(2)}/{cell.energy2.toFixed(0)}
+            </text>
+          ) : null
+        )}
+        {rows.map((cells, row) => (
+          <g key={row}>
+            {cells[0] && (
+              <text x={2} y={LABEL_HEIGHT + row * CELL_SIZE + CELL_SIZE / 2 + 3} fill="#9ca3af" fontSize={7}>
+                {cells[0].frequency1.toFixed(2)} Hz / {cells[0].energy1.toFixed(0)} J
+              </text>
+            )}
+            {cells.map((cell, col) =>
+              cell ? (
+                <rect
+                  key={col}
+                  x={LABEL_WIDTH + col * CELL_SIZE}
+                  y={LABEL_HEIGHT + row * CELL_SIZE}
+                  width={CELL_SIZE - 1}
+                  height={CELL_SIZE - 1}
+                  fill={strengthColor(cell.bridge_strength, threshold)}
+                  stroke={cell.step === selected?.step ? '#22d3ee' : 'none'}
+                  strokeWidth={2}
+                  className="cursor-pointer"
+                  onMouseEnter={() => setHovered(cell)}
+                  onClick={() => onSelect(cell)}
+                />
+              ) : null
+            )}
+          </g>
+        ))}
+        {best && (
+          <text
+            x={LABEL_WIDTH + (best.step % steps) * CELL_SIZE + CELL_SIZE / 2}
+            y={LABEL_HEIGHT + Math.floor(best.step / steps) * CELL_SIZE + CELL_SIZE / 2 + 3}
+            fill="white"
+            fontSize={9}
+            textAnchor="middle"
+            pointerEvents="none"
+          >
+            ★
+          </text>
+        )}
+        {contour.map((segment, index) => (
+          <line
+            key={index}
+            x1={LABEL_WIDTH + segment.x1 * CELL_SIZE}
+            y1={LABEL_HEIGHT + segment.y1 * CELL_SIZE}
+            x2={LABEL_WIDTH + segment.x2 * CELL_SIZE}
+            y2={LABEL_HEIGHT + segment.y2 * CELL_SIZE}
+            stroke="white"
+            strokeWidth={1.5}
+            pointerEvents="none"
+          />
+        ))}
+      </svg>
+
+      <div className="text-xs text-gray-400">
+        White outline: bridge strength ≥ {threshold} · ★ best · click a cell to select it
+      </div>
+
+      {detail && (
+        <div className="bg-gray-700 rounded p-2 grid grid-cols-2 gap-x-3 text-xs font-mono">
+          <span className="text-gray-300">{hovered ? 'Hover' : 'Selected'} #{detail.step}</span>
+          <span className={detail.bridge_strength >= threshold ? 'text-green-400' : 'text-red-400'}>
+            Bridge {detail.bridge_strength.toFixed(3)}
+          </span>
+          <span className="text-gray-200">f₁ {detail.frequency1.toFixed(3)} Hz</span>
+          <span className="text-gray-200">f₂ {detail.frequency2.toFixed(3)} Hz</span>
+          <span className="text-gray-200">E₁ {detail.energy1.toFixed(0)} J</span>
+          <span className="text-gray-200">E₂ {detail.energy2.toFixed(0)} J</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SweepHeatmap
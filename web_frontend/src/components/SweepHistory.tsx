@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { useSweepHistory } from '../hooks/use-sweep-history'
+import { averageStrength, clearSweepHistory, deleteSweep, type SweepRecord } from '../lib/sweep-history'
+
+const COMPARE_COLORS = ['#60a5fa', '#c084fc', '#34d399', '#fbbf24', '#f87171', '#22d3ee']
+
+const formatTime = (value: number) => new Date(value).toLocaleString()
+
+type ProfileAxis = 'energy1' | 'frequency1'
+
+const PROFILE_AXES: { key: ProfileAxis; title: string; unit: string; digits: number }[] = [
+  { key: 'energy1', title: 'Bridge Strength vs Portal 1 Energy', unit: 'J', digits: 0 },
+  { key: 'frequency1', title: 'Bridge Strength vs Portal 1 Frequency', unit: 'Hz', digits: 3 }
+]
+
+// Sweeps are centred on whatever the portals ran at the time, so each one is plotted at its
+// actual parameter values: the best strength seen at every value of the chosen axis
+const profile = (record: SweepRecord, axis: ProfileAxis) => {
+  const best = new Map<number, number>()
+  record.results.forEach(result => {
+    best.set(result[axis], Math.max(result.bridge_strength, best.get(result[axis]) ?? -Infinity))
+  })
+  return Array.from(best, ([x, strength]) => ({ x, strength })).sort((a, b) => a.x - b.x)
+}
+
+const SweepHistory: React.FC = () => {
+  const history = useSweepHistory()
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const compared = useMemo(
+    () => history.filter(record => selectedIds.includes(record.id)),
+    [history, selectedIds]
+  )
+
+  const toggle = (id: string) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]))
+  }
+
+  const colorOf = (id: string) => COMPARE_COLORS[selectedIds.indexOf(id) % COMPARE_COLORS.length]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-400 font-semibold">Sweep History</div>
+        <div className="flex items-center gap-2">
+          {selectedIds.length > 0 && (
+            <button
+              onClick={() => setSelectedIds([])}
+              className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+            >
+              Clear selection
+            </button>
+          )}
+          <button
+            onClick={() => {
+              if (confirm('Delete all saved sweeps?')) {
+                clearSweepHistory()
+                setSelectedIds([])
+              }
+            }}
+            disabled={history.length === 0}
+            className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors disabled:opacity-50"
+          >
+            Clear history
+          </button>
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="text-xs text-gray-500">No sweeps recorded yet</div>
+      ) : (
+        <div className="text-xs text-gray-500">Select two or more sweeps to overlay them</div>
+      )}
+
+      {history.length > 0 && (
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {history.map(record => (
+            <div
+              key={record.id}
+              className={`grid grid-cols-[1rem_1fr_auto_auto_auto_1rem] gap-2 items-center text-xs rounded p-2 ${
+                selectedIds.includes(record.id) ? 'bg-gray-700' : 'bg-gray-800'
+              }`}
+            >
+              <input type="checkbox" checked={selectedIds.includes(record.id)} onChange={() => toggle(record.id)} />
+              <div className="min-w-0">
+                <div className="text-gray-200 truncate">
+                  {formatTime(record.recordedAt)}
+                  {selectedIds.includes(record.id) && (
+                    <span className="ml-2 inline-block w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(record.id) }}></span>
+                  )}
+                </div>
+                <div className="text-gray-500 truncate">
+                  {record.run_id ?? 'no run'} · {record.source} · ±{record.inputs.sweepRangeEnergy} J / ±{record.inputs.sweepRangeFreq} Hz
+                </div>
+              </div>
+              <span className="font-mono text-gray-300">best {record.best.bridge_strength.toFixed(3)}</span>
+              <span className="font-mono text-gray-400">avg {averageStrength(record).toFixed(3)}</span>
+              <span
+                className={record.approval.approved ? 'text-green-400' : 'text-red-400'}
+                title={record.approval.failedRules.join(', ')}
+              >
+                {record.approval.approved ? 'APPROVED' : 'REJECTED'}
+              </span>
+              <button
+                onClick={() => {
+                  deleteSweep(record.id)
+                  setSelectedIds(ids => ids.filter(id => id !== record.id))
+                }}
+                className="text-gray-400 hover:text-red-400"
+                title="Delete sweep"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {compared.length >= 2 && (
+        <div className="bg-gray-800 border border-gray-600 rounded p-3 space-y-3">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+            {PROFILE_AXES.map(axis => (
+              <div key={axis.key}>
+                <div className="text-xs text-gray-200 mb-1">{axis.title}</div>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart>
+                      <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="x"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        stroke="#9ca3af"
+                        fontSize={10}
+                        tickFormatter={(value: number) => value.toFixed(axis.digits)}
+                      />
+                      <YAxis domain={[0, 1]} stroke="#9ca3af" fontSize={10} width={40} />
+                      <Tooltip
+                        contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563', fontSize: 12 }}
+                        labelFormatter={(value: number) => `${value.toFixed(axis.digits)} ${axis.unit}`}
+                        formatter={(value: number) => value.toFixed(3)}
+                      />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      {compared.map(record => (
+                        <Line
+                          key={record.id}
+                          data={profile(record, axis.key)}
+                          dataKey="strength"
+                          name={new Date(record.recordedAt).toLocaleTimeString()}
+                          stroke={colorOf(record.id)}
+                          dot={{ r: 2 }}
+                          strokeWidth={1.5}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="pr-2 font-normal">Sweep</th>
+                  <th className="pr-2 font-normal">Range</th>
+                  <th className="pr-2 font-normal">Best</th>
+                  <th className="pr-2 font-normal">Best f₁ / f₂</th>
+                  <th className="pr-2 font-normal">Best E₁ / E₂</th>
+                  <th className="font-normal">Approval</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {compared.map(record => (
+                  <tr key={record.id}>
+                    <td className="pr-2" style={{ color: colorOf(record.id) }}>{new Date(record.recordedAt).toLocaleTimeString()}</td>
+                    <td className="pr-2 text-gray-300">±{record.inputs.sweepRangeEnergy} / ±{record.inputs.sweepRangeFreq}</td>
+                    <td className="pr-2 text-gray-200">{record.best.bridge_strength.toFixed(3)} (#{record.best.step})</td>
+                    <td className="pr-2 text-gray-300">{record.best.frequency1.toFixed(3)} / {record.best.frequency2.toFixed(3)}</td>
+                    <td className="pr-2 text-gray-300">{record.best.energy1.toFixed(0)} / {record.best.energy2.toFixed(0)}</td>
+                    <td className={record.approval.approved ? 'text-green-400' : 'text-red-400'}>
+                      {record.approval.approved ? 'APPROVED' : 'REJECTED'} ({record.approval.team})
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SweepHistory
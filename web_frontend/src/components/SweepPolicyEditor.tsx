@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react'
+import {
+  DEFAULT_POLICY,
+  RULE_DEFINITIONS,
+  RULE_KINDS,
+  createRule,
+  ruleParam,
+  setRuleParam,
+  type PolicyRule,
+  type RuleKind,
+  type RuleParam,
+  type SweepPolicy
+} from '../lib/sweep-policy'
+
+interface SweepPolicyEditorProps {
+  team: string;
+  policy: SweepPolicy;
+  onTeamChange: (team: string) => void;
+  onPolicyChange: (policy: SweepPolicy) => void;
+}
+
+interface ParamField<K extends RuleKind> {
+  key: RuleParam<K>;
+  label: string;
+  step: number;
+}
+
+const PARAM_FIELDS: { [K in RuleKind]: ParamField<K>[] } = {
+  min_strength: [{ key: 'threshold', label: '≥', step: 0.05 }],
+  min_average: [{ key: 'threshold', label: '≥', step: 0.05 }],
+  min_fraction_above: [
+    { key: 'fraction', label: 'share ≥', step: 0.05 },
+    { key: 'threshold', label: 'at ≥', step: 0.05 }
+  ],
+  max_energy: [{ key: 'maxEnergy', label: 'J ≤', step: 500 }],
+  frequency_band: [
+    { key: 'minFreq', label: 'Hz from', step: 0.1 },
+    { key: 'maxFreq', label: 'to', step: 0.1 }
+  ],
+  neighbour_margin: [{ key: 'maxDrop', label: 'drop ≤', step: 0.05 }]
+}
+
+const SweepPolicyEditor: React.FC<SweepPolicyEditorProps> = ({ team, policy, onTeamChange, onPolicyChange }) => {
+  const [teamDraft, setTeamDraft] = useState(team)
+  const [newKind, setNewKind] = useState<RuleKind>('min_average')
+
+  useEffect(() => {
+    setTeamDraft(team)
+  }, [team])
+
+  const replaceRule = (next: PolicyRule) => {
+    onPolicyChange({ rules: policy.rules.map(rule => (rule.id === next.id ? next : rule)) })
+  }
+
+  const renderParams = <K extends RuleKind>(rule: Extract<PolicyRule, { kind: K }>) =>
+    (PARAM_FIELDS[rule.kind] as ParamField<K>[]).map(field => (
+      <label key={String(field.key)} className="flex items-center space-x-1 text-gray-400">
+        <span>{field.label}</span>
+        <input
+          type="number"
+          step={field.step}
+          value={ruleParam(rule, field.key)}
+          onChange={(e) => {
+            const value = Number(e.target.value)
+            if (Number.isFinite(value)) replaceRule(setRuleParam(rule, field.key, value))
+          }}
+          className="w-16 bg-gray-800 border border-gray-500 rounded px-1 text-white font-mono"
+        />
+      </label>
+    ))
+
+  const removeRule = (id: string) => {
+    onPolicyChange({ rules: policy.rules.filter(rule => rule.id !== id) })
+  }
+
+  const addRule = () => {
+    onPolicyChange({ rules: [...policy.rules, createRule(newKind)] })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-xs">
+        <label className="text-gray-300">Team</label>
+        <input
+          value={teamDraft}
+          onChange={(e) => setTeamDraft(e.target.value)}
+          onBlur={() => onTeamChange(teamDraft)}
+          onKeyDown={(e) => e.key === 'Enter' && onTeamChange(teamDraft)}
+          className="flex-1 bg-gray-700 border border-gray-500 rounded px-2 py-1 text-white"
+        />
+        <button
+          onClick={() => onPolicyChange(DEFAULT_POLICY)}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      {policy.rules.every(rule => !rule.enabled) && (
+        <div className="text-xs text-yellow-400">No enabled rules - no sweep can be approved</div>
+      )}
+
+      {policy.rules.map(rule => (
+        <div key={rule.id} className="flex items-center flex-wrap gap-2 text-xs bg-gray-700 rounded p-2">
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={(e) => replaceRule({ ...rule, enabled: e.target.checked })}
+          />
+          <span className={`flex-1 ${rule.enabled ? 'text-gray-200' : 'text-gray-500'}`}>
+            {RULE_DEFINITIONS[rule.kind].label}
+          </span>
+          {renderParams(rule)}
+          <button onClick={() => removeRule(rule.id)} className="text-gray-400 hover:text-red-400" title="Remove rule">
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as RuleKind)}
+          className="flex-1 bg-gray-700 border border-gray-500 rounded px-2 py-1 text-xs text-white"
+        >
+          {RULE_KINDS.map(kind => (
+            <option key={kind} value={kind}>{RULE_DEFINITIONS[kind].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={addRule}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+        >
+          Add Rule
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default SweepPolicyEditor
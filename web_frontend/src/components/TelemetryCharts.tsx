@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+import { selectHistory } from '../lib/simulation-store'
+import {
+  HISTORY_WINDOWS,
+  downsample,
+  windowSamples,
+  type HistoryWindow,
+  type TelemetryField,
+  type TelemetrySample
+} from '../lib/telemetry-history'
+
+interface ChartSeries {
+  key: TelemetryField;
+  label: string;
+  color: string;
+}
+
+interface ChartDefinition {
+  title: string;
+  unit: string;
+  digits: number;
+  series: ChartSeries[];
+}
+
+const PORTAL1_COLOR = '#60a5fa'
+const PORTAL2_COLOR = '#c084fc'
+const MAX_PLOTTED_POINTS = 600
+
+const portalSeries = (field: string): ChartSeries[] => [
+  { key: `portal1_${field}` as TelemetryField, label: 'Portal 1', color: PORTAL1_COLOR },
+  { key: `portal2_${field}` as TelemetryField, label: 'Portal 2', color: PORTAL2_COLOR }
+]
+
+const CHARTS: ChartDefinition[] = [
+  { title: 'Frequency', unit: 'Hz', digits: 3, series: portalSeries('freq') },
+  { title: 'Stability', unit: '', digits: 3, series: portalSeries('stability') },
+  { title: 'Energy', unit: 'J', digits: 0, series: portalSeries('energy') },
+  { title: 'Power', unit: 'W', digits: 1, series: portalSeries('power') },
+  { title: 'Floor Temperature', unit: '°C', digits: 2, series: portalSeries('floor_temp') },
+  { title: 'Bridge Strength', unit: '', digits: 3, series: [{ key: 'bridge_strength', label: 'Bridge', color: '#34d399' }] },
+  { title: 'Transfer Energy', unit: 'J', digits: 1, series: [{ key: 'transfer_energy', label: 'Transfer', color: '#fbbf24' }] },
+  { title: 'Detune', unit: 'Hz', digits: 3, series: [{ key: 'detune', label: 'Detune', color: '#f87171' }] }
+]
+
+const formatTime = (value: number) => new Date(value).toLocaleTimeString()
+
+const TelemetryCharts: React.FC = () => {
+  const liveHistory = useSimulationStore(selectHistory)
+  const [frozenHistory, setFrozenHistory] = useState<TelemetrySample[] | null>(null)
+  const [historyWindow, setHistoryWindow] = useState<HistoryWindow>('1m')
+  const [zoom, setZoom] = useState<[number, number] | null>(null)
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null)
+
+  const isPaused = frozenHistory !== null
+  const history = frozenHistory ?? liveHistory
+
+  const samples = useMemo(() => {
+    const windowed = windowSamples(history, historyWindow)
+    const zoomed = zoom
+      ? windowed.filter(sample => sample.receivedAt >= zoom[0] && sample.receivedAt <= zoom[1])
+      : windowed
+    return downsample(zoomed, MAX_PLOTTED_POINTS)
+  }, [history, historyWindow, zoom])
+
+  const togglePause = () => {
+    setFrozenHistory(isPaused ? null : liveHistory)
+  }
+
+  const selectWindow = (window: HistoryWindow) => {
+    setHistoryWindow(window)
+    setZoom(null)
+  }
+
+  // Dragging across any chart selects a time range; releasing zooms every chart to it
+  const finishSelection = () => {
+    if (selection && selection.start !== selection.end) {
+      setZoom([Math.min(selection.start, selection.end), Math.max(selection.start, selection.end)])
+    }
+    setSelection(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-gray-400 font-semibold">Telemetry History</div>
+        <div className="flex flex-wrap items-center gap-2">
+          {HISTORY_WINDOWS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => selectWindow(option.id)}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                historyWindow === option.id ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={togglePause}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              isPaused ? 'bg-yellow-600 hover:bg-yellow-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            }`}
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+          {zoom && (
+            <button
+              onClick={() => setZoom(null)}
+              className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+            >
+              Reset zoom
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        {samples.length === 0
+          ? 'Waiting for telemetry frames...'
+          : `${history.length} frames recorded${isPaused ? ' (paused)' : ''} · drag across a chart to zoom`}
+      </div>
+
+      {samples.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CHARTS.map(chart => (
+            <div key={chart.title} className="bg-gray-800 border border-gray-600 rounded p-3">
+              <div className="text-xs text-gray-200 mb-2">
+                {chart.title}{chart.unit && ` (${chart.unit})`}
+              </div>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={samples}
+                    syncId="telemetry"
+                    onMouseDown={(state) => {
+                      if (state?.activeLabel !== undefined) {
+                        const start = Number(state.activeLabel)
+                        setSelection({ start, end: start })
+                      }
+                    }}
+                    onMouseMove={(state) => {
+                      if (selection && state?.activeLabel !== undefined) {
+                        setSelection({ ...selection, end: Number(state.activeLabel) })
+                      }
+                    }}
+                    onMouseUp={finishSelection}
+                  >
+                    <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="receivedAt"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      tickFormatter={formatTime}
+                      stroke="#9ca3af"
+                      fontSize={10}
+                    />
+                    <YAxis
+                      domain={['auto', 'auto']}
+                      tickFormatter={(value: number) => value.toFixed(chart.digits > 1 ? 2 : 0)}
+                      stroke="#9ca3af"
+                      fontSize={10}
+                      width={56}
+                    />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #4b5563', fontSize: 12 }}
+                      labelFormatter={(value: number) => formatTime(value)}
+                      formatter={(value: number) => `${value.toFixed(chart.digits)}${chart.unit && ` ${chart.unit}`}`}
+                    />
+                    {chart.series.length > 1 && <Legend wrapperStyle={{ fontSize: 11 }} />}
+                    {chart.series.map(series => (
+                      <Line
+                        key={series.key}
+                        dataKey={series.key}
+                        name={series.label}
+                        stroke={series.color}
+                        dot={false}
+                        strokeWidth={1.5}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                    {selection && selection.start !== selection.end && (
+                      <ReferenceArea x1={selection.start} x2={selection.end} fill="#60a5fa" fillOpacity={0.2} />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TelemetryCharts
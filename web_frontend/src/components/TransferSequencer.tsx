@@ -0,0 +1,126 @@
+import React, { useState } from 'react'
+import * as api from '../lib/api'
+import { SEQUENCE_STEPS, type SequenceContext } from '../lib/transfer-sequence'
+import { useSimulationStore } from '../hooks/use-simulation-store'
+
+interface StepOutcome {
+  status: 'done' | 'failed';
+  message: string;
+}
+
+const TransferSequencer: React.FC = () => {
+  const state = useSimulationStore(s => s)
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [outcomes, setOutcomes] = useState<Record<string, StepOutcome>>({})
+  const [bestSweep, setBestSweep] = useState<api.SweepResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  const context: SequenceContext = { state, bestSweep }
+  const isComplete = currentIndex >= SEQUENCE_STEPS.length
+  const currentStep = isComplete ? null : SEQUENCE_STEPS[currentIndex]
+  const preconditions = currentStep ? currentStep.preconditions(context) : []
+  const blocked = preconditions.some(condition => !condition.ok)
+
+  const runCurrentStep = async () => {
+    if (!currentStep) return
+    setIsRunning(true)
+    try {
+      const result = await currentStep.run(context)
+      if (result.bestSweep) setBestSweep(result.bestSweep)
+      setOutcomes(prev => ({ ...prev, [currentStep.id]: { status: 'done', message: result.message } }))
+      setCurrentIndex(index => index + 1)
+    } catch (error) {
+      console.error(`Sequencer step "${currentStep.title}" failed:`, error)
+      setOutcomes(prev => ({ ...prev, [currentStep.id]: { status: 'failed', message: api.errorMessage(error) } }))
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const restartSequence = () => {
+    setCurrentIndex(0)
+    setOutcomes({})
+    setBestSweep(null)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400 font-semibold">Guided Transfer Sequencer</div>
+        <button
+          onClick={restartSequence}
+          disabled={isRunning}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+        >
+          Restart sequence
+        </button>
+      </div>
+
+      <ol className="space-y-2">
+        {SEQUENCE_STEPS.map((step, index) => {
+          const outcome = outcomes[step.id]
+          const isCurrent = index === currentIndex
+          const marker = outcome?.status === 'done' && !isCurrent ? '✅' : outcome?.status === 'failed' ? '❌' : isCurrent ? '▶' : '○'
+
+          return (
+            <li
+              key={step.id}
+              className={`rounded p-2 border ${
+                isCurrent ? 'bg-gray-800 border-blue-500' : 'bg-gray-800 border-gray-700'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className={`text-sm ${index < currentIndex ? 'text-gray-400' : 'text-white'}`}>
+                  {marker} {index + 1}. {step.title}
+                </span>
+              </div>
+              {outcome && (
+                <div className={`text-xs mt-1 ${outcome.status === 'done' ? 'text-green-300' : 'text-red-300'}`}>
+                  {outcome.status === 'failed' ? `Failed: ${outcome.message}` : outcome.message}
+                </div>
+              )}
+
+              {isCurrent && (
+                <div className="mt-2 space-y-2">
+                  <div className="text-xs text-gray-300">{step.description}</div>
+                  {preconditions.length > 0 && (
+                    <ul className="space-y-1">
+                      {preconditions.map(condition => (
+                        <li
+                          key={condition.label}
+                          className={`text-xs flex justify-between ${condition.ok ? 'text-green-400' : 'text-yellow-400'}`}
+                        >
+                          <span>{condition.ok ? '✓' : '✗'} {condition.label}</span>
+                          {condition.detail && <span className="font-mono text-gray-400">{condition.detail}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <button
+                    onClick={runCurrentStep}
+                    disabled={blocked || isRunning}
+                    className={`w-full px-3 py-2 rounded text-sm font-medium transition-colors ${
+                      blocked || isRunning
+                        ? 'bg-gray-600 cursor-not-allowed text-gray-400'
+                        : 'bg-blue-600 hover:bg-blue-700 text-white'
+                    }`}
+                  >
+                    {isRunning ? 'Running...' : blocked ? 'Waiting for preconditions' : outcome?.status === 'failed' ? 'Retry step' : 'Run step'}
+                  </button>
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+
+      {isComplete && (
+        <div className="bg-green-800 border border-green-400 rounded p-2 text-xs text-green-100 font-bold">
+          ✅ Transfer sequence complete
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TransferSequencer
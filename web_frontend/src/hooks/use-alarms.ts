@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getAlarmState, subscribeAlarms, type AlarmState } from '../lib/alarm-manager'
+
+// Same contract as useSimulationStore: selectors return values held in the store
+export function useAlarms<T>(selector: (state: AlarmState) => T): T {
+  return useSyncExternalStore(subscribeAlarms, () => selector(getAlarmState()))
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getLogState, subscribeLogs, type LogState } from '../lib/log-store'
+
+export function useLogStore<T>(selector: (state: LogState) => T): T {
+  return useSyncExternalStore(subscribeLogs, () => selector(getLogState()))
+}
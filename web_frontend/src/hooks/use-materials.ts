@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getMaterials, subscribeMaterials } from '../lib/materials'
+
+export function useMaterials() {
+  return useSyncExternalStore(subscribeMaterials, getMaterials)
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react'
+
+// Re-renders every `intervalMs` for views that depend on the clock, such as shelf expiry
+export function useNow(intervalMs: number) {
+  const [now, setNow] = useState(Date.now)
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
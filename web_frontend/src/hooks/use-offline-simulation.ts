@@ -0,0 +1,45 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react'
+import { OFFLINE_FRAME_INTERVAL_MS, OFFLINE_LOGS_INTERVAL_MS, isOfflineMode, offlineBackend, subscribeOfflineMode } from '../lib/offline-mode'
+
+export function useOfflineMode() {
+  return useSyncExternalStore(subscribeOfflineMode, isOfflineMode)
+}
+
+// Emits serialized frames from the in-browser backend on the /ws cadence, so they go
+// through exactly the same parsing path as frames from the real socket.
+export function useOfflineSimulation(enabled: boolean, onMessage: (data: string) => unknown) {
+  const onMessageRef = useRef(onMessage)
+
+  useEffect(() => {
+    onMessageRef.current = onMessage
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+    const emit = () => {
+      onMessageRef.current(JSON.stringify(offlineBackend.nextFrame(performance.now() / 1000)))
+    }
+    emit()
+    const timer = setInterval(emit, OFFLINE_FRAME_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [enabled])
+}
+
+// The /ws/logs counterpart of useOfflineSimulation
+export function useOfflineLogs(enabled: boolean, onMessage: (data: string) => unknown) {
+  const onMessageRef = useRef(onMessage)
+
+  useEffect(() => {
+    onMessageRef.current = onMessage
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+    const emit = () => {
+      onMessageRef.current(JSON.stringify(offlineBackend.logsFrame(performance.now() / 1000)))
+    }
+    emit()
+    const timer = setInterval(emit, OFFLINE_LOGS_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [enabled])
+}
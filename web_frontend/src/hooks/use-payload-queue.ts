@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { getPayloadQueue, subscribePayloadQueue, type PayloadQueueState } from '../lib/payload-queue'
+
+// Same contract as useSimulationStore: selectors return values held in the store
+export function usePayloadQueue<T>(selector: (state: PayloadQueueState) => T): T {
+  return useSyncExternalStore(subscribePayloadQueue, () => selector(getPayloadQueue()))
+}
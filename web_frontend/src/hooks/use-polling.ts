@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { errorMessage } from '../lib/api'
+
+export interface Polled<T> {
+  data: T | null;
+  error: string | null;
+  lastUpdated: number | null;
+  refresh: () => void;
+}
+
+// Calls `fetcher` immediately and then every `intervalMs`. Requests never overlap; a
+// failed poll keeps the last good data alongside the error.
+export function usePolling<T>(fetcher: () => Promise<T>, intervalMs: number, enabled = true): Polled<T> {
+  const [data, setData] = useState<T | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+  const fetcherRef = useRef(fetcher)
+  const inFlightRef = useRef(false)
+
+  useEffect(() => {
+    fetcherRef.current = fetcher
+  })
+
+  const poll = useCallback(async () => {
+    if (inFlightRef.current) return
+    inFlightRef.current = true
+    try {
+      setData(await fetcherRef.current())
+      setError(null)
+      setLastUpdated(Date.now())
+    } catch (err) {
+      setError(errorMessage(err))
+    } finally {
+      inFlightRef.current = false
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    poll()
+    const timer = setInterval(poll, intervalMs)
+    return () => clearInterval(timer)
+  }, [poll, intervalMs, enabled])
+
+  return { data, error, lastUpdated, refresh: poll }
+}
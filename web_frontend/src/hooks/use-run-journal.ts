@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getRunEvents, subscribeRunEvents } from '../lib/run-journal'
+
+export function useRunJournal() {
+  return useSyncExternalStore(subscribeRunEvents, getRunEvents)
+}
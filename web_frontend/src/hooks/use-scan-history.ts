@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getScanHistory, subscribeScanHistory } from '../lib/scan-history'
+
+export function useScanHistory() {
+  return useSyncExternalStore(subscribeScanHistory, getScanHistory)
+}
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from 'react'
+import { dispatch, selectReplayRunId } from '../lib/simulation-store'
+import {
+  deleteRecordedRun,
+  listRecordedRuns,
+  loadRecordedFrames,
+  type RecordedFrame,
+  type RecordedRun
+} from '../lib/session-recorder'
+import { useSimulationStore } from './use-simulation-store'
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 10]
+
+// Gaps longer than this (e.g. the backend was stopped) are skipped instead of waited out
+const MAX_FRAME_GAP_MS = 5000
+
+export function useSessionReplay() {
+  const activeRunId = useSimulationStore(selectReplayRunId)
+  const [runs, setRuns] = useState<RecordedRun[]>([])
+  const [frames, setFrames] = useState<RecordedFrame[]>([])
+  const [position, setPosition] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [error, setError] = useState<string | null>(null)
+
+  const refreshRuns = useCallback(async () => {
+    try {
+      setRuns(await listRecordedRuns())
+      setError(null)
+    } catch (err) {
+      console.error('Error listing recorded runs:', err)
+      setError('Recorded sessions are unavailable (IndexedDB could not be opened)')
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshRuns()
+  }, [refreshRuns])
+
+  const startReplay = async (runId: string) => {
+    try {
+      const recorded = await loadRecordedFrames(runId)
+      if (recorded.length === 0) {
+        setError(`No frames recorded for run ${runId}`)
+        return
+      }
+      dispatch({ type: 'REPLAY_STARTED', run_id: runId })
+      dispatch({ type: 'REPLAY_FRAME', recorded: recorded[0] })
+      setFrames(recorded)
+      setPosition(0)
+      setIsPlaying(true)
+      setError(null)
+    } catch (err) {
+      console.error(`Error loading run ${runId}:`, err)
+      setError(`Failed to load run ${runId}`)
+    }
+  }
+
+  const stopReplay = () => {
+    setIsPlaying(false)
+    setFrames([])
+    setPosition(0)
+    dispatch({ type: 'REPLAY_STOPPED' })
+  }
+
+  const seek = (index: number) => {
+    const target = Math.max(0, Math.min(index, frames.length - 1))
+    dispatch({ type: 'REPLAY_SEEKED', recorded: frames.slice(0, target + 1) })
+    setPosition(target)
+  }
+
+  const play = () => {
+    if (frames.length === 0 || activeRunId === null) return
+    if (position >= frames.length - 1) seek(0)
+    setIsPlaying(true)
+  }
+
+  const deleteRun = async (runId: string) => {
+    if (runId === activeRunId) stopReplay()
+    try {
+      await deleteRecordedRun(runId)
+    } catch (err) {
+      console.error(`Error deleting run ${runId}:`, err)
+    }
+    await refreshRuns()
+  }
+
+  // Each frame is held for as long as the backend originally took to send the next one
+  useEffect(() => {
+    if (!isPlaying || activeRunId === null) return
+    const next = frames[position + 1]
+    if (!next) {
+      setIsPlaying(false)
+      return
+    }
+    const gap = Math.min(next.receivedAt - frames[position].receivedAt, MAX_FRAME_GAP_MS)
+    const timer = setTimeout(() => {
+      dispatch({ type: 'REPLAY_FRAME', recorded: next })
+      setPosition(position + 1)
+    }, Math.max(gap, 0) / speed)
+    return () => clearTimeout(timer)
+  }, [isPlaying, activeRunId, frames, position, speed])
+
+  return {
+    runs,
+    activeRunId,
+    frames,
+    position,
+    isPlaying,
+    speed,
+    error,
+    refreshRuns,
+    startReplay,
+    stopReplay,
+    play,
+    pause: () => setIsPlaying(false),
+    seek,
+    setSpeed,
+    deleteRun
+  }
+}
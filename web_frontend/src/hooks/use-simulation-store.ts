@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react'
+import { getSimulationState, subscribe, type SimulationState } from '../lib/simulation-store'
+
+// Selectors must return values already held in the store (or primitives) so that
+// unchanged state keeps the same snapshot between renders.
+export function useSimulationStore<T>(selector: (state: SimulationState) => T): T {
+  return useSyncExternalStore(subscribe, () => selector(getSimulationState()))
+}
@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+export type ConnectionState = 'connecting' | 'open' | 'stale' | 'reconnecting' | 'failed'
+
+export interface SocketConnectionOptions {
+  url: string;
+  // Handles one raw message. Returning the frame's `timestamp` lets the manager
+  // notice a stream that is still delivering frames but no longer advancing.
+  onMessage: (data: string) => number | void;
+  staleAfterMs?: number;
+  maxReconnectAttempts?: number;
+  connectTimeoutMs?: number;
+}
+
+export interface SocketConnection {
+  state: ConnectionState;
+  attempt: number;
+  maxReconnectAttempts: number;
+  lastFrameAt: number | null;
+  reconnectNow: () => void;
+}
+
+const RECONNECT_BASE_DELAY_MS = 2000
+const RECONNECT_MAX_DELAY_MS = 30000
+const STALE_CHECK_INTERVAL_MS = 1000
+// A stream that stays stale this many times longer than `staleAfterMs` is torn down and redialled
+const STALE_RECONNECT_FACTOR = 5
+
+export function useSocketConnection({
+  url,
+  onMessage,
+  staleAfterMs = 6000,
+  maxReconnectAttempts = 10,
+  connectTimeoutMs = 120000
+}: SocketConnectionOptions): SocketConnection {
+  const [state, setState] = useState<ConnectionState>('connecting')
+  const [attempt, setAttempt] = useState(0)
+  const [lastFrameAt, setLastFrameAt] = useState<number | null>(null)
+  const onMessageRef = useRef(onMessage)
+  const reconnectRef = useRef<() => void>(() => {})
+
+  useEffect(() => {
+    onMessageRef.current = onMessage
+  })
+
+  useEffect(() => {
+    let ws: WebSocket | null = null
+    let disposed = false
+    let attempts = 0
+    let current: ConnectionState = 'connecting'
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let connectTimer: ReturnType<typeof setTimeout> | undefined
+    let lastTimestamp: number | null = null
+    let lastProgressAt = 0
+
+    const transition = (next: ConnectionState) => {
+      current = next
+      setState(next)
+    }
+
+    const clearTimers = () => {
+      clearTimeout(retryTimer)
+      clearTimeout(connectTimer)
+    }
+
+    const scheduleReconnect = () => {
+      if (disposed) return
+      if (attempts >= maxReconnectAttempts) {
+        console.error(`WebSocket ${url}: max reconnection attempts reached`)
+        transition('failed')
+        return
+      }
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, attempts), RECONNECT_MAX_DELAY_MS)
+      attempts++
+      setAttempt(attempts)
+      console.log(`WebSocket ${url}: reconnecting in ${delay}ms (attempt ${attempts}/${maxReconnectAttempts})`)
+      transition('reconnecting')
+      retryTimer = setTimeout(connect, delay)
+    }
+
+    const connect = () => {
+      clearTimers()
+      const socket = new WebSocket(url)
+      ws = socket
+
+      connectTimer = setTimeout(() => {
+        if (socket.readyState === WebSocket.CONNECTING) {
+          console.log(`WebSocket ${url}: connection timeout after ${connectTimeoutMs / 1000}s`)
+          socket.close()
+        }
+      }, connectTimeoutMs)
+
+      socket.onopen = () => {
+        if (ws !== socket) return
+        clearTimeout(connectTimer)
+        attempts = 0
+        setAttempt(0)
+        lastTimestamp = null
+        lastProgressAt = Date.now()
+        transition('open')
+      }
+
+      socket.onmessage = (event) => {
+        if (ws !== socket) return
+        const timestamp = onMessageRef.current(event.data)
+        const advanced = typeof timestamp !== 'number' || lastTimestamp === null || timestamp > lastTimestamp
+        if (typeof timestamp === 'number') lastTimestamp = timestamp
+        if (!advanced) return
+
+        lastProgressAt = Date.now()
+        setLastFrameAt(lastProgressAt)
+        if (current === 'stale') transition('open')
+      }
+
+      socket.onclose = (event) => {
+        // Sockets replaced by reconnectNow() or closed on unmount are ignored
+        if (ws !== socket) return
+        ws = null
+        clearTimeout(connectTimer)
+        console.log(`WebSocket ${url} disconnected - Code:`, event.code, 'Reason:', event.reason)
+        scheduleReconnect()
+      }
+
+      socket.onerror = (error) => {
+        console.error(`WebSocket ${url} error:`, error)
+      }
+    }
+
+    const reconnectNow = () => {
+      if (disposed) return
+      clearTimers()
+      attempts = 0
+      setAttempt(0)
+      const previous = ws
+      ws = null
+      previous?.close()
+      transition('connecting')
+      connect()
+    }
+
+    const staleTimer = setInterval(() => {
+      if (current !== 'open' && current !== 'stale') return
+      const silentFor = Date.now() - lastProgressAt
+      if (silentFor > staleAfterMs * STALE_RECONNECT_FACTOR) {
+        console.log(`WebSocket ${url}: no new frames for ${Math.round(silentFor / 1000)}s, reconnecting`)
+        ws?.close()
+      } else if (silentFor > staleAfterMs && current === 'open') {
+        transition('stale')
+      }
+    }, STALE_CHECK_INTERVAL_MS)
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && current !== 'open' && current !== 'connecting') {
+        reconnectNow()
+      }
+    }
+
+    const handleOnline = () => {
+      if (current !== 'open') reconnectNow()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('online', handleOnline)
+    reconnectRef.current = reconnectNow
+
+    transition('connecting')
+    connect()
+
+    return () => {
+      disposed = true
+      clearTimers()
+      clearInterval(staleTimer)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('online', handleOnline)
+      const socket = ws
+      ws = null
+      socket?.close()
+    }
+  }, [url, staleAfterMs, maxReconnectAttempts, connectTimeoutMs])
+
+  const reconnectNow = useCallback(() => reconnectRef.current(), [])
+
+  return { state, attempt, maxReconnectAttempts, lastFrameAt, reconnectNow }
+}
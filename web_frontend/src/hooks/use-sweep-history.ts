@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { getSweepHistory, subscribeSweepHistory } from '../lib/sweep-history'
+
+export function useSweepHistory() {
+  return useSyncExternalStore(subscribeSweepHistory, getSweepHistory)
+}
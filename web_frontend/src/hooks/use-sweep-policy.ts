@@ -0,0 +1,23 @@
+import { useCallback, useState } from 'react'
+import { loadPolicy, loadTeam, savePolicy, saveTeam, type SweepPolicy } from '../lib/sweep-policy'
+
+// The active team and its policy; switching team loads that team's saved rules.
+export function useSweepPolicy() {
+  const [team, setTeamState] = useState(loadTeam)
+  const [policy, setPolicyState] = useState(() => loadPolicy(team))
+
+  const setTeam = useCallback((next: string) => {
+    const name = next.trim()
+    if (!name) return
+    saveTeam(name)
+    setTeamState(name)
+    setPolicyState(loadPolicy(name))
+  }, [])
+
+  const setPolicy = useCallback((next: SweepPolicy) => {
+    savePolicy(team, next)
+    setPolicyState(next)
+  }, [team])
+
+  return { team, setTeam, policy, setPolicy }
+}
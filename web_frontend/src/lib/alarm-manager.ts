@@ -0,0 +1,302 @@
+import { z } from 'zod'
+import type { PortalId } from './api'
+import type { SimulationFrame } from './frame-schema'
+import { createPersistedStore } from './persisted-store'
+import { MIN_TRANSFER_BRIDGE_STRENGTH, SIMULATION_CONFIG, STABILITY_THRESHOLD } from './simulation-model'
+import { getSimulationState, portalKey } from './simulation-store'
+
+export type AlarmSeverity = 'critical' | 'major' | 'minor'
+
+// One occurrence of a condition, from the moment it became true until it is both
+// cleared and acknowledged
+export interface Alarm {
+  id: string;
+  key: string;
+  label: string;
+  severity: AlarmSeverity;
+  detail: string;
+  run_id: string | null;
+  raisedAt: number;
+  clearedAt: number | null;
+  acknowledgedAt: number | null;
+}
+
+export interface AlarmState {
+  // Newest first; also the history shown after a reload
+  alarms: Alarm[];
+  // Condition key -> time the shelf expires
+  shelved: Record<string, number>;
+  toneEnabled: boolean;
+}
+
+export type AlarmAction =
+  | { type: 'ALARM_RAISED'; alarm: Alarm }
+  | { type: 'ALARM_CLEARED'; key: string; at: number }
+  | { type: 'ALARM_ACKNOWLEDGED'; id: string; at: number }
+  | { type: 'ALL_ACKNOWLEDGED'; at: number }
+  | { type: 'ALARM_SHELVED'; key: string; until: number }
+  | { type: 'ALARM_UNSHELVED'; key: string }
+  | { type: 'HISTORY_CLEARED' }
+  | { type: 'TONE_SET'; enabled: boolean }
+
+export const SEVERITY_ORDER: AlarmSeverity[] = ['critical', 'major', 'minor']
+export const MAX_ALARM_HISTORY = 200
+export const SHELVE_DURATIONS_MS = [5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000]
+
+const STORAGE_KEY = 'stargate-alarms'
+
+const initialState: AlarmState = { alarms: [], shelved: {}, toneEnabled: false }
+
+const alarmSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  label: z.string(),
+  severity: z.enum(SEVERITY_ORDER),
+  detail: z.string(),
+  run_id: z.string().nullable(),
+  raisedAt: z.number(),
+  clearedAt: z.number().nullable(),
+  acknowledgedAt: z.number().nullable()
+}) satisfies z.ZodType<Alarm>
+
+const alarmStateSchema = z.object({
+  alarms: z.array(alarmSchema).default([]),
+  shelved: z.record(z.string(), z.number()).default({}),
+  toneEnabled: z.boolean().default(false)
+}) satisfies z.ZodType<AlarmState>
+
+export const isOpen = (alarm: Alarm) => alarm.clearedAt === null
+export const isActive = (alarm: Alarm) => alarm.clearedAt === null || alarm.acknowledgedAt === null
+export const isShelved = (state: AlarmState, key: string, now = Date.now()) => (state.shelved[key] ?? 0) > now
+
+export const reducer = (state: AlarmState, action: AlarmAction): AlarmState => {
+  switch (action.type) {
+    case 'ALARM_RAISED':
+      return { ...state, alarms: [action.alarm, ...state.alarms].slice(0, MAX_ALARM_HISTORY) }
+
+    case 'ALARM_CLEARED':
+      return {
+        ...state,
+        alarms: state.alarms.map(alarm => (alarm.key === action.key && isOpen(alarm) ? { ...alarm, clearedAt: action.at } : alarm))
+      }
+
+    case 'ALARM_ACKNOWLEDGED':
+      return {
+        ...state,
+        alarms: state.alarms.map(alarm =>
+          alarm.id === action.id && alarm.acknowledgedAt === null ? { ...alarm, acknowledgedAt: action.at } : alarm
+        )
+      }
+
+    case 'ALL_ACKNOWLEDGED':
+      return {
+        ...state,
+        alarms: state.alarms.map(alarm => (alarm.acknowledgedAt === null ? { ...alarm, acknowledgedAt: action.at } : alarm))
+      }
+
+    case 'ALARM_SHELVED':
+      return { ...state, shelved: { ...state.shelved, [action.key]: action.until } }
+
+    case 'ALARM_UNSHELVED': {
+      const shelved = { ...state.shelved }
+      delete shelved[action.key]
+      return { ...state, shelved }
+    }
+
+    // Only finished alarms are history; anything still active stays on the list
+    case 'HISTORY_CLEARED':
+      return { ...state, alarms: state.alarms.filter(isActive) }
+
+    case 'TONE_SET':
+      return { ...state, toneEnabled: action.enabled }
+  }
+}
+
+const store = createPersistedStore<AlarmState>(STORAGE_KEY, 'alarm history', alarmStateSchema, initialState)
+
+export function dispatchAlarm(action: AlarmAction) {
+  store.set(reducer(store.get(), action))
+}
+
+export const subscribeAlarms = store.subscribe
+
+export const getAlarmState = store.get
+
+// Audible annunciation
+
+let audioContext: AudioContext | null = null
+
+// Browsers only allow audio after a user gesture, so this is called from the tone toggle
+export function unlockAlarmTone() {
+  audioContext ??= new AudioContext()
+  audioContext.resume().catch(() => {})
+}
+
+// The tone preference survives reloads but the audio context does not, so the first
+// click on the page re-arms it
+window.addEventListener('pointerdown', () => {
+  if (getAlarmState().toneEnabled && audioContext?.state !== 'running') unlockAlarmTone()
+})
+
+const TONES: Record<AlarmSeverity, { frequency: number; beeps: number }> = {
+  critical: { frequency: 880, beeps: 3 },
+  major: { frequency: 660, beeps: 2 },
+  minor: { frequency: 440, beeps: 1 }
+}
+
+function playTone(severity: AlarmSeverity) {
+  if (!audioContext || audioContext.state !== 'running') return
+  const { frequency, beeps } = TONES[severity]
+  for (let beep = 0; beep < beeps; beep++) {
+    const start = audioContext.currentTime + beep * 0.25
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+    oscillator.frequency.value = frequency
+    gain.gain.setValueAtTime(0.2, start)
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2)
+    oscillator.connect(gain).connect(audioContext.destination)
+    oscillator.start(start)
+    oscillator.stop(start + 0.2)
+  }
+}
+
+// Condition evaluation
+
+interface Condition {
+  key: string;
+  label: string;
+  severity: AlarmSeverity;
+  // Description of the abnormal reading, or null when the condition is normal
+  detail: string | null;
+}
+
+const portalConditions = (frame: SimulationFrame, portal: PortalId): Condition[] => {
+  const data = frame[portalKey(portal)]
+  const threshold = SIMULATION_CONFIG.floor_temp_threshold
+  return [
+    {
+      key: `safety-${portal}`,
+      label: `Portal ${portal} safety failure`,
+      severity: 'critical',
+      detail: data && !data.safety_status ? 'safety_status is false' : null
+    },
+    {
+      key: `floor-temp-${portal}`,
+      label: `Portal ${portal} floor temperature high`,
+      severity: 'major',
+      detail: data && data.floor_temp > threshold ? `${data.floor_temp.toFixed(2)}°C above ${threshold}°C` : null
+    },
+    {
+      key: `floor-contact-${portal}`,
+      label: `Portal ${portal} floor contact lost`,
+      severity: 'major',
+      detail: data && !data.floor_contact ? 'floor_contact is false' : null
+    },
+    {
+      key: `stability-${portal}`,
+      label: `Portal ${portal} stability low`,
+      severity: 'minor',
+      detail: data && data.stability < STABILITY_THRESHOLD ? `${data.stability.toFixed(3)} < ${STABILITY_THRESHOLD}` : null
+    }
+  ]
+}
+
+const BRIDGE_COLLAPSE_KEY = 'bridge-collapse'
+const WEBSOCKET_KEY = 'websocket-drop'
+
+// Edge detection state; not persisted, so a reload re-evaluates every condition
+// against the alarms that were still open
+let bridgeFormedAt: number | null = null
+let lastRunId: string | null = null
+
+function setCondition(condition: Condition, runId: string | null) {
+  const open = getAlarmState().alarms.find(alarm => alarm.key === condition.key && isOpen(alarm))
+  if (condition.detail === null) {
+    if (open) dispatchAlarm({ type: 'ALARM_CLEARED', key: condition.key, at: Date.now() })
+    return
+  }
+  if (open) return
+
+  const now = Date.now()
+  dispatchAlarm({
+    type: 'ALARM_RAISED',
+    alarm: {
+      id: `${condition.key}_${now.toString(36)}`,
+      key: condition.key,
+      label: condition.label,
+      severity: condition.severity,
+      detail: condition.detail,
+      run_id: runId,
+      raisedAt: now,
+      clearedAt: null,
+      acknowledgedAt: null
+    }
+  })
+  const state = getAlarmState()
+  if (state.toneEnabled && !isShelved(state, condition.key, now)) playTone(condition.severity)
+}
+
+// A bridge that was formed and then fell below the transfer threshold, other than
+// through a successful transfer (which resets the portals on purpose)
+function bridgeCondition(frame: SimulationFrame): Condition {
+  const runId = frame.run_id ?? null
+  if (runId !== lastRunId) {
+    lastRunId = runId
+    bridgeFormedAt = null
+  }
+  const condition: Condition = { key: BRIDGE_COLLAPSE_KEY, label: 'Bridge collapse', severity: 'critical', detail: null }
+  if (frame.bridge_strength >= MIN_TRANSFER_BRIDGE_STRENGTH) {
+    bridgeFormedAt ??= Date.now()
+    return condition
+  }
+  if (bridgeFormedAt === null) {
+    // Keep an already raised collapse open until the bridge re-forms or the run ends
+    const open = getAlarmState().alarms.some(alarm => alarm.key === BRIDGE_COLLAPSE_KEY && isOpen(alarm) && alarm.run_id === runId)
+    return open ? { ...condition, detail: 'Bridge not re-formed' } : condition
+  }
+  const transfer = getSimulationState().lastTransfer
+  if (transfer?.result.success && transfer.at >= bridgeFormedAt) {
+    bridgeFormedAt = null
+    return condition
+  }
+  bridgeFormedAt = null
+  return { ...condition, detail: `Bridge strength dropped to ${frame.bridge_strength.toFixed(3)}` }
+}
+
+export function evaluateFrame(frame: SimulationFrame) {
+  const runId = frame.run_id ?? null
+  const conditions = [...portalConditions(frame, 1), ...portalConditions(frame, 2), bridgeCondition(frame)]
+  conditions.forEach(condition => setCondition(condition, runId))
+}
+
+export function reportConnection(down: boolean) {
+  setCondition(
+    { key: WEBSOCKET_KEY, label: 'WebSocket connection lost', severity: 'major', detail: down ? 'Telemetry stream is down' : null },
+    getSimulationState().frame.run_id ?? null
+  )
+}
+
+export function acknowledgeAlarm(id: string) {
+  dispatchAlarm({ type: 'ALARM_ACKNOWLEDGED', id, at: Date.now() })
+}
+
+export function acknowledgeAll() {
+  dispatchAlarm({ type: 'ALL_ACKNOWLEDGED', at: Date.now() })
+}
+
+export function shelveAlarm(key: string, durationMs: number) {
+  dispatchAlarm({ type: 'ALARM_SHELVED', key, until: Date.now() + durationMs })
+}
+
+export function unshelveAlarm(key: string) {
+  dispatchAlarm({ type: 'ALARM_UNSHELVED', key })
+}
+
+export function clearAlarmHistory() {
+  dispatchAlarm({ type: 'HISTORY_CLEARED' })
+}
+
+export function setAlarmTone(enabled: boolean) {
+  if (enabled) unlockAlarmTone()
+  dispatchAlarm({ type: 'TONE_SET', enabled })
+}
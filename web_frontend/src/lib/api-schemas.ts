@@ -0,0 +1,74 @@
+import { z } from 'zod'
+import type { BridgeParameters, LogRecord, PortalId, SweepResult, TransferResult } from './api'
+import { portalPayloadSchema } from './frame-schema'
+import type { ScanRecord } from './simulation-store'
+
+// Schemas for API data the client keeps in localStorage or takes off a socket. They are
+// typed against the interfaces in api.ts so the two cannot drift apart.
+
+export const portalIdSchema = z.union([z.literal(1), z.literal(2)]) satisfies z.ZodType<PortalId>
+
+export const bridgeParametersSchema = z.object({
+  frequency1: z.number(),
+  frequency2: z.number(),
+  energy1: z.number(),
+  energy2: z.number()
+}) satisfies z.ZodType<BridgeParameters>
+
+export const sweepResultSchema = bridgeParametersSchema.extend({
+  bridge_strength: z.number(),
+  step: z.number()
+}) satisfies z.ZodType<SweepResult>
+
+export const transferResultSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    energy_transferred: z.number(),
+    energy_consumed: z.number(),
+    payloads_cleared: z.boolean(),
+    system_reset: z.boolean()
+  }),
+  z.object({ success: z.literal(false), reason: z.string() })
+]) satisfies z.ZodType<TransferResult>
+
+export const logRecordSchema = z.object({
+  timestamp: z.string(),
+  event: z.string(),
+  run_id: z.string().nullable(),
+  portal1_freq: z.number(),
+  portal1_stab: z.number(),
+  portal1_energy: z.number(),
+  portal1_safety: z.boolean(),
+  portal2_freq: z.number(),
+  portal2_stab: z.number(),
+  portal2_energy: z.number(),
+  portal2_safety: z.boolean(),
+  bridge_strength: z.number(),
+  transfer_result: transferResultSchema.nullable(),
+  extra: z.string()
+}) satisfies z.ZodType<LogRecord>
+
+// One /ws/logs message. Records are only checked for being a list here; ingestRecords
+// validates them one by one so a malformed record does not cost the rest of the batch
+export const logsMessageSchema = z.object({
+  timestamp: z.number(),
+  records: z.array(z.unknown()).optional()
+})
+
+export const scanRecordSchema = z.object({
+  portal_id: portalIdSchema,
+  timestamp: z.string(),
+  error: z.string().optional(),
+  status: z.literal('success').optional(),
+  portal: z.number().optional(),
+  contents: z.string().optional(),
+  payload: portalPayloadSchema.nullable().optional(),
+  measured: z
+    .object({ frequency: z.number(), energy: z.number(), stability: z.number(), volume: z.number(), mass: z.number() })
+    .optional(),
+  required: z.object({ frequency: z.number(), energy: z.number() }).optional(),
+  required_params: z.object({ frequency: z.string(), energy: z.string(), stability: z.string() }).optional(),
+  recommendations: z
+    .object({ optimal_frequency: z.string(), optimal_energy: z.string(), payload_compatibility: z.string() })
+    .optional()
+}) satisfies z.ZodType<ScanRecord>
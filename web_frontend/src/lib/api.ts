@@ -0,0 +1,434 @@
+import { isOfflineMode, offlineBackend } from './offline-mode'
+
+export const backendUrl: string = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080'
+
+export const DEFAULT_TIMEOUT_MS = 15000
+
+export function websocketUrl(path: string): string {
+  const wsProtocol = backendUrl.startsWith('https://') ? 'wss://' : 'ws://'
+  return backendUrl.replace(/^https?:\/\//, wsProtocol) + path
+}
+
+export class ApiError extends Error {
+  readonly path: string
+  readonly status: number | null
+
+  constructor(message: string, path: string, status: number | null = null) {
+    super(message)
+    this.name = 'ApiError'
+    this.path = path
+    this.status = status
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error occurred'
+}
+
+type QueryValue = string | number | boolean | undefined
+
+interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  timeoutMs?: number;
+}
+
+async function request<T>(method: 'GET' | 'POST', path: string, options: RequestOptions = {}): Promise<T> {
+  const { query, body, timeoutMs = DEFAULT_TIMEOUT_MS } = options
+
+  const params = new URLSearchParams()
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value))
+  })
+
+  // Offline mode answers from the in-browser model with the same bodies main.py would send
+  if (isOfflineMode()) {
+    const { status, body: data } = offlineBackend.handle(method, path, Object.fromEntries(params), body)
+    return checkResponse<T>(path, status, status === 404 ? 'Not Found' : 'OK', data)
+  }
+
+  const queryString = params.toString()
+  const url = `${backendUrl}${path}${queryString ? `?${queryString}` : ''}`
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: controller.signal
+    })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ApiError(`Request to ${path} timed out after ${timeoutMs / 1000}s`, path)
+    }
+    throw new ApiError(`Request to ${path} failed: ${errorMessage(error)}`, path)
+  } finally {
+    clearTimeout(timeoutId)
+  }
+
+  return checkResponse<T>(path, response.status, response.statusText, response.ok ? await response.json() : null)
+}
+
+function checkResponse<T>(path: string, status: number, statusText: string, data: unknown): T {
+  if (status < 200 || status >= 300) {
+    throw new ApiError(`${path} failed with status: ${status} - ${statusText}`, path, status)
+  }
+
+  // The backend reports handler failures as HTTP 200 with {"status": "error", "message": ...}
+  const body = data as { status?: unknown; message?: string } | null
+  if (body && body.status === 'error') {
+    throw new ApiError(body.message || `${path} returned an error`, path, status)
+  }
+
+  return data as T
+}
+
+export type PortalId = 1 | 2
+
+export interface BatteryStatus {
+  capacity_kWh: number;
+  charge_pct: number;
+  failsafe_engaged: boolean;
+}
+
+export interface StatusResponse {
+  status: 'not_initialized' | 'running' | 'ready';
+  run_id?: string | null;
+  portal1?: { frequency: number; stability: number; energy: number; safety: boolean };
+  portal2?: { frequency: number; stability: number; energy: number; safety: boolean };
+  bridge?: { strength: number; detune: number };
+  hardware?: {
+    temp1: number;
+    temp2: number;
+    contact1: boolean;
+    contact2: boolean;
+    battery: BatteryStatus;
+    failsafe: boolean;
+  };
+}
+
+export interface InitializeResponse {
+  status: 'initialized';
+  run_id: string;
+}
+
+export interface UpdateEnergyResponse {
+  status: 'success';
+  portal1_energy: number;
+  portal2_energy: number;
+  dt: number;
+}
+
+export interface FormBridgeResponse {
+  status: 'success';
+  bridge_strength: number;
+  detune: number;
+  time: number;
+}
+
+export type TransferResult =
+  | {
+      success: true;
+      energy_transferred: number;
+      energy_consumed: number;
+      payloads_cleared: boolean;
+      system_reset: boolean;
+    }
+  | {
+      success: false;
+      reason: string;
+    }
+
+export interface TransferPayloadResponse {
+  status: 'success';
+  transfer_result: TransferResult;
+  bridge_strength: number;
+  portal1_safety: boolean;
+  portal2_safety: boolean;
+}
+
+export interface UpdateParametersRequest {
+  frequency1?: number;
+  frequency2?: number;
+  detune?: number;
+  power1?: number;
+  power2?: number;
+}
+
+export interface UpdateParametersResponse {
+  status: 'success';
+  portal1_freq: number;
+  portal2_freq: number;
+  detune: number;
+  portal1_power: number;
+  portal2_power: number;
+}
+
+export interface PortalSafety {
+  safety_status: boolean;
+  stability: number;
+  floor_temp: number;
+  floor_contact: boolean;
+  temp_threshold: number;
+}
+
+export interface SafetyStatusResponse {
+  status: 'success';
+  overall_safety: boolean;
+  portal1: PortalSafety;
+  portal2: PortalSafety;
+  hardware: {
+    battery_status: BatteryStatus;
+    failsafe_engaged: boolean;
+    temp_sensor_1: number;
+    temp_sensor_2: number;
+    contact_sensor_1: boolean;
+    contact_sensor_2: boolean;
+  };
+}
+
+export interface ExportResponse {
+  status: 'success';
+  filename: string;
+  // File contents; null when the logger has no records yet
+  data: string | null;
+  format: 'csv' | 'json';
+}
+
+export interface LogRecord {
+  timestamp: string;
+  event: string;
+  run_id: string | null;
+  portal1_freq: number;
+  portal1_stab: number;
+  portal1_energy: number;
+  portal1_safety: boolean;
+  portal2_freq: number;
+  portal2_stab: number;
+  portal2_energy: number;
+  portal2_safety: boolean;
+  bridge_strength: number;
+  transfer_result: TransferResult | null;
+  extra: string;
+}
+
+export interface LogEventsResponse {
+  status: 'success';
+  records: LogRecord[];
+  record_count: number;
+}
+
+export interface AuditTrailResponse {
+  status: 'success';
+  audit_trail: LogRecord[];
+  audit_count: number;
+}
+
+export interface ClearLogsResponse {
+  status: 'success';
+  message: string;
+}
+
+export interface ScannedPayload {
+  type: string;
+  volume: number;
+  mass: number;
+  manifest?: PayloadManifestEntry[];
+}
+
+export interface ScanPortalResponse {
+  status: 'success';
+  portal: number;
+  contents: string;
+  // Structured readings. required_params predates them and, despite its name, formats the
+  // measured frequency, energy and stability
+  payload: ScannedPayload | null;
+  measured: {
+    frequency: number;
+    energy: number;
+    stability: number;
+    volume: number;
+    mass: number;
+  };
+  required: {
+    frequency: number;
+    energy: number;
+  };
+  required_params: {
+    frequency: string;
+    energy: string;
+    stability: string;
+  };
+  recommendations: {
+    optimal_frequency: string;
+    optimal_energy: string;
+    payload_compatibility: string;
+  };
+}
+
+export interface LockPortalResponse {
+  status: 'success';
+  portal: number;
+  locked: boolean;
+  message: string;
+  transport_ready: boolean;
+}
+
+// One line of a composite payload: `count` identical units of a material
+export interface PayloadManifestEntry {
+  material: string;
+  count: number;
+  unit_volume: number;
+  unit_mass: number;
+}
+
+export interface LoadPayloadRequest {
+  portal: PortalId;
+  payload_type: string;
+  payload_volume: number;
+  payload_mass: number;
+  manifest?: PayloadManifestEntry[];
+}
+
+export interface LoadPayloadResponse {
+  status: 'success';
+  portal: number;
+  message: string;
+  payload: {
+    type: string;
+    volume: number;
+    mass: number;
+    manifest: PayloadManifestEntry[] | null;
+  };
+}
+
+export interface ResetSystemResponse {
+  success: true;
+  message: string;
+  portal1_energy: number;
+  portal2_energy: number;
+  bridge_strength: number;
+}
+
+export type EnergyAction = 'on' | 'off' | 'increase' | 'decrease'
+
+export interface EnergyControlRequest {
+  portal_id: PortalId;
+  action: EnergyAction;
+  amount?: number;
+}
+
+export interface EnergyControlResponse {
+  success: true;
+  portal_id: number;
+  action: EnergyAction;
+  new_energy: number;
+  bridge_strength: number;
+  message: string;
+}
+
+export interface UnlockPortalsResponse {
+  success: true;
+  message: string;
+  portal1_status: 'UNLOCKED';
+  portal2_status: 'UNLOCKED';
+}
+
+export interface BridgeParameters {
+  frequency1: number;
+  frequency2: number;
+  energy1: number;
+  energy2: number;
+}
+
+export interface ApplyOptimalParametersResponse {
+  status: 'success';
+  message: string;
+  applied_params: BridgeParameters;
+  bridge_strength: number;
+}
+
+export interface ParameterSweepRequest {
+  energy_range: number;
+  freq_range: number;
+}
+
+export interface SweepResult extends BridgeParameters {
+  bridge_strength: number;
+  step: number;
+}
+
+export interface ParameterSweepResponse {
+  status: 'success';
+  results: SweepResult[];
+  best_result: SweepResult;
+  sweep_parameters: {
+    energy_range: number;
+    freq_range: number;
+    steps: number;
+  };
+}
+
+export const getStatus = () =>
+  request<StatusResponse>('GET', '/api/status')
+
+export const initialize = (payload_volume = 0.1, payload_mass = 75.0) =>
+  request<InitializeResponse>('POST', '/api/initialize', { query: { payload_volume, payload_mass } })
+
+export const updateEnergy = (dt = 1.0) =>
+  request<UpdateEnergyResponse>('POST', '/api/update_energy', { query: { dt } })
+
+export const formBridge = (t = 1.0) =>
+  request<FormBridgeResponse>('POST', '/api/form_bridge', { query: { t } })
+
+export const transferPayload = () =>
+  request<TransferPayloadResponse>('POST', '/api/transfer_payload')
+
+export const updateParameters = (params: UpdateParametersRequest) =>
+  request<UpdateParametersResponse>('POST', '/api/update_parameters', { query: { ...params } })
+
+export const getSafetyStatus = () =>
+  request<SafetyStatusResponse>('GET', '/api/safety_status')
+
+export const exportCsv = () =>
+  request<ExportResponse>('GET', '/api/export/csv')
+
+export const exportJson = () =>
+  request<ExportResponse>('GET', '/api/export/json')
+
+export const getLogEvents = () =>
+  request<LogEventsResponse>('GET', '/api/logs/events')
+
+export const getAuditTrail = () =>
+  request<AuditTrailResponse>('GET', '/api/logs/audit')
+
+export const clearLogs = () =>
+  request<ClearLogsResponse>('POST', '/api/logs/clear')
+
+export const scanPortal = (portal: PortalId) =>
+  request<ScanPortalResponse>('POST', '/api/scan_portal', { query: { portal }, timeoutMs: 10000 })
+
+export const lockPortal = (portal: PortalId) =>
+  request<LockPortalResponse>('POST', '/api/lock_portal', { query: { portal } })
+
+export const loadPayload = (payload: LoadPayloadRequest) =>
+  request<LoadPayloadResponse>('POST', '/api/load_payload', { body: payload })
+
+export const resetSystem = () =>
+  request<ResetSystemResponse>('POST', '/api/reset_system')
+
+export const energyControl = (command: EnergyControlRequest) =>
+  request<EnergyControlResponse>('POST', '/api/energy_control', { body: command })
+
+export const unlockPortals = () =>
+  request<UnlockPortalsResponse>('POST', '/api/unlock_portals')
+
+export const applyOptimalParameters = (params: BridgeParameters) =>
+  request<ApplyOptimalParametersResponse>('POST', '/api/apply_optimal_parameters', { body: params })
+
+export const parameterSweep = (params: ParameterSweepRequest) =>
+  request<ParameterSweepResponse>('POST', '/api/parameter_sweep', { query: { ...params }, timeoutMs: 60000 })
@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ApplyOptimalParametersResponse, BridgeParameters } from './api'
+import { optimizeOnBackend } from './bridge-optimizer'
+import * as actions from './simulation-actions'
+
+vi.mock('./simulation-actions', () => ({
+  applyParameters: vi.fn(),
+  probeParameters: vi.fn()
+}))
+
+const start: BridgeParameters = { frequency1: 7.83, frequency2: 7.91, energy1: 10000, energy2: 10000 }
+
+// Every probe reports the same strength, so the initial simplex has already converged
+const respondWith = (bridge_strength: number) => async (params: BridgeParameters): Promise<ApplyOptimalParametersResponse> =>
+  ({ status: 'success', message: '', applied_params: params, bridge_strength })
+
+describe('optimizeOnBackend', () => {
+  beforeEach(() => {
+    vi.mocked(actions.applyParameters).mockReset()
+    vi.mocked(actions.probeParameters).mockReset()
+  })
+
+  it('probes without applying, then applies a best point that meets the threshold', async () => {
+    vi.mocked(actions.probeParameters).mockImplementation(respondWith(0.9))
+    vi.mocked(actions.applyParameters).mockImplementation(respondWith(0.9))
+
+    const result = await optimizeOnBackend(start, 0.5, { budget: 6, tolerance: 0 })
+
+    expect(actions.probeParameters).toHaveBeenCalledTimes(result.evaluations.length)
+    expect(actions.applyParameters).toHaveBeenCalledTimes(1)
+    expect(actions.applyParameters).toHaveBeenCalledWith(result.best?.params)
+  })
+
+  it('restores the starting parameters when the best point is below the threshold', async () => {
+    vi.mocked(actions.probeParameters).mockImplementation(respondWith(0.3))
+
+    await optimizeOnBackend(start, 0.5, { budget: 6, tolerance: 0 })
+
+    expect(actions.applyParameters).not.toHaveBeenCalled()
+    expect(actions.probeParameters).toHaveBeenLastCalledWith(start)
+  })
+})
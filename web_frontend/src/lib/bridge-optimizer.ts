@@ -0,0 +1,191 @@
+import * as api from './api'
+import * as actions from './simulation-actions'
+import type { SimulationFrame } from './frame-schema'
+import { Portal, SIMULATION_CONFIG, bridgeStrength } from './simulation-model'
+
+// Same clamps main.py applies in /api/parameter_sweep and /api/apply_optimal_parameters
+export const FREQUENCY_BOUNDS: [number, number] = [7.0, 8.5]
+export const ENERGY_BOUNDS: [number, number] = [100, 20000]
+
+export type Evaluator = (params: api.BridgeParameters) => Promise<number>
+
+export interface Evaluation {
+  index: number;
+  params: api.BridgeParameters;
+  strength: number;
+  bestStrength: number;
+}
+
+export interface OptimizerOptions {
+  budget: number;
+  // Stop once every simplex vertex is within this much bridge strength of the best
+  tolerance: number;
+  signal?: AbortSignal;
+  onEvaluation?: (evaluation: Evaluation) => void;
+}
+
+export type StopReason = 'converged' | 'budget' | 'aborted'
+
+export interface OptimizerResult {
+  best: Evaluation | null;
+  evaluations: Evaluation[];
+  reason: StopReason;
+}
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.max(min, Math.min(max, value))
+
+// The simplex lives in the unit cube so frequency (Hz) and energy (J) steps are comparable
+const toParams = ([f1, f2, e1, e2]: number[]): api.BridgeParameters => {
+  const scale = (u: number, [min, max]: [number, number]) => min + clamp(u, [0, 1]) * (max - min)
+  return {
+    frequency1: scale(f1, FREQUENCY_BOUNDS),
+    frequency2: scale(f2, FREQUENCY_BOUNDS),
+    energy1: scale(e1, ENERGY_BOUNDS),
+    energy2: scale(e2, ENERGY_BOUNDS)
+  }
+}
+
+const toUnit = (params: api.BridgeParameters) => {
+  const unit = (value: number, bounds: [number, number]) => (clamp(value, bounds) - bounds[0]) / (bounds[1] - bounds[0])
+  return [
+    unit(params.frequency1, FREQUENCY_BOUNDS),
+    unit(params.frequency2, FREQUENCY_BOUNDS),
+    unit(params.energy1, ENERGY_BOUNDS),
+    unit(params.energy2, ENERGY_BOUNDS)
+  ]
+}
+
+// Evaluates a candidate the way /api/apply_optimal_parameters does - clamp, one energy
+// tick, form the bridge - against the portals' current stability, safety and detune
+export function modelEvaluator(frame: SimulationFrame): Evaluator {
+  const fallback = new Portal()
+  const portal1 = frame.portal1 ?? fallback
+  const portal2 = frame.portal2 ?? fallback
+  const detune = frame.portal1 ? frame.detune : SIMULATION_CONFIG.detune_default
+  return async params =>
+    bridgeStrength({
+      energy1: clamp(params.energy1, ENERGY_BOUNDS) + portal1.power,
+      energy2: clamp(params.energy2, ENERGY_BOUNDS) + portal2.power,
+      stability1: portal1.stability,
+      stability2: portal2.stability,
+      safety1: portal1.safety_status,
+      safety2: portal2.safety_status,
+      detune
+    })
+}
+
+// Each evaluation moves the live portals to the candidate as a probe: the store follows it,
+// but nothing is journaled or marked ready. Use optimizeOnBackend to settle afterwards.
+export const backendEvaluator: Evaluator = async params => (await actions.probeParameters(params)).bridge_strength
+
+class BudgetExhausted extends Error {}
+class Aborted extends Error {}
+
+// Nelder-Mead maximizing bridge strength, with the standard reflection/expansion/
+// contraction/shrink coefficients
+export async function optimizeBridge(
+  evaluate: Evaluator,
+  start: api.BridgeParameters,
+  { budget, tolerance, signal, onEvaluation }: OptimizerOptions
+): Promise<OptimizerResult> {
+  const evaluations: Evaluation[] = []
+  let best: Evaluation | null = null
+
+  const score = async (point: number[]) => {
+    if (signal?.aborted) throw new Aborted()
+    if (evaluations.length >= budget) throw new BudgetExhausted()
+    const params = toParams(point)
+    const strength = await evaluate(params)
+    const evaluation: Evaluation = {
+      index: evaluations.length,
+      params,
+      strength,
+      bestStrength: Math.max(strength, best?.strength ?? -Infinity)
+    }
+    if (!best || strength > best.strength) best = evaluation
+    evaluations.push(evaluation)
+    onEvaluation?.(evaluation)
+    return strength
+  }
+
+  const dimensions = 4
+  const initialStep = 0.1
+  const origin = toUnit(start)
+  const simplex: { point: number[]; value: number }[] = []
+
+  try {
+    simplex.push({ point: origin, value: await score(origin) })
+    for (let d = 0; d < dimensions; d++) {
+      const point = [...origin]
+      point[d] = point[d] + initialStep <= 1 ? point[d] + initialStep : point[d] - initialStep
+      simplex.push({ point, value: await score(point) })
+    }
+
+    for (;;) {
+      simplex.sort((a, b) => b.value - a.value)
+      if (simplex[0].value - simplex[dimensions].value <= tolerance) {
+        return { best, evaluations, reason: 'converged' }
+      }
+
+      const worst = simplex[dimensions]
+      const centroid = Array.from({ length: dimensions }, (_, d) =>
+        simplex.slice(0, dimensions).reduce((sum, vertex) => sum + vertex.point[d], 0) / dimensions
+      )
+      const along = (factor: number) => centroid.map((c, d) => c + factor * (worst.point[d] - c))
+
+      const reflected = along(-1)
+      const reflectedValue = await score(reflected)
+      if (reflectedValue > simplex[0].value) {
+        const expanded = along(-2)
+        const expandedValue = await score(expanded)
+        simplex[dimensions] = expandedValue > reflectedValue
+          ? { point: expanded, value: expandedValue }
+          : { point: reflected, value: reflectedValue }
+        continue
+      }
+      if (reflectedValue > simplex[dimensions - 1].value) {
+        simplex[dimensions] = { point: reflected, value: reflectedValue }
+        continue
+      }
+
+      const contracted = along(0.5)
+      const contractedValue = await score(contracted)
+      if (contractedValue > worst.value) {
+        simplex[dimensions] = { point: contracted, value: contractedValue }
+        continue
+      }
+
+      for (let i = 1; i <= dimensions; i++) {
+        const point = simplex[i].point.map((x, d) => simplex[0].point[d] + 0.5 * (x - simplex[0].point[d]))
+        simplex[i] = { point, value: await score(point) }
+      }
+    }
+  } catch (error) {
+    if (error instanceof BudgetExhausted) return { best, evaluations, reason: 'budget' }
+    if (error instanceof Aborted) return { best, evaluations, reason: 'aborted' }
+    throw error
+  }
+}
+
+// Runs the optimizer against the live portals and, however the run ends, settles them
+// instead of leaving them at the last probe: the best point is applied when it meets the
+// approval threshold, otherwise the portals go back to where they started
+export async function optimizeOnBackend(
+  start: api.BridgeParameters,
+  threshold: number,
+  options: OptimizerOptions
+): Promise<OptimizerResult> {
+  let best = null as Evaluation | null
+  try {
+    return await optimizeBridge(backendEvaluator, start, {
+      ...options,
+      onEvaluation: evaluation => {
+        if (!best || evaluation.strength > best.strength) best = evaluation
+        options.onEvaluation?.(evaluation)
+      }
+    })
+  } finally {
+    if (best && best.strength >= threshold) await actions.applyParameters(best.params)
+    else if (best) await actions.probeParameters(start)
+  }
+}
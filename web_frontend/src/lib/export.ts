@@ -0,0 +1,90 @@
+import type { Alarm } from './alarm-manager'
+import type { SweepRecord } from './sweep-history'
+import type { TelemetrySample } from './telemetry-history'
+
+export type ExportFormat = 'csv' | 'json'
+
+export const MIME_TYPES = {
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+  md: 'text/markdown'
+} as const
+
+// Same quoting rules as Python's csv module, so client and logger exports open alike
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: object[], columns?: string[]): string {
+  const header = columns ?? (rows[0] ? Object.keys(rows[0]) : [])
+  const lines = [header, ...rows.map(row => header.map(column => (row as Record<string, unknown>)[column]))]
+  return lines.map(cells => cells.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export const toJson = (value: unknown) => JSON.stringify(value, null, 2)
+
+// Browsers only save a file from a click on a link, so a throwaway one is made for each download
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoking immediately can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Opens generated HTML in a new tab; false when a pop-up blocker stopped it
+export function openHtml(content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES.html }))
+  const opened = window.open(url, '_blank') !== null
+  // The new tab needs the URL until it has loaded
+  setTimeout(() => URL.revokeObjectURL(url), 60000)
+  return opened
+}
+
+// 2026-10-19T18-57-39, safe in file names on every platform
+export const fileStamp = (time = Date.now()) => new Date(time).toISOString().slice(0, 19).replace(/:/g, '-')
+
+export const telemetryRows = (samples: TelemetrySample[]) =>
+  samples.map(sample => ({ time: new Date(sample.receivedAt).toISOString(), ...sample }))
+
+// One row per sweep point; the sweep's own fields repeat so the file filters cleanly in a spreadsheet
+export const sweepRows = (records: SweepRecord[]) =>
+  records.flatMap(record =>
+    record.results.map(result => ({
+      sweep_id: record.id,
+      recorded_at: new Date(record.recordedAt).toISOString(),
+      run_id: record.run_id,
+      source: record.source,
+      team: record.approval.team,
+      approved: record.approval.approved,
+      step: result.step,
+      frequency1: result.frequency1,
+      frequency2: result.frequency2,
+      energy1: result.energy1,
+      energy2: result.energy2,
+      bridge_strength: result.bridge_strength,
+      best: result.step === record.best.step
+    }))
+  )
+
+const isoOrNull = (time: number | null) => (time === null ? null : new Date(time).toISOString())
+
+export const alarmRows = (alarms: Alarm[]) =>
+  alarms.map(alarm => ({
+    id: alarm.id,
+    key: alarm.key,
+    severity: alarm.severity,
+    label: alarm.label,
+    detail: alarm.detail,
+    run_id: alarm.run_id,
+    raised_at: new Date(alarm.raisedAt).toISOString(),
+    cleared_at: isoOrNull(alarm.clearedAt),
+    acknowledged_at: isoOrNull(alarm.acknowledgedAt)
+  }))
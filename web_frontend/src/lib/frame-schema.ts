@@ -0,0 +1,93 @@
+import { z } from 'zod'
+
+export const manifestEntrySchema = z.object({
+  material: z.string(),
+  count: z.number(),
+  unit_volume: z.number(),
+  unit_mass: z.number()
+})
+
+// What /api/load_payload committed to the portal; absent from older backends
+export const portalPayloadSchema = z.object({
+  type: z.string(),
+  volume: z.number(),
+  mass: z.number(),
+  manifest: z.array(manifestEntrySchema).optional()
+})
+
+export const portalFrameSchema = z.object({
+  freq: z.number(),
+  stability: z.number(),
+  power: z.number(),
+  energy: z.number(),
+  floor_temp: z.number(),
+  floor_contact: z.boolean(),
+  safety_status: z.boolean(),
+  payload_volume: z.number(),
+  payload_mass: z.number(),
+  // A malformed payload is dropped rather than quarantining every frame until it is cleared
+  payload: portalPayloadSchema.nullable().optional().catch(null),
+  status_log: z.array(z.string())
+})
+
+export const simulationFrameSchema = z.object({
+  status: z.string(),
+  run_id: z.string().nullable().optional(),
+  portal1: portalFrameSchema.nullable(),
+  portal2: portalFrameSchema.nullable(),
+  bridge_strength: z.number(),
+  transfer_energy: z.number(),
+  detune: z.number(),
+  status_log: z.array(z.string()).optional(),
+  timestamp: z.number()
+})
+
+export type PortalPayloadFrame = z.infer<typeof portalPayloadSchema>
+export type PortalFrame = z.infer<typeof portalFrameSchema>
+export type SimulationFrame = z.infer<typeof simulationFrameSchema>
+
+export const EMPTY_FRAME: SimulationFrame = {
+  status: 'disconnected',
+  portal1: null,
+  portal2: null,
+  bridge_strength: 0,
+  transfer_energy: 0,
+  detune: 0,
+  timestamp: 0
+}
+
+export interface QuarantinedFrame {
+  receivedAt: string;
+  issues: string[];
+  raw: string;
+}
+
+export type FrameParseResult =
+  | { ok: true; frame: SimulationFrame }
+  | { ok: false; quarantined: QuarantinedFrame }
+
+export const MAX_QUARANTINED_FRAMES = 20
+
+export function parseFrame(raw: string): FrameParseResult {
+  const receivedAt = new Date().toISOString()
+
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch (error) {
+    return {
+      ok: false,
+      quarantined: { receivedAt, issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`], raw }
+    }
+  }
+
+  const result = simulationFrameSchema.safeParse(json)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      `${issue.path.length > 0 ? issue.path.join('.') : '(frame)'}: ${issue.message}`
+    )
+    return { ok: false, quarantined: { receivedAt, issues, raw } }
+  }
+
+  return { ok: true, frame: result.data }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import type { LogRecord } from './api'
+import { getLogState, ingestRecords } from './log-store'
+
+const record: LogRecord = {
+  timestamp: '2026-01-01T00:00:00',
+  event: 'TRANSFER_COMPLETE',
+  run_id: 'run_1',
+  portal1_freq: 7.83,
+  portal1_stab: 0.9,
+  portal1_energy: 10000,
+  portal1_safety: true,
+  portal2_freq: 7.83,
+  portal2_stab: 0.9,
+  portal2_energy: 10000,
+  portal2_safety: true,
+  bridge_strength: 0.8,
+  transfer_result: null,
+  extra: 'portal 1 to portal 2'
+}
+
+describe('ingestRecords', () => {
+  it('skips malformed records and keeps the rest of the batch', () => {
+    const rejected = ingestRecords([{ event: 'TRANSFER_COMPLETE' }, null, record, { ...record, extra: 42 }])
+
+    expect(rejected).toBe(3)
+    expect(getLogState().entries.map(entry => entry.record)).toEqual([record])
+  })
+})
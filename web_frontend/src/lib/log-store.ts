@@ -0,0 +1,137 @@
+import type { LogRecord, PortalId } from './api'
+import { logRecordSchema } from './api-schemas'
+import type { SimulationFrame } from './frame-schema'
+import { createStore } from './persisted-store'
+
+export type LogLevel = 'INFO' | 'WARN' | 'ERROR'
+export type LogSource = 'logger' | 'bridge' | 'portal1' | 'portal2'
+
+export const LOG_LEVELS: LogLevel[] = ['INFO', 'WARN', 'ERROR']
+
+export interface LogEntry {
+  id: string;
+  level: LogLevel;
+  source: LogSource;
+  portal: PortalId | null;
+  run_id: string | null;
+  // Logger records carry their own (UTC) timestamp; status lines only have arrival time
+  time: number;
+  message: string;
+  record?: LogRecord;
+}
+
+export interface LogState {
+  entries: LogEntry[];
+  // Pinned entries are kept here too so they survive the entries cap
+  pinned: LogEntry[];
+}
+
+export const MAX_LOG_ENTRIES = 5000
+
+const LEVEL_PREFIX = /^\[(INFO|WARN|ERROR)\]\s*/
+
+// Lines without a prefix are the TRANSFER SUCCESS/FAIL summaries from dualportal.py
+export function parseStatusLine(line: string): { level: LogLevel; message: string } {
+  const match = LEVEL_PREFIX.exec(line)
+  if (match) return { level: match[1] as LogLevel, message: line.slice(match[0].length) }
+  return { level: /FAIL|ERROR/i.test(line) ? 'ERROR' : 'INFO', message: line }
+}
+
+const portalMentioned = (text: string): PortalId | null => {
+  const match = /Portal (1|2)\b/.exec(text)
+  return match ? (Number(match[1]) as PortalId) : null
+}
+
+// logger.py has no level field, so it is inferred from the event name and transfer outcome
+export function recordLevel(record: LogRecord): LogLevel {
+  if (/error/i.test(record.event)) return 'ERROR'
+  if (record.transfer_result && !record.transfer_result.success) return 'WARN'
+  return 'INFO'
+}
+
+// datetime.utcnow().isoformat() has no zone suffix; treat it as UTC
+const parseRecordTime = (timestamp: string) => {
+  const time = Date.parse(/[zZ]|[+-]\d\d:\d\d$/.test(timestamp) ? timestamp : `${timestamp}Z`)
+  return Number.isNaN(time) ? Date.now() : time
+}
+
+const recordKey = (record: LogRecord) => `${record.timestamp}|${record.event}|${record.extra}`
+
+let nextId = 0
+const newId = () => `log_${(nextId++).toString(36)}`
+
+const store = createStore<LogState>({ entries: [], pinned: [] })
+const seenRecords = new Set<string>()
+// How many status_log lines of each source have been ingested for the current run
+const seenLines = new Map<string, number>()
+
+const append = (entries: LogEntry[]) => {
+  if (entries.length === 0) return
+  const state = store.get()
+  store.set({ ...state, entries: [...state.entries, ...entries].slice(-MAX_LOG_ENTRIES) })
+}
+
+export const getLogState = store.get
+
+export const subscribeLogs = store.subscribe
+
+// Records arrive repeatedly (/ws/logs resends the last ten every second), so they are
+// de-duplicated on their content. Anything that is not a logger record is skipped before
+// recordKey and recordLevel read it; the number skipped is returned.
+export function ingestRecords(input: readonly unknown[]) {
+  const records = input.flatMap(raw => {
+    const parsed = logRecordSchema.safeParse(raw)
+    return parsed.success ? [parsed.data] : []
+  })
+  const fresh = records.filter(record => !seenRecords.has(recordKey(record)))
+  fresh.forEach(record => seenRecords.add(recordKey(record)))
+  append(
+    fresh.map(record => ({
+      id: newId(),
+      level: recordLevel(record),
+      source: 'logger',
+      portal: portalMentioned(`${record.event} ${record.extra}`),
+      run_id: record.run_id,
+      time: parseRecordTime(record.timestamp),
+      message: record.extra ? `${record.event}: ${record.extra}` : record.event,
+      record
+    }))
+  )
+  return input.length - records.length
+}
+
+// Every frame carries the full status_log of each portal and the bridge; only lines past
+// the previously seen length are new. A shorter list means the log was reset.
+export function ingestFrame(frame: SimulationFrame, receivedAt: number) {
+  const runId = frame.run_id ?? null
+  const sources: [LogSource, PortalId | null, string[] | undefined][] = [
+    ['bridge', null, frame.status_log],
+    ['portal1', 1, frame.portal1?.status_log],
+    ['portal2', 2, frame.portal2?.status_log]
+  ]
+  const entries: LogEntry[] = []
+  sources.forEach(([source, portal, lines]) => {
+    if (!lines) return
+    const key = `${runId}:${source}`
+    const seen = seenLines.get(key) ?? 0
+    const start = lines.length < seen ? 0 : seen
+    seenLines.set(key, lines.length)
+    lines.slice(start).forEach(line => {
+      const { level, message } = parseStatusLine(line)
+      entries.push({ id: newId(), level, source, portal, run_id: runId, time: receivedAt, message })
+    })
+  })
+  append(entries)
+}
+
+export function togglePin(entry: LogEntry) {
+  const state = store.get()
+  const pinned = state.pinned.some(existing => existing.id === entry.id)
+    ? state.pinned.filter(existing => existing.id !== entry.id)
+    : [...state.pinned, entry]
+  store.set({ ...state, pinned })
+}
+
+export function clearLogView() {
+  store.set({ ...store.get(), entries: [] })
+}
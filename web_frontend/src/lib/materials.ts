@@ -0,0 +1,105 @@
+import { z } from 'zod'
+import { createPersistedStore } from './persisted-store'
+
+export interface Material {
+  name: string;
+  // kg/m³
+  density: number;
+  color: string;
+  notes: string;
+}
+
+export interface MaterialEntry extends Material {
+  builtin: boolean;
+}
+
+// SI densities at room temperature; Air is at sea level, Wood and Biological are typical values
+export const BUILTIN_MATERIALS: Material[] = [
+  { name: 'Gold', density: 19300, color: '#FFD700', notes: 'Precious metal - Extremely high density' },
+  { name: 'Platinum', density: 21450, color: '#E5E4E2', notes: 'Precious metal - Highest density in the library' },
+  { name: 'Lead', density: 11340, color: '#6B7280', notes: 'Heavy metal - Very high density' },
+  { name: 'Silver', density: 10490, color: '#C0C0C0', notes: 'Precious metal - High density' },
+  { name: 'Copper', density: 8960, color: '#B87333', notes: 'Conductive metal - High density' },
+  { name: 'Iron', density: 7870, color: '#A19D94', notes: 'Structural metal - High density' },
+  { name: 'Titanium', density: 4510, color: '#878681', notes: 'Light structural metal - Medium density' },
+  { name: 'Aluminum', density: 2700, color: '#D1D5DB', notes: 'Light metal - Medium density' },
+  { name: 'Water', density: 1000, color: '#3B82F6', notes: 'Reference liquid - 1 kg per litre' },
+  { name: 'Biological', density: 1000, color: '#90EE90', notes: 'Living tissue - Water-based density' },
+  { name: 'Wood', density: 600, color: '#8B4513', notes: 'Organic material - Low density variable' },
+  { name: 'Air', density: 1.225, color: '#E0F2FE', notes: 'Gas at sea level - Negligible mass' }
+]
+
+export const DEFAULT_MATERIAL = 'Gold'
+
+// Every payload component calculates mass the same way: volume (m³) × density (kg/m³)
+export const massFor = (volume: number, density: number) => volume * density
+export const volumeFor = (mass: number, density: number) => (density > 0 ? mass / density : 0)
+
+const STORAGE_KEY = 'stargate-materials'
+
+const materialSchema = z.object({
+  name: z.string().trim().min(1),
+  density: z.number().positive(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).default('#9CA3AF'),
+  notes: z.string().default('')
+})
+
+const libraryFileSchema = z.union([z.array(materialSchema), z.object({ materials: z.array(materialSchema) })])
+
+const isBuiltin = (name: string) => BUILTIN_MATERIALS.some(material => material.name.toLowerCase() === name.toLowerCase())
+
+const withBuiltins = (user: Material[]): MaterialEntry[] => [
+  ...BUILTIN_MATERIALS.map(material => ({ ...material, builtin: true })),
+  ...user.map(material => ({ ...material, builtin: false }))
+]
+
+const store = createPersistedStore<Material[]>(STORAGE_KEY, 'material library', z.array(materialSchema), [])
+
+// Recomputed on every change so the snapshot handed to React keeps its identity between changes
+let library = withBuiltins(store.get())
+
+const commit = (next: Material[]) => {
+  library = withBuiltins(next)
+  store.set(next)
+}
+
+export const getMaterials = () => library
+
+export const subscribeMaterials = store.subscribe
+
+export const findMaterial = (name: string) => library.find(material => material.name === name)
+
+// Unknown names (a material deleted after it was loaded) fall back to water density
+export const densityOf = (name: string) => findMaterial(name)?.density ?? 1000
+
+export const massOf = (name: string, volume: number) => massFor(volume, densityOf(name))
+
+// Adds a user material, or replaces the user material with the same name. Built-in
+// materials cannot be redefined, so a shared name always means the same density.
+export function saveMaterial(input: Material) {
+  const material = materialSchema.parse(input)
+  if (isBuiltin(material.name)) throw new Error(`${material.name} is a built-in material`)
+  const rest = store.get().filter(existing => existing.name.toLowerCase() !== material.name.toLowerCase())
+  commit([...rest, material])
+}
+
+export function removeMaterial(name: string) {
+  commit(store.get().filter(material => material.name !== name))
+}
+
+export const exportMaterials = () => JSON.stringify({ materials: store.get() }, null, 2)
+
+// Accepts either a bare array or the { materials } file written by exportMaterials.
+// Entries named like a built-in are skipped; the rest are added or replace their namesakes.
+export function importMaterials(json: string): { imported: number; skipped: string[] } {
+  const parsed = libraryFileSchema.safeParse(JSON.parse(json))
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; '))
+  }
+  const incoming = Array.isArray(parsed.data) ? parsed.data : parsed.data.materials
+  const skipped = incoming.filter(material => isBuiltin(material.name)).map(material => material.name)
+  const accepted = incoming.filter(material => !isBuiltin(material.name))
+  const names = new Set(accepted.map(material => material.name.toLowerCase()))
+  commit([...store.get().filter(material => !names.has(material.name.toLowerCase())), ...accepted])
+  return { imported: accepted.length, skipped }
+}
@@ -0,0 +1,20 @@
+import { z } from 'zod'
+import { createPersistedStore } from './persisted-store'
+import { SimulationBackend } from './simulation-backend'
+
+const STORAGE_KEY = 'stargate-offline-mode'
+// Same cadence as the /ws loop in main.py
+export const OFFLINE_FRAME_INTERVAL_MS = 2000
+// Same cadence as the /ws/logs loop
+export const OFFLINE_LOGS_INTERVAL_MS = 1000
+
+// Single in-browser backend shared by api.ts and the offline frame ticker
+export const offlineBackend = new SimulationBackend()
+
+const store = createPersistedStore(STORAGE_KEY, 'offline mode preference', z.boolean(), false)
+
+export const isOfflineMode = store.get
+
+export const setOfflineMode = store.set
+
+export const subscribeOfflineMode = store.subscribe
@@ -0,0 +1,102 @@
+import type { PayloadManifestEntry } from './api'
+import { findMaterial, massFor, volumeFor } from './materials'
+import type { LoadedPayload } from './simulation-store'
+
+export type ManifestQuantity = 'volume' | 'mass'
+
+// An item as the operator enters it: either the volume or the mass of one unit, with
+// the other derived from the material density
+export interface ManifestItem {
+  id: string;
+  material: string;
+  quantity: ManifestQuantity;
+  amount: number;
+  count: number;
+}
+
+export interface ManifestTotals {
+  volume: number;
+  mass: number;
+  // kg/m³ over the whole payload; 0 for an empty manifest
+  averageDensity: number;
+  units: number;
+}
+
+// Largest payload a portal chamber accepts. The single-material controls cap volume and
+// mass at the same values.
+export const PORTAL_LIMITS = {
+  maxVolume: 2.0,
+  maxMass: 20000,
+  maxUnits: 100
+} as const
+
+let nextId = 0
+
+export const createManifestItem = (material: string): ManifestItem => ({
+  id: `item_${Date.now().toString(36)}_${nextId++}`,
+  material,
+  quantity: 'volume',
+  amount: 0.01,
+  count: 1
+})
+
+// Items whose material is no longer in the library resolve to null
+export function resolveItem(item: ManifestItem): PayloadManifestEntry | null {
+  const material = findMaterial(item.material)
+  if (!material) return null
+  const unitVolume = item.quantity === 'volume' ? item.amount : volumeFor(item.amount, material.density)
+  return {
+    material: material.name,
+    count: item.count,
+    unit_volume: unitVolume,
+    unit_mass: item.quantity === 'mass' ? item.amount : massFor(unitVolume, material.density)
+  }
+}
+
+export function manifestTotals(entries: PayloadManifestEntry[]): ManifestTotals {
+  const volume = entries.reduce((sum, entry) => sum + entry.unit_volume * entry.count, 0)
+  const mass = entries.reduce((sum, entry) => sum + entry.unit_mass * entry.count, 0)
+  return {
+    volume,
+    mass,
+    averageDensity: volume > 0 ? mass / volume : 0,
+    units: entries.reduce((sum, entry) => sum + entry.count, 0)
+  }
+}
+
+export function validateManifest(items: ManifestItem[]): string[] {
+  if (items.length === 0) return ['Add at least one item']
+  const issues = items.flatMap((item, index) => {
+    const label = `Item ${index + 1} (${item.material})`
+    return [
+      ...(findMaterial(item.material) ? [] : [`${label}: material is not in the library`]),
+      ...(item.amount > 0 ? [] : [`${label}: ${item.quantity} must be greater than zero`]),
+      ...(Number.isInteger(item.count) && item.count >= 1 ? [] : [`${label}: count must be a whole number of at least 1`])
+    ]
+  })
+  const totals = manifestTotals(items.map(resolveItem).filter((entry): entry is PayloadManifestEntry => entry !== null))
+  if (totals.volume > PORTAL_LIMITS.maxVolume) {
+    issues.push(`Total volume ${totals.volume.toFixed(3)} m³ exceeds the ${PORTAL_LIMITS.maxVolume} m³ portal limit`)
+  }
+  if (totals.mass > PORTAL_LIMITS.maxMass) {
+    issues.push(`Total mass ${totals.mass.toFixed(1)} kg exceeds the ${PORTAL_LIMITS.maxMass} kg portal limit`)
+  }
+  if (totals.units > PORTAL_LIMITS.maxUnits) {
+    issues.push(`${totals.units} units exceed the ${PORTAL_LIMITS.maxUnits} unit portal limit`)
+  }
+  return issues
+}
+
+// The committed payload carries the totals in the single-payload fields so older
+// consumers (and the physics) see one volume and one mass
+export function manifestPayload(items: ManifestItem[]): LoadedPayload {
+  const manifest = items.map(resolveItem).filter((entry): entry is PayloadManifestEntry => entry !== null)
+  const totals = manifestTotals(manifest)
+  const materials = Array.from(new Set(manifest.map(entry => entry.material)))
+  return {
+    type: materials.length === 1 ? materials[0] : `Composite (${materials.length} materials)`,
+    volume: Number(totals.volume.toFixed(4)),
+    mass: Number(totals.mass.toFixed(2)),
+    manifest
+  }
+}
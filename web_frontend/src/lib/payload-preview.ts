@@ -0,0 +1,55 @@
+import type { PortalId } from './api'
+import type { SimulationFrame } from './frame-schema'
+import {
+  MIN_TRANSFER_BRIDGE_STRENGTH,
+  MIN_TRANSFER_ENERGY,
+  bridgeStrength,
+  senseFrequency,
+  transferEnergy
+} from './simulation-model'
+import { portalKey } from './simulation-store'
+
+export interface PayloadPreview {
+  currentFreq: number;
+  predictedFreq: number;
+  // Predicted frequency of the target portal minus the live frequency of the other one
+  frequencyGap: number;
+  // The detune form_bridge weighs; it is a setting, so loading does not change it
+  detune: number;
+  bridgeStrength: number;
+  transferEnergy: number;
+  transferViable: boolean;
+}
+
+// What /api/load_payload will retune the target portal to (Portal.sense_payload), and the
+// bridge form_bridge would produce at the current energy levels. Null until both portals
+// are streaming.
+export function previewPayload(volume: number, portal: PortalId, frame: SimulationFrame): PayloadPreview | null {
+  const target = frame[portalKey(portal)]
+  const other = frame[portalKey(portal === 1 ? 2 : 1)]
+  if (!target || !other || volume <= 0) return null
+
+  const predictedFreq = senseFrequency(volume)
+  const portal1 = portal === 1 ? target : other
+  const portal2 = portal === 1 ? other : target
+  const strength = bridgeStrength({
+    energy1: portal1.energy,
+    energy2: portal2.energy,
+    stability1: portal1.stability,
+    stability2: portal2.stability,
+    safety1: portal1.safety_status,
+    safety2: portal2.safety_status,
+    detune: frame.detune
+  })
+  const energy = transferEnergy(portal1.energy, portal2.energy, strength)
+
+  return {
+    currentFreq: target.freq,
+    predictedFreq,
+    frequencyGap: portal === 1 ? other.freq - predictedFreq : predictedFreq - other.freq,
+    detune: frame.detune,
+    bridgeStrength: strength,
+    transferEnergy: energy,
+    transferViable: strength >= MIN_TRANSFER_BRIDGE_STRENGTH && energy > MIN_TRANSFER_ENERGY
+  }
+}
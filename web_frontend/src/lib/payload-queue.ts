@@ -0,0 +1,170 @@
+import { z } from 'zod'
+import * as api from './api'
+import { portalIdSchema } from './api-schemas'
+import { portalPayloadSchema } from './frame-schema'
+import { createStore, readStored, writeStored } from './persisted-store'
+import * as actions from './simulation-actions'
+import { getSimulationState, portalKey, type LoadedPayload } from './simulation-store'
+import { MIN_BRIDGE_STRENGTH } from './transfer-sequence'
+
+const STORAGE_KEY = 'stargate-payload-queue'
+
+export type QueueItemStatus = 'queued' | 'loading' | 'bridging' | 'transferring' | 'done' | 'failed'
+
+export interface QueueItem {
+  id: string;
+  payload: LoadedPayload;
+  portal: api.PortalId;
+  status: QueueItemStatus;
+  message: string | null;
+}
+
+// 'pausing' lets the item in flight finish before the batch stops
+export type BatchState = 'idle' | 'running' | 'pausing' | 'paused'
+
+export interface PayloadQueueState {
+  items: QueueItem[];
+  batch: BatchState;
+  pauseReason: string | null;
+}
+
+const queueItemSchema = z.object({
+  id: z.string(),
+  payload: portalPayloadSchema,
+  portal: portalIdSchema,
+  status: z.enum(['queued', 'loading', 'bridging', 'transferring', 'done', 'failed']),
+  message: z.string().nullable()
+}) satisfies z.ZodType<QueueItem>
+
+// Only the staged items survive a reload; a batch that was running is not resumed
+const storedItems = readStored(STORAGE_KEY, z.array(queueItemSchema), []).map((item): QueueItem =>
+  item.status === 'done' || item.status === 'failed' || item.status === 'queued'
+    ? item
+    : { ...item, status: 'queued', message: null }
+)
+
+const store = createStore<PayloadQueueState>({ items: storedItems, batch: 'idle', pauseReason: null })
+
+const commit = (next: Partial<PayloadQueueState>) => {
+  const state = store.get()
+  if (next.items !== undefined && next.items !== state.items) writeStored(STORAGE_KEY, next.items, 'payload queue')
+  store.set({ ...state, ...next })
+}
+
+const updateItem = (id: string, changes: Partial<QueueItem>) =>
+  commit({ items: store.get().items.map(item => (item.id === id ? { ...item, ...changes } : item)) })
+
+export const getPayloadQueue = store.get
+
+export const subscribePayloadQueue = store.subscribe
+
+export const isBatchActive = (batch: BatchState) => batch === 'running' || batch === 'pausing'
+
+export function enqueuePayload(payload: LoadedPayload, portal: api.PortalId = 1) {
+  const item: QueueItem = {
+    id: `payload_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    payload,
+    portal,
+    status: 'queued',
+    message: null
+  }
+  commit({ items: [...getPayloadQueue().items, item] })
+  return item
+}
+
+export const assignPortal = (id: string, portal: api.PortalId) => updateItem(id, { portal })
+
+export function moveItem(id: string, offset: number) {
+  const items = [...getPayloadQueue().items]
+  const index = items.findIndex(item => item.id === id)
+  const target = index + offset
+  if (index < 0 || target < 0 || target >= items.length) return
+  const [item] = items.splice(index, 1)
+  items.splice(target, 0, item)
+  commit({ items })
+}
+
+export function removeItem(id: string) {
+  commit({ items: getPayloadQueue().items.filter(item => item.id !== id) })
+}
+
+export function clearFinished() {
+  commit({ items: getPayloadQueue().items.filter(item => item.status !== 'done') })
+}
+
+// A failed item goes back to the queue; the next batch retries it in place
+export const requeueItem = (id: string) => updateItem(id, { status: 'queued', message: null })
+
+export function requestPause() {
+  if (getPayloadQueue().batch === 'running') commit({ batch: 'pausing' })
+}
+
+// The reason the batch must not continue, or null when both portals report safe
+const safetyTrip = (): string | null => {
+  const { view } = getSimulationState()
+  for (const portal of [1, 2] as const) {
+    const data = view[portalKey(portal)]
+    if (!data) return `No data from Portal ${portal}`
+    if (!data.safety_status) return `Portal ${portal} safety_status tripped`
+  }
+  return null
+}
+
+const transferItem = async (item: QueueItem) => {
+  updateItem(item.id, { status: 'loading', message: null })
+  await actions.loadPayload(item.portal, item.payload)
+
+  updateItem(item.id, { status: 'bridging' })
+  for (const portal of [1, 2] as const) {
+    if (getSimulationState().controls[portalKey(portal)].lock !== 'LOCKED') await actions.lockPortal(portal)
+  }
+  const bridge = await actions.formBridge()
+  if (bridge.bridge_strength < MIN_BRIDGE_STRENGTH) {
+    throw new Error(`Bridge strength ${bridge.bridge_strength.toFixed(3)} is below the ${MIN_BRIDGE_STRENGTH} minimum`)
+  }
+
+  updateItem(item.id, { status: 'transferring' })
+  const data = await actions.transferPayload()
+  const result = data.transfer_result
+  if (!result.success) throw new Error(`Transfer failed: ${result.reason}`)
+  updateItem(item.id, { status: 'done', message: `${result.energy_transferred.toFixed(1)} J transferred` })
+  // The payload went through, but the next one must not follow it
+  return data.portal1_safety && data.portal2_safety ? null : `Safety flag tripped during transfer of ${item.payload.type}`
+}
+
+// Works through the queued items in order. The batch pauses itself on the first failed
+// load, bridge or transfer and whenever a portal reports unsafe; the operator resumes it.
+export async function runBatch() {
+  if (isBatchActive(getPayloadQueue().batch)) return
+  commit({ batch: 'running', pauseReason: null })
+
+  let next = getPayloadQueue().items.find(item => item.status === 'queued' || item.status === 'failed')
+  while (next) {
+    if (getPayloadQueue().batch === 'pausing') {
+      commit({ batch: 'paused', pauseReason: 'Paused by operator' })
+      return
+    }
+    const trip = safetyTrip()
+    if (trip) {
+      commit({ batch: 'paused', pauseReason: trip })
+      return
+    }
+
+    const item = next
+    try {
+      const tripped = await transferItem(item)
+      if (tripped) {
+        commit({ batch: 'paused', pauseReason: tripped })
+        return
+      }
+    } catch (error) {
+      console.error(`Batch transfer of ${item.payload.type} failed:`, error)
+      const message = api.errorMessage(error)
+      updateItem(item.id, { status: 'failed', message })
+      commit({ batch: 'paused', pauseReason: `${item.payload.type} → Portal ${item.portal}: ${message}` })
+      return
+    }
+    next = getPayloadQueue().items.find(candidate => candidate.status === 'queued')
+  }
+  commit({ batch: 'idle', pauseReason: null })
+}
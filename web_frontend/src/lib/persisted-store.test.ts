@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createPersistedStore, readStored } from './persisted-store'
+
+const saved = new Map<string, string>()
+
+beforeEach(() => {
+  saved.clear()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => saved.get(key) ?? null,
+    setItem: (key: string, value: string) => saved.set(key, value)
+  })
+})
+
+const countSchema = z.object({ count: z.number() })
+
+describe('readStored', () => {
+  it('returns stored data that matches the schema', () => {
+    saved.set('counter', JSON.stringify({ count: 3 }))
+    expect(readStored('counter', countSchema, { count: 0 })).toEqual({ count: 3 })
+  })
+
+  it('falls back on missing, malformed or mismatched data', () => {
+    expect(readStored('counter', countSchema, { count: 0 })).toEqual({ count: 0 })
+    saved.set('counter', '{not json')
+    expect(readStored('counter', countSchema, { count: 0 })).toEqual({ count: 0 })
+    saved.set('counter', JSON.stringify({ count: 'three' }))
+    expect(readStored('counter', countSchema, { count: 0 })).toEqual({ count: 0 })
+  })
+})
+
+describe('createPersistedStore', () => {
+  it('saves every change and notifies subscribers', () => {
+    const store = createPersistedStore('counter', 'counter', countSchema, { count: 0 })
+    const listener = vi.fn()
+    const unsubscribe = store.subscribe(listener)
+
+    store.set({ count: 1 })
+    expect(store.get()).toEqual({ count: 1 })
+    expect(saved.get('counter')).toBe('{"count":1}')
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    store.set({ count: 2 })
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the value in memory when saving fails', () => {
+    vi.stubGlobal('localStorage', {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError')
+      }
+    })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const store = createPersistedStore('counter', 'counter', countSchema, { count: 0 })
+
+    store.set({ count: 5 })
+    expect(store.get()).toEqual({ count: 5 })
+    expect(error).toHaveBeenCalledWith('Error saving counter:', expect.any(Error))
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,60 @@
+import type { z } from 'zod'
+
+// Module-level state shared with React through useSyncExternalStore
+export interface Store<T> {
+  get: () => T;
+  set: (next: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createStore<T>(initial: T): Store<T> {
+  let value = initial
+  const listeners = new Set<() => void>()
+  return {
+    get: () => value,
+    set: (next) => {
+      value = next
+      listeners.forEach((listener) => {
+        listener()
+      })
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
+
+// Stored data is only trusted once it matches the schema; anything else (an older shape,
+// a hand-edited value) starts over from the fallback
+export function readStored<T>(key: string, schema: z.ZodType<T>, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key)
+    const parsed = raw ? schema.safeParse(JSON.parse(raw)) : null
+    return parsed?.success ? parsed.data : fallback
+  } catch {
+    return fallback
+  }
+}
+
+// A full quota only costs persistence; the in-memory value still updates
+export function writeStored(key: string, value: unknown, label: string) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.error(`Error saving ${label}:`, error)
+  }
+}
+
+export function createPersistedStore<T>(key: string, label: string, schema: z.ZodType<T>, fallback: T): Store<T> {
+  const store = createStore(readStored(key, schema, fallback))
+  return {
+    ...store,
+    set: (next) => {
+      writeStored(key, next, label)
+      store.set(next)
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import * as THREE from 'three'
+
+export const SPHERE_POSITIONS = [
+  { x: 0, y: 0, z: 0 },      // Center
+  { x: 1, y: 0, z: 0 },      // Right
+  { x: -1, y: 0, z: 0 },     // Left
+  { x: 0.5, y: 0.866, z: 0 }, // Top right
+  { x: -0.5, y: 0.866, z: 0 }, // Top left
+  { x: 0, y: -0.866, z: 0 }   // Bottom
+]
+
+export interface SixSpherePortal {
+  group: THREE.Group;
+  spheres: THREE.Mesh<THREE.SphereGeometry, THREE.MeshPhongMaterial>[];
+  // Moves the outer spheres radially; 1 is the rest position
+  setSpread: (spread: number) => void;
+  dispose: () => void;
+}
+
+// The six-sphere arrangement with spokes from the centre sphere. Every portal owns its
+// geometry and materials so they can be tinted and disposed independently.
+export function createSixSpherePortal(): SixSpherePortal {
+  const group = new THREE.Group()
+
+  const sphereGeometry = new THREE.SphereGeometry(0.3, 16, 16)
+  const spheres = SPHERE_POSITIONS.map((pos, index) => {
+    const material = new THREE.MeshPhongMaterial({
+      color: index === 0 ? 0x00ff00 : 0x0066ff,
+      emissive: index === 0 ? 0x002200 : 0x001122,
+      shininess: 100
+    })
+    const sphere = new THREE.Mesh(sphereGeometry, material)
+    sphere.position.set(pos.x, pos.y, pos.z)
+    group.add(sphere)
+    return sphere
+  })
+
+  const lineMaterial = new THREE.LineBasicMaterial({ color: 0x444444 })
+  const lineGeometries = SPHERE_POSITIONS.slice(1).map(pos => {
+    const geometry = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(pos.x, pos.y, pos.z)
+    ])
+    group.add(new THREE.Line(geometry, lineMaterial))
+    return geometry
+  })
+
+  const setSpread = (spread: number) => {
+    spheres.forEach((sphere, index) => {
+      if (index === 0) return
+      const pos = SPHERE_POSITIONS[index]
+      sphere.position.set(pos.x * spread, pos.y * spread, pos.z * spread)
+    })
+  }
+
+  const dispose = () => {
+    sphereGeometry.dispose()
+    spheres.forEach(sphere => sphere.material.dispose())
+    lineGeometries.forEach(geometry => geometry.dispose())
+    lineMaterial.dispose()
+  }
+
+  return { group, spheres, setSpread, dispose }
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod'
+import type { BridgeParameters, PortalId, TransferResult } from './api'
+import { bridgeParametersSchema, portalIdSchema, transferResultSchema } from './api-schemas'
+import { portalPayloadSchema } from './frame-schema'
+import { createPersistedStore } from './persisted-store'
+import { getSimulationState, type LoadedPayload } from './simulation-store'
+
+// Operator actions that shaped a run, as the controls issued them. The logger only
+// records some of these (and no successful locks), so the client keeps its own journal.
+export type RunEventBody =
+  | { type: 'initialized'; payload_volume: number; payload_mass: number }
+  | { type: 'payload_loaded'; portal: PortalId; payload: LoadedPayload }
+  | { type: 'lock'; portal: PortalId; locked: boolean }
+  | { type: 'unlocked' }
+  | { type: 'parameters_applied'; params: BridgeParameters; bridge_strength: number }
+  | { type: 'transfer'; result: TransferResult; bridge_strength: number }
+
+export type RunEvent = RunEventBody & {
+  id: string;
+  run_id: string;
+  at: number;
+}
+
+const STORAGE_KEY = 'stargate-run-journal'
+export const MAX_RUN_EVENTS = 1000
+
+const runEventSchema = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('initialized'), payload_volume: z.number(), payload_mass: z.number() }),
+    z.object({ type: z.literal('payload_loaded'), portal: portalIdSchema, payload: portalPayloadSchema }),
+    z.object({ type: z.literal('lock'), portal: portalIdSchema, locked: z.boolean() }),
+    z.object({ type: z.literal('unlocked') }),
+    z.object({ type: z.literal('parameters_applied'), params: bridgeParametersSchema, bridge_strength: z.number() }),
+    z.object({ type: z.literal('transfer'), result: transferResultSchema, bridge_strength: z.number() })
+  ])
+  .and(z.object({ id: z.string(), run_id: z.string(), at: z.number() })) satisfies z.ZodType<RunEvent>
+
+// Oldest first
+const store = createPersistedStore<RunEvent[]>(STORAGE_KEY, 'run journal', z.array(runEventSchema), [])
+
+// Frames arrive every 2 s, so for a moment after /api/initialize the stream still
+// reports the previous run; actions issued in that window belong to the new one
+const INITIALIZE_GRACE_MS = 5000
+let lastInitialized: { run_id: string; at: number } | null = null
+
+const currentRunId = () => {
+  if (lastInitialized && Date.now() - lastInitialized.at < INITIALIZE_GRACE_MS) return lastInitialized.run_id
+  return getSimulationState().frame.run_id ?? lastInitialized?.run_id ?? null
+}
+
+export const getRunEvents = store.get
+
+export const subscribeRunEvents = store.subscribe
+
+// Events outside a run (nothing initialized yet) have nothing to report against
+export function recordRunEvent(body: RunEventBody, runId = currentRunId()) {
+  if (!runId) return
+  const at = Date.now()
+  if (body.type === 'initialized') lastInitialized = { run_id: runId, at }
+  const events = store.get()
+  const event = { ...body, id: `${body.type}_${at.toString(36)}_${events.length}`, run_id: runId, at } as RunEvent
+  store.set([...events, event].slice(-MAX_RUN_EVENTS))
+}
+
+export function clearRunJournal() {
+  store.set([])
+}
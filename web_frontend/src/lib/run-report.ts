@@ -0,0 +1,550 @@
+import type { TransferResult } from './api'
+import { getAlarmState, type Alarm } from './alarm-manager'
+import type { SimulationFrame } from './frame-schema'
+import { getLogState, type LogEntry } from './log-store'
+import { getRunEvents, type RunEvent } from './run-journal'
+import { getSimulationState, type LoadedPayload } from './simulation-store'
+import { averageStrength, getSweepHistory, type SweepRecord } from './sweep-history'
+import { downsample, type TelemetryField, type TelemetrySample } from './telemetry-history'
+
+// Everything the client has recorded about one run, gathered from the stores at the
+// moment the report is requested
+export interface RunReportData {
+  run_id: string;
+  generatedAt: number;
+  samples: TelemetrySample[];
+  sweeps: SweepRecord[];
+  alarms: Alarm[];
+  logs: LogEntry[];
+  events: RunEvent[];
+  // Payload the stream reports for the run, when it is the one currently streaming
+  framePayload: { payload_volume: number; payload_mass: number } | null;
+}
+
+export interface RunReportSources {
+  history: TelemetrySample[];
+  frame: SimulationFrame;
+  sweeps: SweepRecord[];
+  alarms: Alarm[];
+  logs: LogEntry[];
+  events: RunEvent[];
+}
+
+// The store only buffers the current (or replayed) run, so other runs have no telemetry
+export function buildRunReport(runId: string, sources: RunReportSources): RunReportData {
+  const { frame } = sources
+  return {
+    run_id: runId,
+    generatedAt: Date.now(),
+    samples: sources.history.filter(sample => sample.run_id === runId),
+    sweeps: sources.sweeps.filter(record => record.run_id === runId),
+    alarms: sources.alarms.filter(alarm => alarm.run_id === runId),
+    logs: sources.logs.filter(entry => entry.run_id === runId),
+    events: sources.events.filter(event => event.run_id === runId),
+    framePayload: frame.run_id === runId && frame.portal1
+      ? { payload_volume: frame.portal1.payload_volume, payload_mass: frame.portal1.payload_mass }
+      : null
+  }
+}
+
+export const collectRunReport = (runId: string) =>
+  buildRunReport(runId, {
+    history: getSimulationState().history,
+    frame: getSimulationState().frame,
+    sweeps: getSweepHistory(),
+    alarms: getAlarmState().alarms,
+    logs: getLogState().entries,
+    events: getRunEvents()
+  })
+
+// Run ids anything has been recorded under, most recent first
+export function knownRunIds(
+  currentRunId: string | null,
+  samples: TelemetrySample[],
+  sweeps: SweepRecord[],
+  alarms: Alarm[],
+  logs: LogEntry[],
+  events: RunEvent[] = []
+): string[] {
+  const ids = [
+    currentRunId,
+    ...samples.map(sample => sample.run_id),
+    ...sweeps.map(record => record.run_id),
+    ...alarms.map(alarm => alarm.run_id),
+    ...events.map(event => event.run_id).reverse(),
+    ...logs.map(entry => entry.run_id).reverse()
+  ]
+  return Array.from(new Set(ids.filter((id): id is string => Boolean(id))))
+}
+
+// Summary
+
+export interface EnergyPoint {
+  time: number;
+  label: string;
+  portal1_energy: number | null;
+  portal2_energy: number | null;
+  bridge_strength: number;
+}
+
+export interface EnergyRange {
+  start: number | null;
+  peak: number | null;
+  final: number | null;
+}
+
+export interface TransferSummary {
+  time: number;
+  success: boolean;
+  bridge_strength: number;
+  detail: string;
+}
+
+// The report as plain data; the JSON export is exactly this and the Markdown/HTML
+// renderings are built from it
+export interface RunSummary {
+  run_id: string;
+  generated_at: string;
+  initialization: { time: number | null; payload_volume: number; payload_mass: number } | null;
+  payloads: { time: number; portal: number; payload: LoadedPayload }[];
+  energy: { portal1: EnergyRange; portal2: EnergyRange; timeline: EnergyPoint[] };
+  sweeps: { time: number; source: string; team: string; approved: boolean; best_strength: number; average_strength: number; failed_rules: string[] }[];
+  parameters_applied: { time: number; frequency1: number; frequency2: number; energy1: number; energy2: number; bridge_strength: number }[];
+  locks: { time: number; portal: number | null; action: string }[];
+  transfers: TransferSummary[];
+  transfer_log_lines: { time: number; line: string }[];
+  alarms: { raised: number; severity: string; label: string; detail: string; cleared: number | null; acknowledged: number | null }[];
+  event_log: { time: number; level: string; source: string; message: string }[];
+}
+
+// Buffered telemetry is the densest record of a run; logger records carry both portals'
+// energy at every logged event, which covers runs whose telemetry is no longer buffered
+const MAX_TIMELINE_SAMPLES = 20
+
+function energyTimeline(report: RunReportData): EnergyPoint[] {
+  if (report.samples.length > 0) {
+    return downsample(report.samples, MAX_TIMELINE_SAMPLES).map(sample => ({
+      time: sample.receivedAt,
+      label: 'telemetry',
+      portal1_energy: sample.portal1_energy,
+      portal2_energy: sample.portal2_energy,
+      bridge_strength: sample.bridge_strength
+    }))
+  }
+  return report.logs
+    .filter(entry => entry.record)
+    .map(entry => ({
+      time: entry.time,
+      label: entry.record?.event ?? entry.message,
+      portal1_energy: entry.record?.portal1_energy ?? null,
+      portal2_energy: entry.record?.portal2_energy ?? null,
+      bridge_strength: entry.record?.bridge_strength ?? 0
+    }))
+}
+
+function energyRange(values: (number | null)[]): EnergyRange {
+  const known = values.filter((value): value is number => value !== null)
+  if (known.length === 0) return { start: null, peak: null, final: null }
+  return { start: known[0], peak: Math.max(...known), final: known[known.length - 1] }
+}
+
+const transferDetail = (result: TransferResult) =>
+  result.success
+    ? `${result.energy_transferred.toFixed(1)} J transferred, ${result.energy_consumed.toFixed(1)} J consumed`
+    : result.reason
+
+const TRANSFER_LINE = /^TRANSFER (SUCCESS|FAIL)/
+
+export function summarizeRun(report: RunReportData): RunSummary {
+  const timeline = energyTimeline(report)
+  const energySource = report.samples.length > 0 ? report.samples : timeline
+  const initialized = report.events.find(event => event.type === 'initialized')
+
+  // Transfers made from this browser come from the journal; otherwise from the logger
+  const journalTransfers = report.events.flatMap(event =>
+    event.type === 'transfer'
+      ? [{ time: event.at, success: event.result.success, bridge_strength: event.bridge_strength, detail: transferDetail(event.result) }]
+      : []
+  )
+  const loggedTransfers = report.logs.flatMap(entry => {
+    const result = entry.record?.transfer_result
+    return entry.record && result
+      ? [{ time: entry.time, success: result.success, bridge_strength: entry.record.bridge_strength, detail: transferDetail(result) }]
+      : []
+  })
+
+  return {
+    run_id: report.run_id,
+    generated_at: new Date(report.generatedAt).toISOString(),
+    initialization: initialized
+      ? { time: initialized.at, payload_volume: initialized.payload_volume, payload_mass: initialized.payload_mass }
+      : report.framePayload && { time: null, ...report.framePayload },
+    payloads: report.events.flatMap(event =>
+      event.type === 'payload_loaded' ? [{ time: event.at, portal: event.portal, payload: event.payload }] : []
+    ),
+    energy: {
+      portal1: energyRange(energySource.map(point => point.portal1_energy)),
+      portal2: energyRange(energySource.map(point => point.portal2_energy)),
+      timeline
+    },
+    sweeps: report.sweeps.map(record => ({
+      time: record.recordedAt,
+      source: record.source,
+      team: record.approval.team,
+      approved: record.approval.approved,
+      best_strength: record.best.bridge_strength,
+      average_strength: averageStrength(record),
+      failed_rules: record.approval.failedRules
+    })),
+    parameters_applied: report.events.flatMap(event =>
+      event.type === 'parameters_applied' ? [{ time: event.at, ...event.params, bridge_strength: event.bridge_strength }] : []
+    ),
+    locks: report.events.flatMap((event): RunSummary['locks'] => {
+      if (event.type === 'lock') return [{ time: event.at, portal: event.portal, action: event.locked ? 'locked' : 'lock refused' }]
+      if (event.type === 'unlocked') return [{ time: event.at, portal: null, action: 'all unlocked' }]
+      return []
+    }),
+    transfers: journalTransfers.length > 0 ? journalTransfers : loggedTransfers,
+    transfer_log_lines: report.logs
+      .filter(entry => TRANSFER_LINE.test(entry.message))
+      .map(entry => ({ time: entry.time, line: entry.message })),
+    alarms: report.alarms.map(alarm => ({
+      raised: alarm.raisedAt,
+      severity: alarm.severity,
+      label: alarm.label,
+      detail: alarm.detail,
+      cleared: alarm.clearedAt,
+      acknowledged: alarm.acknowledgedAt
+    })),
+    event_log: report.logs.map(entry => ({ time: entry.time, level: entry.level, source: entry.source, message: entry.message }))
+  }
+}
+
+// Sections shared by the HTML and Markdown renderings
+
+interface ReportTable {
+  title?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+interface ReportSection {
+  title: string;
+  tables: ReportTable[];
+  // The HTML report draws the buffered telemetry charts at the top of this section
+  telemetryCharts?: boolean;
+}
+
+const stamp = (time: number | null) => (time === null ? '-' : new Date(time).toLocaleString())
+const clock = (time: number) => new Date(time).toLocaleTimeString()
+const fixed = (value: number | null, digits: number) => (value === null ? '-' : value.toFixed(digits))
+
+export function reportSections(summary: RunSummary): ReportSection[] {
+  const init = summary.initialization
+  return [
+    {
+      title: 'Initialization',
+      tables: [
+        {
+          headers: ['Initialized', 'Payload volume (m³)', 'Payload mass (kg)'],
+          rows: init ? [[stamp(init.time), String(init.payload_volume), String(init.payload_mass)]] : []
+        },
+        {
+          title: 'Payloads loaded',
+          headers: ['Time', 'Portal', 'Material', 'Volume (m³)', 'Mass (kg)'],
+          rows: summary.payloads.map(({ time, portal, payload }) => [
+            clock(time),
+            String(portal),
+            payload.type,
+            String(payload.volume),
+            payload.mass.toFixed(2)
+          ])
+        }
+      ]
+    },
+    {
+      title: 'Energy timeline',
+      telemetryCharts: true,
+      tables: [
+        {
+          headers: ['Portal', 'Start (J)', 'Peak (J)', 'Final (J)'],
+          rows: (['portal1', 'portal2'] as const).map((key, index) => {
+            const range = summary.energy[key]
+            return [`Portal ${index + 1}`, fixed(range.start, 0), fixed(range.peak, 0), fixed(range.final, 0)]
+          })
+        },
+        {
+          title: 'Timeline',
+          headers: ['Time', 'Event', 'Portal 1 (J)', 'Portal 2 (J)', 'Bridge'],
+          rows: summary.energy.timeline.map(point => [
+            clock(point.time),
+            point.label,
+            fixed(point.portal1_energy, 0),
+            fixed(point.portal2_energy, 0),
+            point.bridge_strength.toFixed(3)
+          ])
+        }
+      ]
+    },
+    {
+      title: 'Sweep and approval',
+      tables: [
+        {
+          headers: ['Recorded', 'Source', 'Team', 'Approved', 'Best strength', 'Average', 'Failed rules'],
+          rows: summary.sweeps.map(sweep => [
+            stamp(sweep.time),
+            sweep.source,
+            sweep.team,
+            sweep.approved ? 'yes' : 'no',
+            sweep.best_strength.toFixed(3),
+            sweep.average_strength.toFixed(3),
+            sweep.failed_rules.join('; ')
+          ])
+        },
+        {
+          title: 'Parameters applied',
+          headers: ['Time', 'Freq 1 (Hz)', 'Freq 2 (Hz)', 'Energy 1 (J)', 'Energy 2 (J)', 'Bridge'],
+          rows: summary.parameters_applied.map(applied => [
+            clock(applied.time),
+            applied.frequency1.toFixed(3),
+            applied.frequency2.toFixed(3),
+            applied.energy1.toFixed(0),
+            applied.energy2.toFixed(0),
+            applied.bridge_strength.toFixed(3)
+          ])
+        }
+      ]
+    },
+    {
+      title: 'Lock events',
+      tables: [
+        {
+          headers: ['Time', 'Portal', 'Action'],
+          rows: summary.locks.map(lock => [clock(lock.time), lock.portal === null ? 'both' : String(lock.portal), lock.action])
+        }
+      ]
+    },
+    {
+      title: 'Transfer',
+      tables: [
+        {
+          headers: ['Time', 'Outcome', 'Bridge strength', 'Detail'],
+          rows: summary.transfers.map(transfer => [
+            clock(transfer.time),
+            transfer.success ? 'SUCCESS' : 'FAIL',
+            transfer.bridge_strength.toFixed(3),
+            transfer.detail
+          ])
+        },
+        {
+          title: 'Log lines',
+          headers: ['Time', 'Line'],
+          rows: summary.transfer_log_lines.map(entry => [clock(entry.time), entry.line])
+        }
+      ]
+    },
+    {
+      title: 'Alarms',
+      tables: [
+        {
+          headers: ['Raised', 'Severity', 'Alarm', 'Detail', 'Cleared', 'Acknowledged'],
+          rows: summary.alarms.map(alarm => [
+            stamp(alarm.raised),
+            alarm.severity,
+            alarm.label,
+            alarm.detail,
+            stamp(alarm.cleared),
+            stamp(alarm.acknowledged)
+          ])
+        }
+      ]
+    },
+    {
+      title: 'Event log',
+      tables: [
+        {
+          headers: ['Time', 'Level', 'Source', 'Message'],
+          rows: summary.event_log.map(entry => [clock(entry.time), entry.level, entry.source, entry.message])
+        }
+      ]
+    }
+  ]
+}
+
+// Markdown
+
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+
+const markdownTable = ({ title, headers, rows }: ReportTable) => [
+  ...(title ? [`**${title}**`, ''] : []),
+  ...(rows.length === 0
+    ? ['_None recorded._']
+    : [
+        `| ${headers.map(markdownCell).join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+      ]),
+  ''
+]
+
+export function renderRunReportMarkdown(summary: RunSummary): string {
+  return [
+    `# Stargate run report: ${summary.run_id}`,
+    '',
+    `Generated ${stamp(Date.parse(summary.generated_at))}`,
+    '',
+    ...reportSections(summary).flatMap(section => [`## ${section.title}`, '', ...section.tables.flatMap(markdownTable)])
+  ].join('\n')
+}
+
+// HTML
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+interface ReportSeries {
+  key: TelemetryField;
+  label: string;
+  color: string;
+}
+
+interface ReportChart {
+  title: string;
+  digits: number;
+  series: ReportSeries[];
+}
+
+// Darker than the dashboard palette so the lines survive a black-and-white printer
+const REPORT_CHARTS: ReportChart[] = [
+  {
+    title: 'Energy (J)',
+    digits: 0,
+    series: [
+      { key: 'portal1_energy', label: 'Portal 1', color: '#1d4ed8' },
+      { key: 'portal2_energy', label: 'Portal 2', color: '#7e22ce' }
+    ]
+  },
+  {
+    title: 'Frequency (Hz)',
+    digits: 3,
+    series: [
+      { key: 'portal1_freq', label: 'Portal 1', color: '#1d4ed8' },
+      { key: 'portal2_freq', label: 'Portal 2', color: '#7e22ce' }
+    ]
+  },
+  {
+    title: 'Stability',
+    digits: 3,
+    series: [
+      { key: 'portal1_stability', label: 'Portal 1', color: '#1d4ed8' },
+      { key: 'portal2_stability', label: 'Portal 2', color: '#7e22ce' }
+    ]
+  },
+  { title: 'Bridge Strength', digits: 3, series: [{ key: 'bridge_strength', label: 'Bridge', color: '#047857' }] }
+]
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 160
+const CHART_PADDING = { top: 10, right: 10, bottom: 20, left: 60 }
+const MAX_REPORT_POINTS = 300
+
+export function svgLineChart(chart: ReportChart, samples: TelemetrySample[]): string {
+  const points = downsample(samples, MAX_REPORT_POINTS)
+  const values = points.flatMap(sample => chart.series.map(series => sample[series.key])).filter((v): v is number => v !== null)
+  if (points.length < 2 || values.length === 0) return '<p class="muted">Not enough samples to plot.</p>'
+
+  const t0 = points[0].receivedAt
+  const t1 = points[points.length - 1].receivedAt
+  let min = Math.min(...values)
+  let max = Math.max(...values)
+  if (min === max) {
+    min -= 1
+    max += 1
+  }
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  const x = (time: number) => CHART_PADDING.left + ((time - t0) / Math.max(t1 - t0, 1)) * plotWidth
+  const y = (value: number) => CHART_PADDING.top + (1 - (value - min) / (max - min)) * plotHeight
+
+  // Gaps (portal not initialised) break the line rather than dropping to zero
+  const paths = chart.series.map(series => {
+    let d = ''
+    let pen = false
+    points.forEach(sample => {
+      const value = sample[series.key]
+      if (value === null) {
+        pen = false
+        return
+      }
+      d += `${pen ? 'L' : 'M'}${x(sample.receivedAt).toFixed(1)},${y(value).toFixed(1)}`
+      pen = true
+    })
+    return `<path d="${d}" fill="none" stroke="${series.color}" stroke-width="1.5"/>`
+  })
+
+  const bottom = CHART_HEIGHT - CHART_PADDING.bottom
+  return [
+    `<svg width="${CHART_WIDTH}" height="${CHART_HEIGHT}" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" xmlns="http://www.w3.org/2000/svg" font-size="10" font-family="sans-serif">`,
+    `<rect x="${CHART_PADDING.left}" y="${CHART_PADDING.top}" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="#d1d5db"/>`,
+    `<text x="${CHART_PADDING.left - 4}" y="${CHART_PADDING.top + 8}" text-anchor="end">${max.toFixed(chart.digits)}</text>`,
+    `<text x="${CHART_PADDING.left - 4}" y="${bottom}" text-anchor="end">${min.toFixed(chart.digits)}</text>`,
+    `<text x="${CHART_PADDING.left}" y="${CHART_HEIGHT - 4}">${clock(t0)}</text>`,
+    `<text x="${CHART_WIDTH - CHART_PADDING.right}" y="${CHART_HEIGHT - 4}" text-anchor="end">${clock(t1)}</text>`,
+    ...paths,
+    '</svg>'
+  ].join('')
+}
+
+const legend = (chart: ReportChart) =>
+  chart.series.map(series => `<span style="color:${series.color}">■ ${escapeHtml(series.label)}</span>`).join(' ')
+
+const htmlTable = ({ title, headers, rows }: ReportTable) =>
+  (title ? `<h3>${escapeHtml(title)}</h3>` : '') +
+  (rows.length === 0
+    ? '<p class="muted">None recorded.</p>'
+    : `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows
+        .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('')}</tbody></table>`)
+
+const REPORT_STYLE = `
+  body { font-family: sans-serif; color: #111827; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0; }
+  h2 { font-size: 1.1rem; border-bottom: 1px solid #d1d5db; margin-top: 1.5rem; }
+  h3 { font-size: 0.9rem; margin-bottom: 0.2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.75rem; }
+  th, td { border: 1px solid #d1d5db; padding: 2px 4px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .muted { color: #6b7280; font-size: 0.8rem; }
+  .chart { break-inside: avoid; }
+  @media print { .no-print { display: none; } body { margin: 0; } }
+`
+
+export function renderRunReportHtml(report: RunReportData): string {
+  const summary = summarizeRun(report)
+  const runId = escapeHtml(report.run_id)
+  const charts = report.samples.length > 0
+    ? REPORT_CHARTS.map(chart =>
+        `<div class="chart"><h3>${escapeHtml(chart.title)}</h3><div class="muted">${legend(chart)}</div>${svgLineChart(chart, report.samples)}</div>`
+      ).join('')
+    : '<p class="muted">No telemetry buffered for this run.</p>'
+
+  const sections = reportSections(summary).map(section =>
+    `<h2>${escapeHtml(section.title)}</h2>${section.telemetryCharts ? charts : ''}${section.tables.map(htmlTable).join('')}`
+  ).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Run report ${runId}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<button class="no-print" onclick="window.print()">Print</button>
+<h1>Stargate run report: ${runId}</h1>
+<p class="muted">Generated ${escapeHtml(stamp(report.generatedAt))} · ${report.samples.length} telemetry samples · ${report.logs.length} log entries</p>
+${sections}
+</body>
+</html>
+`
+}
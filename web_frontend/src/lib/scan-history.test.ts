@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { EMPTY_FRAME, type PortalFrame } from './frame-schema'
+import { requiredParameters } from './scan-history'
+import type { ScanRecord } from './simulation-store'
+
+const portal: PortalFrame = {
+  freq: 7.91,
+  stability: 0.95,
+  power: 1000,
+  energy: 12000,
+  floor_temp: -196,
+  floor_contact: true,
+  safety_status: true,
+  payload_volume: 0.1,
+  payload_mass: 75,
+  status_log: []
+}
+
+const frame = { ...EMPTY_FRAME, portal1: portal, portal2: portal }
+
+const scan = (frequency: number, energy: number): ScanRecord => ({
+  portal_id: 1,
+  timestamp: '2026-01-01T00:00:00',
+  measured: { frequency: 7.83, energy: 5000, stability: 0.95, volume: 0.1, mass: 75 },
+  required: { frequency, energy }
+})
+
+describe('requiredParameters', () => {
+  it('sets the scanned portal and keeps the other at its live values', () => {
+    expect(requiredParameters(scan(7.5, 8000), frame)).toEqual({
+      params: { frequency1: 7.5, energy1: 8000, frequency2: 7.91, energy2: 12000 },
+      unreachable: []
+    })
+  })
+
+  it('clamps to the accepted ranges and reports what cannot be met', () => {
+    const result = requiredParameters(scan(16.8, 25000), frame)
+    expect(result?.params).toMatchObject({ frequency1: 8.5, energy1: 20000 })
+    expect(result?.unreachable).toHaveLength(2)
+  })
+})
@@ -0,0 +1,147 @@
+import { z } from 'zod'
+import type { BridgeParameters, PortalId } from './api'
+import { scanRecordSchema } from './api-schemas'
+import { ENERGY_BOUNDS, FREQUENCY_BOUNDS } from './bridge-optimizer'
+import { portalPayloadSchema, type SimulationFrame } from './frame-schema'
+import { createPersistedStore } from './persisted-store'
+import { portalKey, type LoadedPayload, type PortalKey, type ScanRecord } from './simulation-store'
+
+const STORAGE_KEY = 'stargate-scan-history'
+export const MAX_SCANS_PER_PORTAL = 20
+
+export interface ScanHistoryEntry {
+  id: string;
+  scan: ScanRecord;
+  // What the loading bay had committed to the portal when the scan came back
+  expected: LoadedPayload | null;
+}
+
+export type ScanHistory = Record<PortalKey, ScanHistoryEntry[]>
+
+export interface ScanMismatch {
+  field: string;
+  expected: string;
+  scanned: string;
+}
+
+const EMPTY_HISTORY: ScanHistory = { portal1: [], portal2: [] }
+
+const scanEntrySchema = z.object({
+  id: z.string(),
+  scan: scanRecordSchema,
+  expected: portalPayloadSchema.nullable()
+}) satisfies z.ZodType<ScanHistoryEntry>
+
+const scanHistorySchema = z.object({
+  portal1: z.array(scanEntrySchema).default([]),
+  portal2: z.array(scanEntrySchema).default([])
+}) satisfies z.ZodType<ScanHistory>
+
+// Newest first per portal
+const store = createPersistedStore<ScanHistory>(STORAGE_KEY, 'scan history', scanHistorySchema, EMPTY_HISTORY)
+
+export const getScanHistory = store.get
+
+export const subscribeScanHistory = store.subscribe
+
+export function recordScan(scan: ScanRecord, expected: LoadedPayload | null) {
+  const key = portalKey(scan.portal_id)
+  const entry: ScanHistoryEntry = {
+    id: `scan_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    scan,
+    expected
+  }
+  const history = store.get()
+  store.set({ ...history, [key]: [entry, ...history[key]].slice(0, MAX_SCANS_PER_PORTAL) })
+  return entry
+}
+
+export function clearScanHistory(portal: PortalId) {
+  store.set({ ...store.get(), [portalKey(portal)]: [] })
+}
+
+// Payload values are rounded on the way in, so anything within 0.1% is the same payload
+const differs = (a: number, b: number) => Math.abs(a - b) > Math.max(Math.abs(a), Math.abs(b)) * 1e-3
+// The backend reports frequencies to 0.01 Hz
+const FREQUENCY_TOLERANCE = 0.01
+
+const describe = (payload: { type: string; mass: number } | null | undefined) =>
+  payload ? `${payload.type} - ${payload.mass} kg` : 'Empty'
+
+export function diffScan({ scan, expected }: ScanHistoryEntry): ScanMismatch[] {
+  if (scan.error) return []
+  const mismatches: ScanMismatch[] = []
+  // Older backends do not report the payload at all; only compare when they do
+  if (scan.payload !== undefined) {
+    const scanned = scan.payload
+    if (!expected || !scanned) {
+      if (expected || scanned) {
+        mismatches.push({ field: 'Payload', expected: describe(expected), scanned: describe(scanned) })
+      }
+    } else {
+      if (expected.type !== scanned.type) {
+        mismatches.push({ field: 'Material', expected: expected.type, scanned: scanned.type })
+      }
+      if (differs(expected.mass, scanned.mass)) {
+        mismatches.push({ field: 'Mass', expected: `${expected.mass} kg`, scanned: `${scanned.mass} kg` })
+      }
+      if (differs(expected.volume, scanned.volume)) {
+        mismatches.push({ field: 'Volume', expected: `${expected.volume} m³`, scanned: `${scanned.volume} m³` })
+      }
+      const expectedItems = expected.manifest?.length ?? 0
+      const scannedItems = scanned.manifest?.length ?? 0
+      if (expectedItems !== scannedItems) {
+        mismatches.push({ field: 'Manifest items', expected: String(expectedItems), scanned: String(scannedItems) })
+      }
+    }
+  }
+  if (scan.measured && scan.required) {
+    if (Math.abs(scan.measured.frequency - scan.required.frequency) > FREQUENCY_TOLERANCE) {
+      mismatches.push({
+        field: 'Frequency',
+        expected: `${scan.required.frequency.toFixed(2)} Hz`,
+        scanned: `${scan.measured.frequency.toFixed(2)} Hz`
+      })
+    }
+    if (scan.measured.energy < scan.required.energy) {
+      mismatches.push({
+        field: 'Energy',
+        expected: `≥ ${scan.required.energy.toFixed(0)} J`,
+        scanned: `${scan.measured.energy.toFixed(1)} J`
+      })
+    }
+  }
+  return mismatches
+}
+
+export interface RequiredParameters {
+  params: BridgeParameters;
+  // Requirements outside the range apply_optimal_parameters accepts; params holds the closest setting
+  unreachable: string[];
+}
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value))
+
+// The scanned portal gets its required frequency and at least the required energy (a portal
+// already above it keeps its charge), both clamped the way apply_optimal_parameters clamps
+// them. The other portal is sent its live values, though apply_optimal_parameters still runs
+// update_energy on both portals, so each gains one more second of power.
+export function requiredParameters(scan: ScanRecord, frame: SimulationFrame): RequiredParameters | null {
+  const other = frame[portalKey(scan.portal_id === 1 ? 2 : 1)]
+  if (!scan.required || !scan.measured || !other) return null
+  const frequency = clamp(scan.required.frequency, FREQUENCY_BOUNDS)
+  const energy = clamp(Math.max(scan.measured.energy, scan.required.energy), ENERGY_BOUNDS)
+  const unreachable: string[] = []
+  if (frequency !== scan.required.frequency) {
+    unreachable.push(
+      `Frequency ${scan.required.frequency.toFixed(2)} Hz is outside ${FREQUENCY_BOUNDS[0]}–${FREQUENCY_BOUNDS[1]} Hz`
+    )
+  }
+  if (energy < scan.required.energy) {
+    unreachable.push(`Energy ${scan.required.energy.toFixed(0)} J is above the ${ENERGY_BOUNDS[1]} J limit`)
+  }
+  const params = scan.portal_id === 1
+    ? { frequency1: frequency, energy1: energy, frequency2: other.freq, energy2: other.energy }
+    : { frequency1: other.freq, energy1: other.energy, frequency2: frequency, energy2: energy }
+  return { params, unreachable }
+}
@@ -0,0 +1,116 @@
+import type { SimulationFrame } from './frame-schema'
+
+const DB_NAME = 'portal-sessions'
+const DB_VERSION = 1
+const RUNS_STORE = 'runs'
+const FRAMES_STORE = 'frames'
+const RUN_INDEX = 'run_id'
+
+// Oldest runs are pruned once this many are stored
+export const MAX_RECORDED_RUNS = 20
+
+export interface RecordedRun {
+  run_id: string;
+  startedAt: number;
+  lastFrameAt: number;
+  frameCount: number;
+}
+
+export interface RecordedFrame {
+  run_id: string;
+  receivedAt: number;
+  frame: SimulationFrame;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore(RUNS_STORE, { keyPath: 'run_id' })
+        const frames = db.createObjectStore(FRAMES_STORE, { autoIncrement: true })
+        frames.createIndex(RUN_INDEX, 'run_id')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const deleteFrames = async (store: IDBObjectStore, runId: string) => {
+  const keys = await promisify(store.index(RUN_INDEX).getAllKeys(IDBKeyRange.only(runId)))
+  keys.forEach(key => store.delete(key))
+}
+
+async function pruneRuns(db: IDBDatabase) {
+  const runs = await listRecordedRuns()
+  const excess = runs.slice(MAX_RECORDED_RUNS)
+  if (excess.length === 0) return
+  const transaction = db.transaction([RUNS_STORE, FRAMES_STORE], 'readwrite')
+  for (const run of excess) {
+    transaction.objectStore(RUNS_STORE).delete(run.run_id)
+    await deleteFrames(transaction.objectStore(FRAMES_STORE), run.run_id)
+  }
+  await transactionDone(transaction)
+}
+
+// Frames without a run_id (before /api/initialize) are not recorded
+export async function recordFrame(frame: SimulationFrame, receivedAt: number) {
+  const runId = frame.run_id
+  if (!runId) return
+  const db = await openDatabase()
+  const transaction = db.transaction([RUNS_STORE, FRAMES_STORE], 'readwrite')
+  const runs = transaction.objectStore(RUNS_STORE)
+  const existing = await promisify<RecordedRun | undefined>(runs.get(runId))
+  runs.put({
+    run_id: runId,
+    startedAt: existing?.startedAt ?? receivedAt,
+    lastFrameAt: receivedAt,
+    frameCount: (existing?.frameCount ?? 0) + 1
+  } satisfies RecordedRun)
+  transaction.objectStore(FRAMES_STORE).add({ run_id: runId, receivedAt, frame } satisfies RecordedFrame)
+  await transactionDone(transaction)
+  if (!existing) await pruneRuns(db)
+}
+
+// Newest run first
+export async function listRecordedRuns(): Promise<RecordedRun[]> {
+  const db = await openDatabase()
+  const runs = await promisify<RecordedRun[]>(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).getAll())
+  return runs.sort((a, b) => b.startedAt - a.startedAt)
+}
+
+export async function loadRecordedFrames(runId: string): Promise<RecordedFrame[]> {
+  const db = await openDatabase()
+  const index = db.transaction(FRAMES_STORE).objectStore(FRAMES_STORE).index(RUN_INDEX)
+  const frames = await promisify<RecordedFrame[]>(index.getAll(IDBKeyRange.only(runId)))
+  return frames.sort((a, b) => a.receivedAt - b.receivedAt)
+}
+
+export async function deleteRecordedRun(runId: string) {
+  const db = await openDatabase()
+  const transaction = db.transaction([RUNS_STORE, FRAMES_STORE], 'readwrite')
+  transaction.objectStore(RUNS_STORE).delete(runId)
+  await deleteFrames(transaction.objectStore(FRAMES_STORE), runId)
+  await transactionDone(transaction)
+}
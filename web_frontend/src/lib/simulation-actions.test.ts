@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import * as api from './api'
+import { recordRunEvent, type RunEventBody } from './run-journal'
+import * as actions from './simulation-actions'
+
+vi.mock('./api', async importOriginal => ({
+  ...(await importOriginal<typeof import('./api')>()),
+  initialize: vi.fn(async () => ({ status: 'initialized', run_id: 'run_1' })),
+  loadPayload: vi.fn(async () => ({ status: 'success' })),
+  lockPortal: vi.fn(async () => ({ locked: true })),
+  unlockPortals: vi.fn(async () => ({ status: 'success' })),
+  applyOptimalParameters: vi.fn(async (params: api.BridgeParameters) => ({ applied_params: params, bridge_strength: 0.8 })),
+  transferPayload: vi.fn(async () => ({ bridge_strength: 0.8, transfer_result: { success: false, reason: 'weak bridge' } }))
+}))
+vi.mock('./run-journal', () => ({ recordRunEvent: vi.fn() }))
+vi.mock('./scan-history', () => ({ recordScan: vi.fn() }))
+
+const params: api.BridgeParameters = { frequency1: 7.83, frequency2: 7.83, energy1: 10000, energy2: 10000 }
+
+// Each operator step the run report is built from, and the journal event it must leave
+const JOURNALED: Record<string, [() => Promise<unknown>, RunEventBody['type']]> = {
+  initialize: [() => actions.initialize(), 'initialized'],
+  loadPayload: [() => actions.loadPayload(1, { type: 'standard', volume: 0.1, mass: 75 }), 'payload_loaded'],
+  lockPortal: [() => actions.lockPortal(1), 'lock'],
+  unlockPortals: [() => actions.unlockPortals(), 'unlocked'],
+  applyParameters: [() => actions.applyParameters(params), 'parameters_applied'],
+  transferPayload: [() => actions.transferPayload(), 'transfer']
+}
+
+// Actions the report deliberately leaves out: energy tweaks, optimizer probes and scans are
+// folded into the next applied parameters or kept in their own histories
+const NOT_JOURNALED = [
+  'controlEnergy',
+  'setEnergyLevel',
+  'probeParameters',
+  'formBridge',
+  'scanPortal',
+  'resetSystem',
+  'clearPayloads'
+]
+
+const MUTATING_API = [
+  'initialize',
+  'energyControl',
+  'applyOptimalParameters',
+  'formBridge',
+  'transferPayload',
+  'lockPortal',
+  'unlockPortals',
+  'loadPayload',
+  'scanPortal',
+  'resetSystem'
+]
+
+describe('simulation actions', () => {
+  beforeEach(() => {
+    vi.mocked(recordRunEvent).mockReset()
+  })
+
+  it('classifies every exported action as journaled or not', () => {
+    expect(Object.keys(actions).sort()).toEqual([...Object.keys(JOURNALED), ...NOT_JOURNALED].sort())
+  })
+
+  it.each(Object.entries(JOURNALED))('%s records a journal event', async (_name, [run, type]) => {
+    await run()
+    expect(recordRunEvent).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(recordRunEvent).mock.calls[0][0]).toMatchObject({ type })
+  })
+
+  // Panels that call the API directly skip the store and the journal, which is how locks and
+  // loads from the legacy panels went missing from the run report
+  it('is the only module that calls mutating API endpoints', () => {
+    const sources = import.meta.glob<string>(['../**/*.{ts,tsx}', '!../**/*.test.ts'], {
+      query: '?raw',
+      import: 'default',
+      eager: true
+    })
+    const direct = new RegExp(`\\bapi\\.(${MUTATING_API.join('|')})\\(`)
+    const named = new RegExp(`import\\s*{[^}]*\\b(${MUTATING_API.join('|')})\\b[^}]*}\\s*from\\s*'[./]*(lib/)?api'`)
+    const [own, others] = [
+      Object.entries(sources).filter(([path]) => path.endsWith('/simulation-actions.ts')),
+      Object.entries(sources).filter(([path]) => !path.endsWith('/simulation-actions.ts'))
+    ]
+    expect(own.length === 1 && direct.test(own[0][1])).toBe(true)
+    const offenders = others
+      .filter(([, source]) => direct.test(source) || named.test(source))
+      .map(([path]) => path)
+    expect(offenders).toEqual([])
+  })
+})
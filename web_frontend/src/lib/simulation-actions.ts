@@ -0,0 +1,160 @@
+import * as api from './api'
+import { recordRunEvent } from './run-journal'
+import { recordScan } from './scan-history'
+import { dispatch, getSimulationState, portalKey, type LoadedPayload, type ScanRecord } from './simulation-store'
+
+const MAX_PORTAL_ENERGY = 20000
+
+// Mirrors the energy arithmetic of /api/energy_control so panels update before the backend answers
+const predictEnergy = (current: number, command: api.EnergyControlRequest) => {
+  const amount = command.amount ?? 1000
+  switch (command.action) {
+    case 'on':
+      return Math.max(current, 1000)
+    case 'off':
+      return 0
+    case 'increase':
+      return Math.min(current + amount, MAX_PORTAL_ENERGY)
+    case 'decrease':
+      return Math.max(current - amount, 0)
+  }
+}
+
+export async function controlEnergy(command: api.EnergyControlRequest) {
+  const current = getSimulationState().view[portalKey(command.portal_id)]?.energy ?? 0
+  dispatch({ type: 'PORTAL_VALUES_REQUESTED', portal: command.portal_id, energy: predictEnergy(current, command) })
+  try {
+    const data = await api.energyControl(command)
+    dispatch({ type: 'PORTAL_VALUES_CONFIRMED', portal: command.portal_id, energy: data.new_energy })
+    dispatch({ type: 'BRIDGE_CONFIRMED', bridge_strength: data.bridge_strength })
+    if (command.action === 'on' || command.action === 'off') {
+      dispatch({ type: 'ENERGY_STATE_SET', portal: command.portal_id, energized: command.action === 'on' })
+    }
+    return data
+  } catch (error) {
+    dispatch({ type: 'PORTAL_VALUES_FAILED', portal: command.portal_id })
+    throw error
+  }
+}
+
+export async function setEnergyLevel(portal: api.PortalId, target: number) {
+  const current = getSimulationState().view[portalKey(portal)]?.energy ?? 0
+  const delta = Math.round(target - current)
+  if (delta === 0) return null
+  return controlEnergy({
+    portal_id: portal,
+    action: delta > 0 ? 'increase' : 'decrease',
+    amount: Math.abs(delta)
+  })
+}
+
+const sendParameters = async (params: api.BridgeParameters) => {
+  dispatch({ type: 'PORTAL_VALUES_REQUESTED', portal: 1, energy: params.energy1, freq: params.frequency1 })
+  dispatch({ type: 'PORTAL_VALUES_REQUESTED', portal: 2, energy: params.energy2, freq: params.frequency2 })
+  try {
+    const data = await api.applyOptimalParameters(params)
+    const applied = data.applied_params
+    dispatch({ type: 'PORTAL_VALUES_CONFIRMED', portal: 1, energy: applied.energy1, freq: applied.frequency1 })
+    dispatch({ type: 'PORTAL_VALUES_CONFIRMED', portal: 2, energy: applied.energy2, freq: applied.frequency2 })
+    dispatch({ type: 'BRIDGE_CONFIRMED', bridge_strength: data.bridge_strength })
+    return data
+  } catch (error) {
+    dispatch({ type: 'PORTAL_VALUES_FAILED', portal: 1 })
+    dispatch({ type: 'PORTAL_VALUES_FAILED', portal: 2 })
+    throw error
+  }
+}
+
+export async function applyParameters(params: api.BridgeParameters) {
+  const data = await sendParameters(params)
+  dispatch({ type: 'TRANSPORT_READY', ready: true })
+  recordRunEvent({ type: 'parameters_applied', params: data.applied_params, bridge_strength: data.bridge_strength })
+  return data
+}
+
+// Optimizer probes move the portals without being an operator decision, so they neither
+// mark the system ready for transport nor enter the run journal
+export const probeParameters = sendParameters
+
+export async function initialize(payloadVolume = 0.1, payloadMass = 75.0) {
+  const data = await api.initialize(payloadVolume, payloadMass)
+  recordRunEvent({ type: 'initialized', payload_volume: payloadVolume, payload_mass: payloadMass }, data.run_id)
+  return data
+}
+
+export async function formBridge(t = 1.0) {
+  const data = await api.formBridge(t)
+  dispatch({ type: 'BRIDGE_CONFIRMED', bridge_strength: data.bridge_strength })
+  return data
+}
+
+export async function transferPayload() {
+  const data = await api.transferPayload()
+  dispatch({ type: 'BRIDGE_CONFIRMED', bridge_strength: data.bridge_strength })
+  dispatch({
+    type: 'TRANSFER_COMPLETED',
+    transfer: { at: Date.now(), result: data.transfer_result, bridge_strength: data.bridge_strength }
+  })
+  recordRunEvent({ type: 'transfer', result: data.transfer_result, bridge_strength: data.bridge_strength })
+  if (data.transfer_result.success) {
+    dispatch({ type: 'PAYLOADS_CLEARED' })
+  }
+  return data
+}
+
+export async function lockPortal(portal: api.PortalId) {
+  try {
+    const data = await api.lockPortal(portal)
+    dispatch({ type: 'PORTAL_LOCKED', portal, locked: data.locked })
+    recordRunEvent({ type: 'lock', portal, locked: data.locked })
+    return data
+  } catch (error) {
+    dispatch({ type: 'PORTAL_LOCKED', portal, locked: false })
+    throw error
+  }
+}
+
+export async function unlockPortals() {
+  const data = await api.unlockPortals()
+  dispatch({ type: 'PORTALS_UNLOCKED' })
+  recordRunEvent({ type: 'unlocked' })
+  return data
+}
+
+export async function loadPayload(portal: api.PortalId, payload: LoadedPayload) {
+  const data = await api.loadPayload({
+    portal,
+    payload_type: payload.type,
+    payload_volume: payload.volume,
+    payload_mass: payload.mass,
+    manifest: payload.manifest
+  })
+  dispatch({ type: 'PAYLOAD_LOADED', portal, payload })
+  recordRunEvent({ type: 'payload_loaded', portal, payload })
+  return data
+}
+
+// Every scan is also kept in the per-portal scan history next to what was committed
+const completeScan = (scan: ScanRecord) => {
+  dispatch({ type: 'SCAN_COMPLETED', scan })
+  recordScan(scan, getSimulationState().controls[portalKey(scan.portal_id)].payload)
+}
+
+export async function scanPortal(portal: api.PortalId) {
+  try {
+    const data = await api.scanPortal(portal)
+    completeScan({ ...data, portal_id: portal, timestamp: new Date().toISOString() })
+    return data
+  } catch (error) {
+    completeScan({ error: `Scan failed: ${api.errorMessage(error)}`, portal_id: portal, timestamp: new Date().toISOString() })
+    throw error
+  }
+}
+
+export async function resetSystem() {
+  const data = await api.resetSystem()
+  dispatch({ type: 'SYSTEM_RESET' })
+  return data
+}
+
+export const clearPayloads = () => dispatch({ type: 'PAYLOADS_CLEARED' })
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { SimulationBackend } from './simulation-backend'
+
+describe('POST /api/load_payload', () => {
+  it.each([
+    ['a negative volume', { payload_volume: -1, payload_mass: 75 }],
+    ['a zero mass', { payload_volume: 0.1, payload_mass: 0 }]
+  ])('rejects %s without touching the portal', (_label, sizes) => {
+    const backend = new SimulationBackend()
+    backend.handle('POST', '/api/initialize')
+    const portal = backend.dualPortal!.portal1
+    const before = { payload: portal.payload, volume: portal.payload_volume, mass: portal.payload_mass, freq: portal.freq }
+
+    const response = backend.handle('POST', '/api/load_payload', {}, { portal: 1, payload_type: 'Gold', ...sizes })
+
+    expect(response.body).toMatchObject({ status: 'error' })
+    expect({ payload: portal.payload, volume: portal.payload_volume, mass: portal.payload_mass, freq: portal.freq }).toEqual(before)
+  })
+})
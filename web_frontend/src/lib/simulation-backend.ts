@@ -0,0 +1,546 @@
+import type * as api from './api'
+import { toCsv } from './export'
+import type { PortalFrame, SimulationFrame } from './frame-schema'
+import { DualPortal, SIMULATION_CONFIG, senseFrequency, type Portal, type TransferResult } from './simulation-model'
+
+// In-process stand-in for main.py: the same routes, response bodies and /ws frames,
+// backed by the TypeScript model instead of the FastAPI server. It has no browser or
+// network dependencies so it can run behind the offline mode as well as a dev server.
+
+export type RouteQuery = Record<string, string | undefined>
+
+export interface BackendResponse {
+  // HTTP status the FastAPI app would answer with; handler failures are still 200
+  status: number;
+  body: unknown;
+}
+
+interface HardwareState {
+  temp1: number;
+  temp2: number;
+  contact1: boolean;
+  contact2: boolean;
+  battery: api.BatteryStatus;
+  failsafe: boolean;
+}
+
+const LOG_STREAM_RECORDS = 10
+
+const error = (message: string, extra: Record<string, unknown> = {}) => ({ status: 'error', message, ...extra })
+
+const numberParam = (query: RouteQuery, key: string, fallback: number) => {
+  const value = query[key]
+  return value === undefined || value === '' ? fallback : Number(value)
+}
+
+const optionalNumberParam = (query: RouteQuery, key: string) => {
+  const value = query[key]
+  return value === undefined || value === '' ? undefined : Number(value)
+}
+
+const bodyValue = <T>(body: unknown, key: string, fallback: T): T => {
+  if (body && typeof body === 'object' && key in body) {
+    return (body as Record<string, T>)[key]
+  }
+  return fallback
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// main.py validate_manifest: the manifest is streamed in every frame, so a malformed one is never stored
+const manifestProblem = (manifest: unknown, volume: number, mass: number): string | null => {
+  if (!Array.isArray(manifest)) return 'manifest must be a list of items'
+  let totalVolume = 0
+  let totalMass = 0
+  for (const [index, item] of manifest.entries()) {
+    const label = `manifest item ${index + 1}`
+    if (!item || typeof item !== 'object') return `${label} must be an object`
+    const entry = item as Record<string, unknown>
+    if (typeof entry.material !== 'string' || !entry.material) return `${label}: material must be a non-empty string`
+    if (!Number.isInteger(entry.count) || (entry.count as number) < 1) return `${label}: count must be a whole number of at least 1`
+    for (const key of ['unit_volume', 'unit_mass'] as const) {
+      const value = entry[key]
+      if (!isNumber(value) || value <= 0) return `${label}: ${key} must be a positive number`
+    }
+    totalVolume += (entry.unit_volume as number) * (entry.count as number)
+    totalMass += (entry.unit_mass as number) * (entry.count as number)
+  }
+  if (Math.abs(totalVolume - volume) > Math.max(volume * 1e-3, 1e-4)) {
+    return `manifest volume ${totalVolume.toFixed(4)} m³ does not match payload_volume ${volume}`
+  }
+  if (Math.abs(totalMass - mass) > Math.max(mass * 1e-3, 0.01)) {
+    return `manifest mass ${totalMass.toFixed(2)} kg does not match payload_mass ${mass}`
+  }
+  return null
+}
+
+const portalFrame = (portal: Portal): PortalFrame => ({
+  freq: portal.freq,
+  stability: portal.stability,
+  power: portal.power,
+  energy: portal.energy,
+  floor_temp: portal.floor_temp,
+  floor_contact: portal.floor_contact,
+  safety_status: portal.safety_status,
+  payload_volume: portal.payload_volume,
+  payload_mass: portal.payload_mass,
+  payload: portal.payload,
+  status_log: portal.reportStatus()
+})
+
+export class SimulationBackend {
+  dualPortal: DualPortal | null = null
+  records: api.LogRecord[] = []
+  hardware: HardwareState = {
+    temp1: -196.0,
+    temp2: -196.0,
+    contact1: true,
+    contact2: true,
+    battery: { capacity_kWh: SIMULATION_CONFIG.tesla_battery_capacity, charge_pct: 100.0, failsafe_engaged: false },
+    failsafe: false
+  }
+
+  private logEvent(event: string, bridgeStrength: number, transferResult: TransferResult | null = null, extra = '') {
+    const dp = this.dualPortal
+    if (!dp) return
+    this.records.push({
+      timestamp: new Date().toISOString(),
+      event,
+      run_id: dp.run_id,
+      portal1_freq: dp.portal1.freq,
+      portal1_stab: dp.portal1.stability,
+      portal1_energy: dp.portal1.energy,
+      portal1_safety: dp.portal1.safety_status,
+      portal2_freq: dp.portal2.freq,
+      portal2_stab: dp.portal2.stability,
+      portal2_energy: dp.portal2.energy,
+      portal2_safety: dp.portal2.safety_status,
+      bridge_strength: bridgeStrength,
+      transfer_result: transferResult as api.TransferResult | null,
+      extra
+    })
+  }
+
+  // One /ws tick: like the backend loop, every frame adds a second of power to each portal
+  nextFrame(timestamp: number): SimulationFrame {
+    const dp = this.dualPortal
+    if (!dp) {
+      return {
+        status: 'disconnected',
+        portal1: null,
+        portal2: null,
+        bridge_strength: 0.0,
+        transfer_energy: 0.0,
+        detune: 0.0,
+        timestamp
+      }
+    }
+    dp.portal1.updateEnergy(1.0)
+    dp.portal2.updateEnergy(1.0)
+    return {
+      status: 'running',
+      run_id: dp.run_id,
+      portal1: portalFrame(dp.portal1),
+      portal2: portalFrame(dp.portal2),
+      bridge_strength: dp.bridge_strength,
+      transfer_energy: dp.transfer_energy,
+      detune: dp.detune,
+      status_log: [...dp.status_log],
+      timestamp
+    }
+  }
+
+  logsFrame(timestamp: number) {
+    return {
+      timestamp,
+      records: this.records.slice(-LOG_STREAM_RECORDS),
+      record_count: this.records.length
+    }
+  }
+
+  handle(method: 'GET' | 'POST', path: string, query: RouteQuery = {}, body?: unknown): BackendResponse {
+    const route = this.routes[`${method} ${path}`]
+    if (!route) return { status: 404, body: { detail: 'Not Found' } }
+    try {
+      return { status: 200, body: route(query, body) }
+    } catch (err) {
+      return { status: 200, body: error(err instanceof Error ? err.message : String(err)) }
+    }
+  }
+
+  private readonly routes: Record<string, (query: RouteQuery, body: unknown) => unknown> = {
+    'GET /': () => ({
+      message: 'Stargate Simulation API',
+      status: 'operational',
+      version: 'offline-model',
+      timestamp: new Date().toISOString()
+    }),
+
+    'GET /api/status': () => {
+      const dp = this.dualPortal
+      if (!dp) return { status: 'not_initialized' }
+      return {
+        status: 'ready',
+        run_id: dp.run_id,
+        portal1: { frequency: dp.portal1.freq, stability: dp.portal1.stability, energy: dp.portal1.energy, safety: dp.portal1.safety_status },
+        portal2: { frequency: dp.portal2.freq, stability: dp.portal2.stability, energy: dp.portal2.energy, safety: dp.portal2.safety_status },
+        bridge: { strength: dp.bridge_strength, detune: dp.detune },
+        hardware: { ...this.hardware, battery: { ...this.hardware.battery } }
+      } satisfies api.StatusResponse
+    },
+
+    'POST /api/initialize': (query) => {
+      const dp = new DualPortal(SIMULATION_CONFIG.resonance_frequency, SIMULATION_CONFIG.detune_default, SIMULATION_CONFIG.energy_rate)
+      dp.initializeRun({
+        payloadVolume: numberParam(query, 'payload_volume', 0.1),
+        payloadMass: numberParam(query, 'payload_mass', 75.0),
+        floorTemp1: this.hardware.temp1,
+        floorContact1: this.hardware.contact1,
+        floorTemp2: this.hardware.temp2,
+        floorContact2: this.hardware.contact2
+      })
+      this.dualPortal = dp
+      return { status: 'initialized', run_id: dp.run_id as string } satisfies api.InitializeResponse
+    },
+
+    'POST /api/update_energy': (query) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const dt = numberParam(query, 'dt', 1.0)
+      dp.portal1.updateEnergy(dt)
+      dp.portal2.updateEnergy(dt)
+      return { status: 'success', portal1_energy: dp.portal1.energy, portal2_energy: dp.portal2.energy, dt } satisfies api.UpdateEnergyResponse
+    },
+
+    'POST /api/form_bridge': (query) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const t = numberParam(query, 't', 1.0)
+      dp.portal1.updateEnergy(t)
+      dp.portal2.updateEnergy(t)
+      dp.formBridge(t)
+      return { status: 'success', bridge_strength: dp.bridge_strength, detune: dp.detune, time: t } satisfies api.FormBridgeResponse
+    },
+
+    'POST /api/transfer_payload': () => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const result = dp.transferPayload()
+      this.logEvent('API Transfer', dp.bridge_strength, result)
+      return {
+        status: 'success',
+        transfer_result: result as api.TransferResult,
+        bridge_strength: dp.bridge_strength,
+        portal1_safety: dp.portal1.safety_status,
+        portal2_safety: dp.portal2.safety_status
+      } satisfies api.TransferPayloadResponse
+    },
+
+    'POST /api/update_parameters': (query) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const frequency1 = optionalNumberParam(query, 'frequency1')
+      const frequency2 = optionalNumberParam(query, 'frequency2')
+      const detune = optionalNumberParam(query, 'detune')
+      const power1 = optionalNumberParam(query, 'power1')
+      const power2 = optionalNumberParam(query, 'power2')
+
+      if (frequency1 !== undefined) {
+        if (frequency1 < 1.0 || frequency1 > 100.0) return error('Frequency1 must be between 1-100 Hz')
+        dp.portal1.freq = frequency1
+      }
+      if (frequency2 !== undefined) {
+        if (frequency2 < 1.0 || frequency2 > 100.0) return error('Frequency2 must be between 1-100 Hz')
+        dp.portal2.freq = frequency2
+      }
+      if (detune !== undefined) {
+        if (detune < 0.01 || detune > 1.0) return error('Detune must be between 0.01-1.0 Hz')
+        dp.detune = detune
+      }
+      if (power1 !== undefined) {
+        if (power1 < 1000.0 || power1 > 15000.0) return error('Power1 must be between 1000-15000 W')
+        dp.portal1.power = power1
+      }
+      if (power2 !== undefined) {
+        if (power2 < 1000.0 || power2 > 15000.0) return error('Power2 must be between 1000-15000 W')
+        dp.portal2.power = power2
+      }
+      return {
+        status: 'success',
+        portal1_freq: dp.portal1.freq,
+        portal2_freq: dp.portal2.freq,
+        detune: dp.detune,
+        portal1_power: dp.portal1.power,
+        portal2_power: dp.portal2.power
+      } satisfies api.UpdateParametersResponse
+    },
+
+    'GET /api/safety_status': () => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const portalSafety = (portal: Portal): api.PortalSafety => ({
+        safety_status: portal.safety_status,
+        stability: portal.stability,
+        floor_temp: portal.floor_temp,
+        floor_contact: portal.floor_contact,
+        temp_threshold: SIMULATION_CONFIG.floor_temp_threshold
+      })
+      return {
+        status: 'success',
+        overall_safety: dp.portal1.safety_status && dp.portal2.safety_status,
+        portal1: portalSafety(dp.portal1),
+        portal2: portalSafety(dp.portal2),
+        hardware: {
+          battery_status: { ...this.hardware.battery },
+          failsafe_engaged: this.hardware.failsafe,
+          temp_sensor_1: this.hardware.temp1,
+          temp_sensor_2: this.hardware.temp2,
+          contact_sensor_1: this.hardware.contact1,
+          contact_sensor_2: this.hardware.contact2
+        }
+      } satisfies api.SafetyStatusResponse
+    },
+
+    // Like the Python logger, an empty log exports nothing
+    'GET /api/export/csv': () => ({
+      status: 'success',
+      filename: 'stargate_datalog.csv',
+      data: this.records.length > 0 ? toCsv(this.records) : null,
+      format: 'csv'
+    }) satisfies api.ExportResponse,
+
+    'GET /api/export/json': () => ({
+      status: 'success',
+      filename: 'stargate_auditlog.json',
+      data: this.records.length > 0 ? JSON.stringify(this.records, null, 4) : null,
+      format: 'json'
+    }) satisfies api.ExportResponse,
+
+    'GET /api/logs/events': () => ({ status: 'success', records: [...this.records], record_count: this.records.length }) satisfies api.LogEventsResponse,
+
+    'GET /api/logs/audit': () => ({ status: 'success', audit_trail: [...this.records], audit_count: this.records.length }) satisfies api.AuditTrailResponse,
+
+    'POST /api/logs/clear': () => {
+      this.records = []
+      return { status: 'success', message: 'All logs cleared' } satisfies api.ClearLogsResponse
+    },
+
+    'POST /api/scan_portal': (query) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Dual portal not initialized')
+      const portal = numberParam(query, 'portal', 1)
+      const portalObj = portal === 1 ? dp.portal1 : dp.portal2
+      const volume = portalObj.payload ? portalObj.payload.volume : portalObj.payload_volume
+      return {
+        status: 'success',
+        portal,
+        contents: `Portal ${portal} ready for transport`,
+        payload: portalObj.payload,
+        measured: {
+          frequency: portalObj.freq,
+          energy: portalObj.energy,
+          stability: portalObj.stability,
+          volume: portalObj.payload_volume,
+          mass: portalObj.payload_mass
+        },
+        required: {
+          frequency: volume > 0 ? senseFrequency(volume) : SIMULATION_CONFIG.resonance_frequency,
+          energy: SIMULATION_CONFIG.optimal_energy
+        },
+        required_params: {
+          frequency: `${portalObj.freq.toFixed(2)} Hz`,
+          energy: `${portalObj.energy.toFixed(1)} J`,
+          stability: portalObj.stability.toFixed(2)
+        },
+        recommendations: {
+          optimal_frequency: '30.0 Hz',
+          optimal_energy: `${SIMULATION_CONFIG.optimal_energy.toFixed(0)} J`,
+          payload_compatibility: 'All material types supported'
+        }
+      } satisfies api.ScanPortalResponse
+    },
+
+    'POST /api/lock_portal': (query) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Dual portal not initialized')
+      const portal = numberParam(query, 'portal', 1)
+      const portalObj = portal === 1 ? dp.portal1 : dp.portal2
+      if (portalObj.safety_status && portalObj.stability > 0.3) {
+        return {
+          status: 'success',
+          portal,
+          locked: true,
+          message: `Portal ${portal} locked and ready for transport`,
+          transport_ready: true
+        } satisfies api.LockPortalResponse
+      }
+      return error(`Portal ${portal} not stable enough for transport lock`, { portal, locked: false, transport_ready: false })
+    },
+
+    'POST /api/load_payload': (_query, body) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Dual portal not initialized')
+      const portal = bodyValue(body, 'portal', 1)
+      const type = bodyValue(body, 'payload_type', 'Gold')
+      const volume = bodyValue(body, 'payload_volume', 0.1)
+      const mass = bodyValue(body, 'payload_mass', 75.0)
+      if (typeof type !== 'string' || !isNumber(volume) || !isNumber(mass)) {
+        return error('payload_type must be a string and payload_volume/payload_mass numbers')
+      }
+      // sensePayload takes a cube root of the volume, so this is checked before anything is stored
+      if (volume <= 0 || mass <= 0) return error('payload_volume and payload_mass must be positive finite numbers')
+      const manifest = bodyValue<api.PayloadManifestEntry[] | null>(body, 'manifest', null)
+      const problem = manifest === null ? null : manifestProblem(manifest, volume, mass)
+      if (problem) return error(problem)
+      const portalObj = portal === 1 ? dp.portal1 : dp.portal2
+      portalObj.payload = { type, volume, mass, loaded: true }
+      if (manifest !== null) portalObj.payload.manifest = manifest
+      // Loading retunes the portal to its contents, the same way initialize_run does
+      portalObj.sensePayload(volume, mass)
+      this.logEvent('Payload Load', dp.bridge_strength, null, `Payload loaded into Portal ${portal}: ${type} (${mass}kg)`)
+      return {
+        status: 'success',
+        portal,
+        message: `Payload successfully loaded into Portal ${portal}`,
+        payload: { type, volume, mass, manifest }
+      } satisfies api.LoadPayloadResponse
+    },
+
+    'POST /api/reset_system': () => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      dp.portal1.energy = 0
+      dp.portal2.energy = 0
+      dp.bridge_strength = 0.0
+      dp.transfer_energy = 0
+      dp.portal1.safety_status = true
+      dp.portal2.safety_status = true
+      dp.portal1.payload = null
+      dp.portal2.payload = null
+      this.logEvent('System Reset', 0.0, null, 'System reset to idle state')
+      return {
+        success: true,
+        message: 'System reset to idle state - all energy cleared, gates unlocked',
+        portal1_energy: dp.portal1.energy,
+        portal2_energy: dp.portal2.energy,
+        bridge_strength: dp.bridge_strength
+      } satisfies api.ResetSystemResponse
+    },
+
+    'POST /api/energy_control': (_query, body) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const portalId = bodyValue(body, 'portal_id', 1)
+      const action = bodyValue<string>(body, 'action', 'on')
+      const amount = bodyValue(body, 'amount', 1000)
+      const portal = portalId === 1 ? dp.portal1 : dp.portal2
+
+      switch (action) {
+        case 'on':
+          portal.energy = Math.max(portal.energy, 1000)
+          break
+        case 'off':
+          portal.energy = 0
+          break
+        case 'increase':
+          portal.energy = Math.min(portal.energy + amount, 20000)
+          break
+        case 'decrease':
+          portal.energy = Math.max(portal.energy - amount, 0)
+          break
+        default:
+          throw new Error(`Invalid action: ${action}`)
+      }
+
+      dp.formBridge(1.0)
+      return {
+        success: true,
+        portal_id: portalId,
+        action: action as api.EnergyAction,
+        new_energy: portal.energy,
+        bridge_strength: dp.bridge_strength,
+        message: `Portal ${portalId} energy ${action}: ${portal.energy}J`
+      } satisfies api.EnergyControlResponse
+    },
+
+    'POST /api/unlock_portals': () => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      dp.portal1.safety_status = true
+      dp.portal2.safety_status = true
+      this.logEvent('Portal Unlock', dp.bridge_strength, null, 'All portals unlocked')
+      return {
+        success: true,
+        message: 'All portals unlocked and reset to default state',
+        portal1_status: 'UNLOCKED',
+        portal2_status: 'UNLOCKED'
+      } satisfies api.UnlockPortalsResponse
+    },
+
+    'POST /api/apply_optimal_parameters': (_query, body) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Dual portal not initialized')
+      dp.portal1.freq = clamp(bodyValue(body, 'frequency1', 7.83), 7.0, 8.5)
+      dp.portal2.freq = clamp(bodyValue(body, 'frequency2', 7.91), 7.0, 8.5)
+      dp.portal1.energy = clamp(bodyValue(body, 'energy1', 10000.0), 100.0, 20000.0)
+      dp.portal2.energy = clamp(bodyValue(body, 'energy2', 10000.0), 100.0, 20000.0)
+      dp.portal1.updateEnergy(1.0)
+      dp.portal2.updateEnergy(1.0)
+      dp.formBridge(1.0)
+      return {
+        status: 'success',
+        message: 'Optimal parameters applied successfully',
+        applied_params: {
+          frequency1: dp.portal1.freq,
+          frequency2: dp.portal2.freq,
+          energy1: dp.portal1.energy,
+          energy2: dp.portal2.energy
+        },
+        bridge_strength: dp.bridge_strength
+      } satisfies api.ApplyOptimalParametersResponse
+    },
+
+    'POST /api/parameter_sweep': (query) => {
+      const dp = this.dualPortal
+      if (!dp) return error('Simulation not initialized')
+      const energyRange = numberParam(query, 'energy_range', 1000)
+      const freqRange = numberParam(query, 'freq_range', 0.5)
+      const steps = 10
+      const base = { freq1: dp.portal1.freq, freq2: dp.portal2.freq, energy1: dp.portal1.energy, energy2: dp.portal2.energy }
+      const results: api.SweepResult[] = []
+
+      for (let i = 0; i < steps; i++) {
+        for (let j = 0; j < steps; j++) {
+          const frequency1 = clamp(base.freq1 + (freqRange * (i - steps / 2)) / steps, 7.0, 8.5)
+          const frequency2 = clamp(base.freq2 + (freqRange * (j - steps / 2)) / steps, 7.0, 8.5)
+          const energy1 = clamp(base.energy1 + (energyRange * (i - steps / 2)) / steps, 100.0, 20000.0)
+          const energy2 = clamp(base.energy2 + (energyRange * (j - steps / 2)) / steps, 100.0, 20000.0)
+
+          // Each point is evaluated on the live model and then rolled back, as main.py does
+          const original = { freq1: dp.portal1.freq, freq2: dp.portal2.freq, energy1: dp.portal1.energy, energy2: dp.portal2.energy }
+          dp.portal1.freq = frequency1
+          dp.portal2.freq = frequency2
+          dp.portal1.energy = energy1
+          dp.portal2.energy = energy2
+          dp.portal1.updateEnergy(1.0)
+          dp.portal2.updateEnergy(1.0)
+          dp.formBridge(1.0)
+          results.push({ frequency1, frequency2, energy1, energy2, bridge_strength: dp.bridge_strength, step: results.length })
+          dp.portal1.freq = original.freq1
+          dp.portal2.freq = original.freq2
+          dp.portal1.energy = original.energy1
+          dp.portal2.energy = original.energy2
+        }
+      }
+
+      return {
+        status: 'success',
+        results,
+        best_result: results.reduce((best, current) => (current.bridge_strength > best.bridge_strength ? current : best)),
+        sweep_parameters: { energy_range: energyRange, freq_range: freqRange, steps }
+      } satisfies api.ParameterSweepResponse
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { DualPortal, Portal, bridgeStrength, senseFrequency, transferEnergy, type BridgeInputs } from './simulation-model'
+
+// Expected values were produced by running portal.py and dualportal.py with the same inputs
+
+const bridge = (overrides: Partial<BridgeInputs> = {}) =>
+  bridgeStrength({
+    energy1: 10000,
+    energy2: 10000,
+    stability1: 1.0,
+    stability2: 1.0,
+    safety1: true,
+    safety2: true,
+    detune: 0.08,
+    ...overrides
+  })
+
+const dualPortal = (energy1: number, energy2: number, energyInput?: number) => {
+  const dp = new DualPortal()
+  dp.portal1.energy = energy1
+  dp.portal2.energy = energy2
+  dp.formBridge(1.0, energyInput)
+  return dp
+}
+
+describe('senseFrequency', () => {
+  it('caps the retuned frequency at the resonance frequency', () => {
+    expect(senseFrequency(0.1)).toBe(7.83)
+    expect(senseFrequency(0.5)).toBe(7.83)
+    expect(senseFrequency(1.0)).toBe(7.83)
+    expect(senseFrequency(0.001)).toBe(7.83)
+  })
+
+  it('lowers the frequency for payloads above 1 m³', () => {
+    expect(senseFrequency(2.0)).toBeCloseTo(6.214675118455501, 12)
+  })
+})
+
+describe('bridgeStrength', () => {
+  it('matches form_bridge at the default detune', () => {
+    expect(bridge()).toBeCloseTo(0.9898862199747156, 12)
+  })
+
+  it('weakens the bridge as the detune grows', () => {
+    expect(bridge({ detune: 0.5 })).toBeCloseTo(0.9399759903961585, 12)
+  })
+
+  it('uses the weaker portal energy as the default input', () => {
+    expect(bridge({ energy2: 8000 })).toBeCloseTo(0.7919089759797725, 12)
+    expect(bridge({ energyInput: 5000 })).toBeCloseTo(0.4949431099873578, 12)
+  })
+
+  it('degrades by 30% when either stability is below 0.9', () => {
+    expect(bridge({ stability2: 0.8 })).toBeCloseTo(0.6929203539823009, 12)
+    expect(bridge({ stability1: 0.85 })).toBeCloseTo(0.7, 12)
+  })
+
+  it('blocks the bridge on a safety failure or without energy', () => {
+    expect(bridge({ safety2: false })).toBe(0)
+    expect(bridge({ safety1: false })).toBe(0)
+    expect(bridge({ energy1: 0, energy2: 0 })).toBe(0)
+  })
+})
+
+describe('transferEnergy', () => {
+  it('delivers 80% of the weaker portal energy scaled by the bridge strength', () => {
+    expect(transferEnergy(10000, 10000, 0.9898862199747156)).toBeCloseTo(7919.0897597977255, 9)
+    expect(transferEnergy(10000, 8000, 0.7919089759797725)).toBeCloseTo(5068.217446270544, 9)
+  })
+})
+
+describe('DualPortal.transferPayload', () => {
+  it('consumes 10% of the transferred energy from both portals', () => {
+    const dp = dualPortal(10000, 8000)
+    const result = dp.transferPayload()
+    expect(result).toMatchObject({ success: true, payloads_cleared: true, system_reset: true })
+    if (!result.success) throw new Error('expected a successful transfer')
+    expect(result.energy_transferred).toBeCloseTo(5068.217446270544, 9)
+    expect(result.energy_consumed).toBeCloseTo(506.82174462705444, 9)
+    expect(dp.portal1.energy).toBeCloseTo(9493.178255372946, 9)
+    expect(dp.portal2.energy).toBeCloseTo(7493.178255372945, 9)
+    expect(dp.bridge_strength).toBe(0)
+  })
+
+  it('needs more than 100 J of transfer energy', () => {
+    const justEnough = dualPortal(150, 150).transferPayload()
+    expect(justEnough.success).toBe(true)
+    if (justEnough.success) expect(justEnough.energy_transferred).toBeCloseTo(118.78634639696588, 9)
+
+    const dp = dualPortal(100, 100)
+    expect(dp.transferPayload()).toEqual({ success: false, reason: 'Insufficient transfer energy' })
+    expect(dp.portal1.energy).toBe(100)
+    expect(dp.portal2.energy).toBe(100)
+  })
+
+  it('refuses a bridge weaker than 0.5', () => {
+    expect(dualPortal(10000, 10000, 5000).transferPayload()).toEqual({ success: false, reason: 'Insufficient bridge strength' })
+  })
+})
+
+describe('Portal.floorSensor', () => {
+  const sensed = (temp: number, contact: boolean) => {
+    const portal = new Portal()
+    portal.floorSensor(temp, contact)
+    return { safety: portal.safety_status, stability: portal.stability }
+  }
+
+  it('keeps a cold, grounded floor safe', () => {
+    expect(sensed(-196.0, true)).toEqual({ safety: true, stability: 1.0 })
+  })
+
+  it('multiplies stability by 0.7 for a warm floor and 0.8 for lost contact', () => {
+    expect(sensed(-150.0, true)).toEqual({ safety: false, stability: 0.7 })
+    expect(sensed(-196.0, false)).toEqual({ safety: false, stability: 0.8 })
+    const both = sensed(-150.0, false)
+    expect(both.safety).toBe(false)
+    expect(both.stability).toBeCloseTo(0.5599999999999999, 12)
+  })
+})
@@ -0,0 +1,238 @@
+// TypeScript port of portal.py / dualportal.py. Formulas, defaults and status_log
+// wording follow the Python model so offline frames match what /ws would send.
+
+import type { PayloadManifestEntry } from './api'
+
+export const SIMULATION_CONFIG = {
+  resonance_frequency: 7.83,
+  energy_rate: 5000.0,
+  subject_volume: 0.1,
+  floor_temp_threshold: -195.79,
+  tesla_battery_capacity: 13.5,
+  detune_default: 0.08,
+  optimal_energy: 10000.0
+} as const
+
+export const MIN_TRANSFER_BRIDGE_STRENGTH = 0.5
+export const TRANSFER_EFFICIENCY = 0.8
+export const MIN_TRANSFER_ENERGY = 100
+export const TRANSFER_ENERGY_COST = 0.1
+export const STABILITY_THRESHOLD = 0.9
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+export const senseFrequency = (volume: number) =>
+  Math.min(SIMULATION_CONFIG.resonance_frequency, SIMULATION_CONFIG.resonance_frequency / Math.pow(volume, 1 / 3))
+
+export interface BridgeInputs {
+  energy1: number;
+  energy2: number;
+  stability1: number;
+  stability2: number;
+  safety1: boolean;
+  safety2: boolean;
+  detune: number;
+  energyInput?: number;
+}
+
+// DualPortal.form_bridge without the logging side effects
+export function bridgeStrength({ energy1, energy2, stability1, stability2, safety1, safety2, detune, energyInput }: BridgeInputs) {
+  const input = energyInput ?? Math.min(energy1, energy2)
+  const minEnergy = energy1 * (1 + Math.abs(detune) / SIMULATION_CONFIG.resonance_frequency)
+  let strength = minEnergy > 0 ? clamp(input / (minEnergy * stability1), 0, 1) : 0
+  if (stability1 < STABILITY_THRESHOLD || stability2 < STABILITY_THRESHOLD) strength *= 0.7
+  if (!(safety1 && safety2)) strength = 0
+  return strength
+}
+
+export const transferEnergy = (energy1: number, energy2: number, strength: number) =>
+  Math.min(energy1, energy2) * strength * TRANSFER_EFFICIENCY
+
+export interface PortalPayload {
+  type: string;
+  volume: number;
+  mass: number;
+  loaded: boolean;
+  manifest?: PayloadManifestEntry[];
+}
+
+export class Portal {
+  freq: number
+  damping = 5e-12
+  power: number
+  stability = 1.0
+  energy = 0.0
+  payload_volume: number = SIMULATION_CONFIG.subject_volume
+  payload_mass = 75.0
+  floor_temp: number = SIMULATION_CONFIG.floor_temp_threshold
+  floor_contact = SIMULATION_CONFIG.floor_temp_threshold < -100
+  safety_status = true
+  payload: PortalPayload | null = null
+  status_log: string[] = []
+
+  constructor(freq: number = SIMULATION_CONFIG.resonance_frequency, power: number = SIMULATION_CONFIG.energy_rate) {
+    this.freq = freq
+    this.power = power
+  }
+
+  // Like the Python version, falsy arguments (including 0) leave the current value in place
+  sensePayload(volume?: number | null, mass?: number | null) {
+    if (volume) this.payload_volume = volume
+    if (mass) this.payload_mass = mass
+    this.freq = senseFrequency(this.payload_volume)
+    this.status_log.push(
+      `[INFO] Payload sensed: volume=${this.payload_volume.toFixed(3)} m³, mass=${this.payload_mass.toFixed(1)} kg. New freq=${this.freq.toFixed(4)} Hz.`
+    )
+  }
+
+  updateEnergy(dt = 1.0) {
+    const energyAdd = this.power * dt
+    this.energy += energyAdd
+    this.status_log.push(`[INFO] Energy updated by ${energyAdd.toFixed(2)} J, total=${this.energy.toFixed(2)} J.`)
+  }
+
+  floorSensor(temp?: number | null, contact?: boolean | null) {
+    if (temp !== undefined && temp !== null) this.floor_temp = temp
+    if (contact !== undefined && contact !== null) this.floor_contact = contact
+    if (this.floor_temp > SIMULATION_CONFIG.floor_temp_threshold) {
+      this.safety_status = false
+      this.stability *= 0.7
+      this.status_log.push(
+        `[WARN] Floor temperature ${this.floor_temp.toFixed(2)} °C exceeds safe threshold! Stability dropped to ${this.stability.toFixed(2)}.`
+      )
+    }
+    if (!this.floor_contact) {
+      this.safety_status = false
+      this.stability *= 0.8
+      this.status_log.push(`[WARN] Floor contact lost; unsafe for transfer. Stability dropped to ${this.stability.toFixed(2)}.`)
+    }
+    if (this.safety_status) {
+      this.status_log.push('[INFO] Floor/coolant sensors OK.')
+    }
+  }
+
+  reset() {
+    this.energy = 0.0
+    this.stability = 1.0
+    this.safety_status = true
+    this.status_log = ['[INFO] Portal reset for new run.']
+  }
+
+  reportStatus() {
+    return [...this.status_log]
+  }
+}
+
+export interface TransferResult {
+  success: boolean;
+  reason?: string;
+  energy_transferred?: number;
+  energy_consumed?: number;
+  payloads_cleared?: boolean;
+  system_reset?: boolean;
+}
+
+export interface RunSensors {
+  payloadVolume?: number | null;
+  payloadMass?: number | null;
+  floorTemp1?: number | null;
+  floorContact1?: boolean | null;
+  floorTemp2?: number | null;
+  floorContact2?: boolean | null;
+}
+
+export class DualPortal {
+  portal1: Portal
+  portal2: Portal
+  detune: number
+  bridge_strength = 0.0
+  transfer_energy = 0.0
+  status_log: string[] = []
+  run_id: string | null = null
+
+  constructor(
+    freq1: number = SIMULATION_CONFIG.resonance_frequency,
+    detune: number = SIMULATION_CONFIG.detune_default,
+    power: number = SIMULATION_CONFIG.energy_rate
+  ) {
+    this.portal1 = new Portal(freq1, power)
+    this.portal2 = new Portal(freq1 + detune, power)
+    this.detune = detune
+  }
+
+  initializeRun(sensors: RunSensors = {}) {
+    this.portal1.reset()
+    this.portal2.reset()
+    this.portal1.sensePayload(sensors.payloadVolume, sensors.payloadMass)
+    this.portal2.sensePayload(sensors.payloadVolume, sensors.payloadMass)
+    this.portal1.floorSensor(sensors.floorTemp1, sensors.floorContact1)
+    this.portal2.floorSensor(sensors.floorTemp2, sensors.floorContact2)
+    this.run_id = `run_${Math.floor(Math.random() * 1e6)}`
+    this.status_log = [`[INFO] Run ${this.run_id} initialized.`]
+  }
+
+  formBridge(_t: number, energyInput?: number) {
+    const input = energyInput ?? Math.min(this.portal1.energy, this.portal2.energy)
+    this.transfer_energy = input
+    this.bridge_strength = bridgeStrength({
+      energy1: this.portal1.energy,
+      energy2: this.portal2.energy,
+      stability1: this.portal1.stability,
+      stability2: this.portal2.stability,
+      safety1: this.portal1.safety_status,
+      safety2: this.portal2.safety_status,
+      detune: this.detune,
+      energyInput: input
+    })
+    if (this.portal1.stability < STABILITY_THRESHOLD || this.portal2.stability < STABILITY_THRESHOLD) {
+      this.status_log.push('[WARN] Portal stability below threshold—bridge degraded.')
+    }
+    if (!(this.portal1.safety_status && this.portal2.safety_status)) {
+      this.status_log.push('[ERROR] Safety failure—bridge formation blocked.')
+    }
+    if (this.bridge_strength >= 0.95) {
+      this.status_log.push('[INFO] Bridge formed at maximum strength.')
+    } else {
+      this.status_log.push(`[INFO] Bridge strength updated: ${this.bridge_strength.toFixed(2)}`)
+    }
+  }
+
+  transferPayload(): TransferResult {
+    if (this.bridge_strength < MIN_TRANSFER_BRIDGE_STRENGTH) {
+      this.status_log.push(`TRANSFER FAIL: Bridge strength ${this.bridge_strength.toFixed(3)} < 0.5 minimum`)
+      return { success: false, reason: 'Insufficient bridge strength' }
+    }
+
+    this.transfer_energy = transferEnergy(this.portal1.energy, this.portal2.energy, this.bridge_strength)
+
+    if (this.transfer_energy <= MIN_TRANSFER_ENERGY) {
+      this.status_log.push(`TRANSFER FAIL: Insufficient transfer energy ${this.transfer_energy.toFixed(1)}J`)
+      return { success: false, reason: 'Insufficient transfer energy' }
+    }
+
+    const energyConsumed = this.transfer_energy * TRANSFER_ENERGY_COST
+    this.portal1.energy = Math.max(0, this.portal1.energy - energyConsumed)
+    this.portal2.energy = Math.max(0, this.portal2.energy - energyConsumed)
+    this.portal1.payload = null
+    this.portal2.payload = null
+    this.bridge_strength = 0.0
+
+    this.status_log.push(`TRANSFER SUCCESS: ${this.transfer_energy.toFixed(1)}J transferred - payloads cleared`)
+    return {
+      success: true,
+      energy_transferred: this.transfer_energy,
+      energy_consumed: energyConsumed,
+      payloads_cleared: true,
+      system_reset: true
+    }
+  }
+
+  reset() {
+    this.portal1.reset()
+    this.portal2.reset()
+    this.bridge_strength = 0.0
+    this.transfer_energy = 0.0
+    this.status_log = []
+    this.run_id = null
+  }
+}
@@ -0,0 +1,308 @@
+import type { PayloadManifestEntry, PortalId, ScanPortalResponse, TransferResult } from './api'
+import { EMPTY_FRAME, MAX_QUARANTINED_FRAMES, type PortalFrame, type QuarantinedFrame, type SimulationFrame } from './frame-schema'
+import { createStore } from './persisted-store'
+import type { RecordedFrame } from './session-recorder'
+import { MAX_HISTORY_SAMPLES, appendSample, toSample, type TelemetrySample } from './telemetry-history'
+
+export type PortalKey = 'portal1' | 'portal2'
+
+export const portalKey = (portal: PortalId): PortalKey => (portal === 1 ? 'portal1' : 'portal2')
+
+export type LockState = 'UNLOCKED' | 'LOCKED'
+
+export interface LoadedPayload {
+  type: string;
+  volume: number;
+  mass: number;
+  // Present for composite payloads; volume and mass are then the manifest totals
+  manifest?: PayloadManifestEntry[];
+}
+
+export interface ScanRecord extends Partial<ScanPortalResponse> {
+  portal_id: PortalId;
+  timestamp: string;
+  error?: string;
+}
+
+export interface TransferRecord {
+  at: number;
+  result: TransferResult;
+  bridge_strength: number;
+}
+
+export interface PortalControls {
+  energized: boolean;
+  lock: LockState;
+  payload: LoadedPayload | null;
+  scan: ScanRecord | null;
+}
+
+// A value set from a REST call that the /ws stream has not reflected yet. Once the
+// backend has confirmed it, the next frame replaces it with the authoritative value.
+export interface PendingValue {
+  value: number;
+  confirmed: boolean;
+}
+
+export interface PendingPortal {
+  energy?: PendingValue;
+  freq?: PendingValue;
+}
+
+export interface SimulationState {
+  frame: SimulationFrame;
+  view: SimulationFrame;
+  history: TelemetrySample[];
+  quarantinedFrames: QuarantinedFrame[];
+  pending: Record<PortalKey, PendingPortal> & { bridge_strength?: PendingValue };
+  controls: Record<PortalKey, PortalControls>;
+  lastScanPortal: PortalId | null;
+  transportReady: boolean;
+  lastTransfer: TransferRecord | null;
+  // While set, live frames are ignored and the frame/history come from a recorded run
+  replayRunId: string | null;
+}
+
+export type Action =
+  | { type: 'FRAME_RECEIVED'; frame: SimulationFrame; receivedAt: number }
+  | { type: 'FRAME_QUARANTINED'; quarantined: QuarantinedFrame }
+  | { type: 'QUARANTINE_CLEARED' }
+  | { type: 'PORTAL_VALUES_REQUESTED'; portal: PortalId; energy?: number; freq?: number }
+  | { type: 'PORTAL_VALUES_CONFIRMED'; portal: PortalId; energy?: number; freq?: number }
+  | { type: 'PORTAL_VALUES_FAILED'; portal: PortalId }
+  | { type: 'BRIDGE_CONFIRMED'; bridge_strength: number }
+  | { type: 'ENERGY_STATE_SET'; portal: PortalId; energized: boolean }
+  | { type: 'PORTAL_LOCKED'; portal: PortalId; locked: boolean }
+  | { type: 'PORTALS_UNLOCKED' }
+  | { type: 'PAYLOAD_LOADED'; portal: PortalId; payload: LoadedPayload }
+  | { type: 'PAYLOADS_CLEARED' }
+  | { type: 'SCAN_COMPLETED'; scan: ScanRecord }
+  | { type: 'TRANSPORT_READY'; ready: boolean }
+  | { type: 'TRANSFER_COMPLETED'; transfer: TransferRecord }
+  | { type: 'SYSTEM_RESET' }
+  | { type: 'REPLAY_STARTED'; run_id: string }
+  | { type: 'REPLAY_FRAME'; recorded: RecordedFrame }
+  | { type: 'REPLAY_SEEKED'; recorded: RecordedFrame[] }
+  | { type: 'REPLAY_STOPPED' }
+
+const EMPTY_CONTROLS: PortalControls = { energized: false, lock: 'UNLOCKED', payload: null, scan: null }
+
+const initialState: SimulationState = {
+  frame: EMPTY_FRAME,
+  view: EMPTY_FRAME,
+  history: [],
+  quarantinedFrames: [],
+  pending: { portal1: {}, portal2: {} },
+  controls: { portal1: EMPTY_CONTROLS, portal2: EMPTY_CONTROLS },
+  lastScanPortal: null,
+  transportReady: false,
+  lastTransfer: null,
+  replayRunId: null
+}
+
+const applyPendingPortal = (portal: PortalFrame | null, pending: PendingPortal): PortalFrame | null => {
+  if (!portal) return portal
+  if (!pending.energy && !pending.freq) return portal
+  return {
+    ...portal,
+    energy: pending.energy ? pending.energy.value : portal.energy,
+    freq: pending.freq ? pending.freq.value : portal.freq
+  }
+}
+
+const buildView = (frame: SimulationFrame, pending: SimulationState['pending']): SimulationFrame => {
+  if (!pending.portal1.energy && !pending.portal1.freq && !pending.portal2.energy && !pending.portal2.freq && !pending.bridge_strength) {
+    return frame
+  }
+  return {
+    ...frame,
+    portal1: applyPendingPortal(frame.portal1, pending.portal1),
+    portal2: applyPendingPortal(frame.portal2, pending.portal2),
+    bridge_strength: pending.bridge_strength ? pending.bridge_strength.value : frame.bridge_strength
+  }
+}
+
+const keepUnconfirmed = (value?: PendingValue) => (value && !value.confirmed ? value : undefined)
+
+const withPending = (state: SimulationState, pending: SimulationState['pending']): SimulationState => ({
+  ...state,
+  pending,
+  view: buildView(state.frame, pending)
+})
+
+const mapPending = (value: number | undefined, confirmed: boolean, previous?: PendingValue) =>
+  value === undefined ? previous : { value, confirmed }
+
+export const reducer = (state: SimulationState, action: Action): SimulationState => {
+  switch (action.type) {
+    case 'FRAME_RECEIVED': {
+      if (state.replayRunId !== null) return state
+      const runChanged = action.frame.run_id !== state.frame.run_id && state.frame.run_id !== undefined
+      const pending = {
+        portal1: { energy: keepUnconfirmed(state.pending.portal1.energy), freq: keepUnconfirmed(state.pending.portal1.freq) },
+        portal2: { energy: keepUnconfirmed(state.pending.portal2.energy), freq: keepUnconfirmed(state.pending.portal2.freq) },
+        bridge_strength: keepUnconfirmed(state.pending.bridge_strength)
+      }
+      return {
+        ...state,
+        frame: action.frame,
+        view: buildView(action.frame, pending),
+        pending,
+        history: appendSample(state.history, toSample(action.frame, action.receivedAt)),
+        controls: runChanged ? initialState.controls : state.controls,
+        transportReady: runChanged ? false : state.transportReady
+      }
+    }
+
+    case 'FRAME_QUARANTINED':
+      return {
+        ...state,
+        quarantinedFrames: [...state.quarantinedFrames, action.quarantined].slice(-MAX_QUARANTINED_FRAMES)
+      }
+
+    case 'QUARANTINE_CLEARED':
+      return { ...state, quarantinedFrames: [] }
+
+    case 'PORTAL_VALUES_REQUESTED':
+    case 'PORTAL_VALUES_CONFIRMED': {
+      const key = portalKey(action.portal)
+      const confirmed = action.type === 'PORTAL_VALUES_CONFIRMED'
+      const previous = state.pending[key]
+      return withPending(state, {
+        ...state.pending,
+        [key]: {
+          energy: mapPending(action.energy, confirmed, previous.energy),
+          freq: mapPending(action.freq, confirmed, previous.freq)
+        }
+      })
+    }
+
+    case 'PORTAL_VALUES_FAILED':
+      return withPending(state, { ...state.pending, [portalKey(action.portal)]: {} })
+
+    case 'BRIDGE_CONFIRMED':
+      return withPending(state, { ...state.pending, bridge_strength: { value: action.bridge_strength, confirmed: true } })
+
+    case 'ENERGY_STATE_SET': {
+      const key = portalKey(action.portal)
+      return {
+        ...state,
+        controls: { ...state.controls, [key]: { ...state.controls[key], energized: action.energized } }
+      }
+    }
+
+    case 'PORTAL_LOCKED': {
+      const key = portalKey(action.portal)
+      return {
+        ...state,
+        controls: {
+          ...state.controls,
+          [key]: { ...state.controls[key], lock: action.locked ? 'LOCKED' : 'UNLOCKED' }
+        }
+      }
+    }
+
+    case 'PORTALS_UNLOCKED':
+      return {
+        ...state,
+        controls: {
+          portal1: { ...state.controls.portal1, lock: 'UNLOCKED' },
+          portal2: { ...state.controls.portal2, lock: 'UNLOCKED' }
+        },
+        transportReady: false
+      }
+
+    case 'PAYLOAD_LOADED': {
+      const key = portalKey(action.portal)
+      return {
+        ...state,
+        controls: { ...state.controls, [key]: { ...state.controls[key], payload: action.payload } }
+      }
+    }
+
+    case 'PAYLOADS_CLEARED':
+      return {
+        ...state,
+        controls: {
+          portal1: { ...state.controls.portal1, payload: null },
+          portal2: { ...state.controls.portal2, payload: null }
+        }
+      }
+
+    case 'SCAN_COMPLETED': {
+      const key = portalKey(action.scan.portal_id)
+      return {
+        ...state,
+        controls: { ...state.controls, [key]: { ...state.controls[key], scan: action.scan } },
+        lastScanPortal: action.scan.portal_id
+      }
+    }
+
+    case 'TRANSPORT_READY':
+      return { ...state, transportReady: action.ready }
+
+    case 'TRANSFER_COMPLETED':
+      return { ...state, lastTransfer: action.transfer }
+
+    case 'SYSTEM_RESET':
+      return withPending(
+        { ...state, controls: initialState.controls, lastScanPortal: null, transportReady: false },
+        {
+          portal1: { energy: { value: 0, confirmed: true } },
+          portal2: { energy: { value: 0, confirmed: true } },
+          bridge_strength: { value: 0, confirmed: true }
+        }
+      )
+
+    // Replay swaps in recorded frames but leaves controls alone, since those still act on the live backend
+    case 'REPLAY_STARTED':
+      return {
+        ...state,
+        replayRunId: action.run_id,
+        frame: EMPTY_FRAME,
+        view: EMPTY_FRAME,
+        history: [],
+        pending: initialState.pending
+      }
+
+    case 'REPLAY_FRAME':
+      return {
+        ...state,
+        frame: action.recorded.frame,
+        view: action.recorded.frame,
+        history: appendSample(state.history, toSample(action.recorded.frame, action.recorded.receivedAt))
+      }
+
+    case 'REPLAY_SEEKED': {
+      const frame = action.recorded[action.recorded.length - 1]?.frame ?? EMPTY_FRAME
+      return {
+        ...state,
+        frame,
+        view: frame,
+        history: action.recorded.slice(-MAX_HISTORY_SAMPLES).map(({ frame, receivedAt }) => toSample(frame, receivedAt))
+      }
+    }
+
+    case 'REPLAY_STOPPED':
+      return { ...state, replayRunId: null, frame: EMPTY_FRAME, view: EMPTY_FRAME, history: [] }
+  }
+}
+
+const store = createStore<SimulationState>(initialState)
+
+export function dispatch(action: Action) {
+  store.set(reducer(store.get(), action))
+}
+
+export const subscribe = store.subscribe
+
+export const getSimulationState = store.get
+
+export const selectView = (state: SimulationState) => state.view
+export const selectHistory = (state: SimulationState) => state.history
+export const selectReplayRunId = (state: SimulationState) => state.replayRunId
+export const selectPortal = (portal: PortalId) => (state: SimulationState) => state.view[portalKey(portal)]
+export const selectControls = (portal: PortalId) => (state: SimulationState) => state.controls[portalKey(portal)]
+export const selectLastTransfer = (state: SimulationState) => state.lastTransfer
+export const selectPortalEnergy = (portal: PortalId) => (state: SimulationState) =>
+  state.view[portalKey(portal)]?.energy ?? 0
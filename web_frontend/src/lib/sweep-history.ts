@@ -0,0 +1,90 @@
+import { z } from 'zod'
+import type { ParameterSweepResponse, SweepResult } from './api'
+import { sweepResultSchema } from './api-schemas'
+import { createPersistedStore } from './persisted-store'
+import { getSimulationState } from './simulation-store'
+import { evaluatePolicy, loadPolicy, loadTeam } from './sweep-policy'
+
+const STORAGE_KEY = 'stargate-sweep-history'
+// A 10x10 sweep is ~10 KB serialized, so this stays well inside the localStorage quota
+export const MAX_SWEEP_HISTORY = 30
+
+export type SweepSource = 'operations' | 'parameters'
+
+export interface SweepInputs {
+  sweepRangeEnergy: number;
+  sweepRangeFreq: number;
+}
+
+export interface SweepApproval {
+  team: string;
+  approved: boolean;
+  failedRules: string[];
+}
+
+export interface SweepRecord {
+  id: string;
+  recordedAt: number;
+  run_id: string | null;
+  source: SweepSource;
+  inputs: SweepInputs;
+  steps: number;
+  results: SweepResult[];
+  best: SweepResult;
+  approval: SweepApproval;
+}
+
+const sweepRecordSchema = z.object({
+  id: z.string(),
+  recordedAt: z.number(),
+  run_id: z.string().nullable(),
+  source: z.enum(['operations', 'parameters']),
+  inputs: z.object({ sweepRangeEnergy: z.number(), sweepRangeFreq: z.number() }),
+  steps: z.number(),
+  results: z.array(sweepResultSchema),
+  best: sweepResultSchema,
+  approval: z.object({ team: z.string(), approved: z.boolean(), failedRules: z.array(z.string()) })
+}) satisfies z.ZodType<SweepRecord>
+
+// Newest first
+const store = createPersistedStore<SweepRecord[]>(STORAGE_KEY, 'sweep history', z.array(sweepRecordSchema), [])
+
+export const getSweepHistory = store.get
+
+export const subscribeSweepHistory = store.subscribe
+
+// Approval is judged by the active team's policy against the sweep's best configuration,
+// which is what the operations panel proposes by default
+export function recordSweep(source: SweepSource, inputs: SweepInputs, response: ParameterSweepResponse) {
+  const team = loadTeam()
+  const steps = response.sweep_parameters.steps
+  const report = evaluatePolicy(loadPolicy(team), response.results, steps, response.best_result)
+  const record: SweepRecord = {
+    id: `sweep_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    recordedAt: Date.now(),
+    run_id: getSimulationState().frame.run_id ?? null,
+    source,
+    inputs,
+    steps,
+    results: response.results,
+    best: response.best_result,
+    approval: {
+      team,
+      approved: report.approved,
+      failedRules: report.rules.filter(rule => !rule.passed).map(rule => rule.label)
+    }
+  }
+  store.set([record, ...store.get()].slice(0, MAX_SWEEP_HISTORY))
+  return record
+}
+
+export function deleteSweep(id: string) {
+  store.set(store.get().filter(record => record.id !== id))
+}
+
+export function clearSweepHistory() {
+  store.set([])
+}
+
+export const averageStrength = (record: SweepRecord) =>
+  record.results.reduce((sum, result) => sum + result.bridge_strength, 0) / Math.max(record.results.length, 1)
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import type { SweepResult } from './api'
+import { RULE_DEFINITIONS, clampRule, evaluatePolicy, setRuleParam } from './sweep-policy'
+
+const result = (step: number, bridge_strength: number): SweepResult => ({
+  frequency1: 7.83,
+  frequency2: 7.83,
+  energy1: 10000,
+  energy2: 10000,
+  bridge_strength,
+  step
+})
+
+const results = [result(0, 0.9), result(1, 0.8), result(2, 0.7), result(3, 0.6)]
+
+describe('evaluatePolicy', () => {
+  it('approves when every enabled rule passes', () => {
+    const policy = { rules: [RULE_DEFINITIONS.min_strength.create('strength')] }
+    expect(evaluatePolicy(policy, results, 2, results[0]).approved).toBe(true)
+  })
+
+  it('does not approve a policy without enabled rules', () => {
+    expect(evaluatePolicy({ rules: [] }, results, 2, results[0]).approved).toBe(false)
+    const disabled = { ...RULE_DEFINITIONS.min_strength.create('strength'), enabled: false }
+    expect(evaluatePolicy({ rules: [disabled] }, results, 2, results[0]).approved).toBe(false)
+  })
+})
+
+describe('rule thresholds', () => {
+  it('keeps strengths and shares within [0, 1]', () => {
+    const strength = RULE_DEFINITIONS.min_strength.create('strength')
+    expect(setRuleParam(strength, 'threshold', 1.5)).toMatchObject({ threshold: 1 })
+    const share = RULE_DEFINITIONS.min_fraction_above.create('share')
+    expect(setRuleParam(share, 'fraction', -0.2)).toMatchObject({ fraction: 0 })
+  })
+
+  it('stops an edited band bound at the other bound', () => {
+    const band = RULE_DEFINITIONS.frequency_band.create('band')
+    expect(setRuleParam(band, 'minFreq', 9)).toMatchObject({ minFreq: 8.5, maxFreq: 8.5 })
+    expect(setRuleParam(band, 'maxFreq', 6)).toMatchObject({ minFreq: 7, maxFreq: 7 })
+  })
+
+  it('orders a stored band that arrives reversed', () => {
+    const band = { ...RULE_DEFINITIONS.frequency_band.create('band'), minFreq: 8.5, maxFreq: 7 }
+    expect(clampRule(band)).toMatchObject({ minFreq: 7, maxFreq: 8.5 })
+  })
+})
@@ -0,0 +1,240 @@
+import { z } from 'zod'
+import type { SweepResult } from './api'
+import { readStored, writeStored } from './persisted-store'
+
+// Approval policy for parameter sweeps: an ordered list of rules, each of which can be
+// switched off or tuned, evaluated into a per-rule report.
+
+export type PolicyRule =
+  | { id: string; kind: 'min_strength'; enabled: boolean; threshold: number }
+  | { id: string; kind: 'min_average'; enabled: boolean; threshold: number }
+  | { id: string; kind: 'min_fraction_above'; enabled: boolean; threshold: number; fraction: number }
+  | { id: string; kind: 'max_energy'; enabled: boolean; maxEnergy: number }
+  | { id: string; kind: 'frequency_band'; enabled: boolean; minFreq: number; maxFreq: number }
+  | { id: string; kind: 'neighbour_margin'; enabled: boolean; maxDrop: number }
+
+export type RuleKind = PolicyRule['kind']
+
+type RuleOf<K extends RuleKind> = Extract<PolicyRule, { kind: K }>
+
+// The tunable numeric settings of a rule kind
+export type RuleParam<K extends RuleKind> = Exclude<keyof RuleOf<K>, 'id' | 'kind' | 'enabled'>
+
+export interface SweepPolicy {
+  rules: PolicyRule[];
+}
+
+export interface RuleResult {
+  id: string;
+  kind: RuleKind;
+  label: string;
+  passed: boolean;
+  expected: string;
+  actual: string;
+}
+
+export interface PolicyReport {
+  approved: boolean;
+  candidate: SweepResult | null;
+  configurations: number;
+  rules: RuleResult[];
+}
+
+interface RuleContext {
+  results: SweepResult[];
+  steps: number;
+  candidate: SweepResult;
+}
+
+interface RuleDefinition<K extends RuleKind> {
+  label: string;
+  create: (id: string) => RuleOf<K>;
+  evaluate: (rule: RuleOf<K>, context: RuleContext) => { passed: boolean; expected: string; actual: string };
+}
+
+type RuleDefinitions = { [K in RuleKind]: RuleDefinition<K> }
+
+// Main.py emits a square grid in row-major order; neighbours share an edge in that grid
+const neighbours = ({ results, steps, candidate }: RuleContext) => {
+  const byStep = new Map(results.map(result => [result.step, result]))
+  const row = Math.floor(candidate.step / steps)
+  const col = candidate.step % steps
+  return [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]]
+    .filter(([r, c]) => r >= 0 && r < steps && c >= 0 && c < steps)
+    .map(([r, c]) => byStep.get(r * steps + c))
+    .filter((result): result is SweepResult => result !== undefined)
+}
+
+export const RULE_DEFINITIONS: RuleDefinitions = {
+  min_strength: {
+    label: 'Selected configuration bridge strength',
+    create: id => ({ id, kind: 'min_strength', enabled: true, threshold: 0.5 }),
+    evaluate: (rule, { candidate }) => ({
+      passed: candidate.bridge_strength >= rule.threshold,
+      expected: `≥ ${rule.threshold}`,
+      actual: candidate.bridge_strength.toFixed(3)
+    })
+  },
+  min_average: {
+    label: 'Average bridge strength across the sweep',
+    create: id => ({ id, kind: 'min_average', enabled: true, threshold: 0.3 }),
+    evaluate: (rule, { results }) => {
+      const average = results.reduce((sum, result) => sum + result.bridge_strength, 0) / results.length
+      return { passed: average >= rule.threshold, expected: `≥ ${rule.threshold}`, actual: average.toFixed(3) }
+    }
+  },
+  min_fraction_above: {
+    label: 'Share of configurations above threshold',
+    create: id => ({ id, kind: 'min_fraction_above', enabled: true, threshold: 0.5, fraction: 0.25 }),
+    evaluate: (rule, { results }) => {
+      const fraction = results.filter(result => result.bridge_strength >= rule.threshold).length / results.length
+      return {
+        passed: fraction >= rule.fraction,
+        expected: `≥ ${(rule.fraction * 100).toFixed(0)}% at ≥ ${rule.threshold}`,
+        actual: `${(fraction * 100).toFixed(0)}%`
+      }
+    }
+  },
+  max_energy: {
+    label: 'Selected configuration energy',
+    create: id => ({ id, kind: 'max_energy', enabled: true, maxEnergy: 20000 }),
+    evaluate: (rule, { candidate }) => {
+      const energy = Math.max(candidate.energy1, candidate.energy2)
+      return { passed: energy <= rule.maxEnergy, expected: `≤ ${rule.maxEnergy} J`, actual: `${energy.toFixed(0)} J` }
+    }
+  },
+  frequency_band: {
+    label: 'Selected frequencies within Schumann band',
+    create: id => ({ id, kind: 'frequency_band', enabled: true, minFreq: 7.0, maxFreq: 8.5 }),
+    evaluate: (rule, { candidate }) => {
+      const inBand = (freq: number) => freq >= rule.minFreq && freq <= rule.maxFreq
+      return {
+        passed: inBand(candidate.frequency1) && inBand(candidate.frequency2),
+        expected: `${rule.minFreq}–${rule.maxFreq} Hz`,
+        actual: `${candidate.frequency1.toFixed(3)} / ${candidate.frequency2.toFixed(3)} Hz`
+      }
+    }
+  },
+  neighbour_margin: {
+    label: 'Largest drop to a neighbouring configuration',
+    create: id => ({ id, kind: 'neighbour_margin', enabled: true, maxDrop: 0.2 }),
+    evaluate: (rule, context) => {
+      const drop = Math.max(0, ...neighbours(context).map(result => context.candidate.bridge_strength - result.bridge_strength))
+      return { passed: drop <= rule.maxDrop, expected: `≤ ${rule.maxDrop}`, actual: drop.toFixed(3) }
+    }
+  }
+}
+
+export const RULE_KINDS = Object.keys(RULE_DEFINITIONS) as RuleKind[]
+
+const clampUnit = (value: number) => Math.min(1, Math.max(0, value))
+
+// Strengths, shares and drops are fractions of a full bridge; energies cannot go negative and
+// a frequency band has to stay ordered
+export function clampRule(rule: PolicyRule): PolicyRule {
+  switch (rule.kind) {
+    case 'min_strength':
+    case 'min_average':
+      return { ...rule, threshold: clampUnit(rule.threshold) }
+    case 'min_fraction_above':
+      return { ...rule, threshold: clampUnit(rule.threshold), fraction: clampUnit(rule.fraction) }
+    case 'max_energy':
+      return { ...rule, maxEnergy: Math.max(0, rule.maxEnergy) }
+    case 'frequency_band':
+      return { ...rule, minFreq: Math.min(rule.minFreq, rule.maxFreq), maxFreq: Math.max(rule.minFreq, rule.maxFreq) }
+    case 'neighbour_margin':
+      return { ...rule, maxDrop: clampUnit(rule.maxDrop) }
+  }
+}
+
+export const ruleParam = <K extends RuleKind>(rule: RuleOf<K>, key: RuleParam<K>) => rule[key] as number
+
+// An edited band bound stops at the other bound rather than swapping them under the cursor
+export function setRuleParam<K extends RuleKind>(rule: RuleOf<K>, key: RuleParam<K>, value: number): PolicyRule {
+  const next = { ...rule, [key]: value } as PolicyRule
+  if (next.kind === 'frequency_band') {
+    return key === 'minFreq'
+      ? { ...next, minFreq: Math.min(next.minFreq, next.maxFreq) }
+      : { ...next, maxFreq: Math.max(next.minFreq, next.maxFreq) }
+  }
+  return clampRule(next)
+}
+
+const newRuleId = () => `rule_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`
+
+export const createRule = (kind: RuleKind): PolicyRule => RULE_DEFINITIONS[kind].create(newRuleId())
+
+// Matches the single rule the panel enforced before policies were configurable
+export const DEFAULT_POLICY: SweepPolicy = {
+  rules: [RULE_DEFINITIONS.min_strength.create('default_min_strength')]
+}
+
+const evaluateRule = <K extends RuleKind>(rule: RuleOf<K>, context: RuleContext) =>
+  (RULE_DEFINITIONS[rule.kind] as RuleDefinition<K>).evaluate(rule, context)
+
+export function evaluatePolicy(
+  policy: SweepPolicy,
+  results: SweepResult[],
+  steps: number,
+  candidate: SweepResult | null
+): PolicyReport {
+  if (results.length === 0 || !candidate) {
+    return { approved: false, candidate, configurations: results.length, rules: [] }
+  }
+  const context = { results, steps, candidate }
+  const rules = policy.rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ id: rule.id, kind: rule.kind, label: RULE_DEFINITIONS[rule.kind].label, ...evaluateRule(rule, context) }))
+  // A policy with nothing enabled has vetted nothing, so it cannot approve a sweep
+  return { approved: rules.length > 0 && rules.every(rule => rule.passed), candidate, configurations: results.length, rules }
+}
+
+// Strength threshold the heatmap contours against; falls back to the default rule's value
+export const strengthThreshold = (policy: SweepPolicy) => {
+  const rule = policy.rules.find(
+    (candidate): candidate is RuleOf<'min_strength'> => candidate.enabled && candidate.kind === 'min_strength'
+  )
+  return rule?.threshold ?? RULE_DEFINITIONS.min_strength.create('').threshold
+}
+
+const TEAM_KEY = 'stargate-sweep-policy-team'
+const POLICY_KEY_PREFIX = 'stargate-sweep-policy:'
+export const DEFAULT_TEAM = 'default'
+
+export function loadTeam(): string {
+  try {
+    return localStorage.getItem(TEAM_KEY) || DEFAULT_TEAM
+  } catch {
+    return DEFAULT_TEAM
+  }
+}
+
+export function saveTeam(team: string) {
+  try {
+    localStorage.setItem(TEAM_KEY, team)
+  } catch {
+    // Persisting the preference is best effort
+  }
+}
+
+// Rules are validated one at a time, so a rule of an unknown kind (or with a mangled
+// setting) is dropped without losing the rest of the team's policy
+const storedRuleSchema = z.object({ id: z.string(), kind: z.enum(RULE_KINDS), enabled: z.boolean() }).catchall(z.number())
+const storedPolicySchema = z.object({ rules: z.array(z.unknown()) })
+
+export function loadPolicy(team: string): SweepPolicy {
+  const stored = readStored(POLICY_KEY_PREFIX + team, storedPolicySchema, null)
+  if (!stored) return DEFAULT_POLICY
+  return {
+    rules: stored.rules.flatMap(raw => {
+      const parsed = storedRuleSchema.safeParse(raw)
+      if (!parsed.success) return []
+      const rule = parsed.data
+      return [clampRule({ ...RULE_DEFINITIONS[rule.kind].create(rule.id), ...rule } as PolicyRule)]
+    })
+  }
+}
+
+export function savePolicy(team: string, policy: SweepPolicy) {
+  writeStored(POLICY_KEY_PREFIX + team, policy, 'sweep policy')
+}
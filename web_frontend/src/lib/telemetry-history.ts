@@ -0,0 +1,92 @@
+import type { PortalFrame, SimulationFrame } from './frame-schema'
+
+// One flattened /ws frame. `receivedAt` is wall-clock milliseconds; the frame's own
+// `timestamp` is the backend event-loop clock and is kept only for reference.
+export interface TelemetrySample {
+  receivedAt: number;
+  timestamp: number;
+  run_id: string | null;
+  portal1_freq: number | null;
+  portal1_stability: number | null;
+  portal1_energy: number | null;
+  portal1_power: number | null;
+  portal1_floor_temp: number | null;
+  portal2_freq: number | null;
+  portal2_stability: number | null;
+  portal2_energy: number | null;
+  portal2_power: number | null;
+  portal2_floor_temp: number | null;
+  bridge_strength: number;
+  transfer_energy: number;
+  detune: number;
+}
+
+export type TelemetryField = Exclude<keyof TelemetrySample, 'receivedAt' | 'timestamp' | 'run_id'>
+
+// Frames arrive every 2 s, so this keeps roughly six hours of a single run
+export const MAX_HISTORY_SAMPLES = 10800
+
+export type HistoryWindow = '1m' | '10m' | 'run'
+
+export const HISTORY_WINDOWS: { id: HistoryWindow; label: string; durationMs: number | null }[] = [
+  { id: '1m', label: '1 min', durationMs: 60_000 },
+  { id: '10m', label: '10 min', durationMs: 600_000 },
+  { id: 'run', label: 'Whole run', durationMs: null }
+]
+
+const portalFields = (portal: PortalFrame | null) => ({
+  freq: portal?.freq ?? null,
+  stability: portal?.stability ?? null,
+  energy: portal?.energy ?? null,
+  power: portal?.power ?? null,
+  floor_temp: portal?.floor_temp ?? null
+})
+
+export function toSample(frame: SimulationFrame, receivedAt: number): TelemetrySample {
+  const p1 = portalFields(frame.portal1)
+  const p2 = portalFields(frame.portal2)
+  return {
+    receivedAt,
+    timestamp: frame.timestamp,
+    run_id: frame.run_id ?? null,
+    portal1_freq: p1.freq,
+    portal1_stability: p1.stability,
+    portal1_energy: p1.energy,
+    portal1_power: p1.power,
+    portal1_floor_temp: p1.floor_temp,
+    portal2_freq: p2.freq,
+    portal2_stability: p2.stability,
+    portal2_energy: p2.energy,
+    portal2_power: p2.power,
+    portal2_floor_temp: p2.floor_temp,
+    bridge_strength: frame.bridge_strength,
+    transfer_energy: frame.transfer_energy,
+    detune: frame.detune
+  }
+}
+
+// Starts a fresh buffer whenever the backend reports a new run so "whole run" means exactly that
+export function appendSample(history: TelemetrySample[], sample: TelemetrySample): TelemetrySample[] {
+  const last = history[history.length - 1]
+  if (last && last.run_id !== sample.run_id) return [sample]
+  const next = [...history, sample]
+  return next.length > MAX_HISTORY_SAMPLES ? next.slice(-MAX_HISTORY_SAMPLES) : next
+}
+
+// Windows are measured back from the newest sample, so a paused chart keeps its span
+export function windowSamples(history: TelemetrySample[], window: HistoryWindow): TelemetrySample[] {
+  const durationMs = HISTORY_WINDOWS.find(option => option.id === window)?.durationMs
+  const last = history[history.length - 1]
+  if (!durationMs || !last) return history
+  const since = last.receivedAt - durationMs
+  const start = history.findIndex(sample => sample.receivedAt >= since)
+  return start <= 0 ? history : history.slice(start)
+}
+
+// Thins long windows to at most `maxPoints` evenly spaced samples, always keeping the newest
+export function downsample(samples: TelemetrySample[], maxPoints: number): TelemetrySample[] {
+  if (samples.length <= maxPoints) return samples
+  const stride = Math.ceil(samples.length / maxPoints)
+  const last = samples.length - 1
+  return samples.filter((_, index) => (last - index) % stride === 0)
+}
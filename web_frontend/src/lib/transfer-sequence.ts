@@ -0,0 +1,198 @@
+import * as api from './api'
+import * as actions from './simulation-actions'
+import { portalKey, type SimulationState } from './simulation-store'
+
+export const MIN_BRIDGE_STRENGTH = 0.5
+export const MIN_PORTAL_ENERGY = 1000
+
+export interface SequenceContext {
+  state: SimulationState;
+  // Best configuration from the sequencer's own sweep step
+  bestSweep: api.SweepResult | null;
+}
+
+export interface Precondition {
+  label: string;
+  ok: boolean;
+  detail?: string;
+}
+
+export interface SequenceStep {
+  id: string;
+  title: string;
+  description: string;
+  preconditions: (context: SequenceContext) => Precondition[];
+  // Resolves with a summary for the operator; throws with the reason the step failed
+  run: (context: SequenceContext) => Promise<{ message: string; bestSweep?: api.SweepResult }>;
+}
+
+const initialized = ({ state }: SequenceContext): Precondition => ({
+  label: 'Simulation initialized and streaming',
+  ok: Boolean(state.view.run_id && state.view.portal1 && state.view.portal2),
+  detail: state.view.run_id ? undefined : 'Waiting for a frame with portal data'
+})
+
+const portalSafe = (portal: api.PortalId) => ({ state }: SequenceContext): Precondition => {
+  const data = state.view[portalKey(portal)]
+  return {
+    label: `Portal ${portal} safety_status OK`,
+    ok: data?.safety_status === true,
+    detail: data ? (data.safety_status ? undefined : 'Floor sensors report an unsafe condition') : 'No portal data'
+  }
+}
+
+const portalEnergized = (portal: api.PortalId) => ({ state }: SequenceContext): Precondition => {
+  const energy = state.view[portalKey(portal)]?.energy ?? 0
+  return {
+    label: `Portal ${portal} energy > ${MIN_PORTAL_ENERGY} J`,
+    ok: energy > MIN_PORTAL_ENERGY,
+    detail: `${energy.toFixed(0)} J`
+  }
+}
+
+const portalLocked = (portal: api.PortalId) => ({ state }: SequenceContext): Precondition => ({
+  label: `Portal ${portal} locked`,
+  ok: state.controls[portalKey(portal)].lock === 'LOCKED'
+})
+
+const payloadLoaded = ({ state }: SequenceContext): Precondition => {
+  const payload = state.controls.portal1.payload ?? state.controls.portal2.payload
+  return {
+    label: 'Payload loaded',
+    ok: payload !== null,
+    detail: payload ? `${payload.type} - ${payload.mass} kg` : undefined
+  }
+}
+
+const bridgeReady = ({ state }: SequenceContext): Precondition => ({
+  label: `Bridge strength ≥ ${MIN_BRIDGE_STRENGTH}`,
+  ok: state.view.bridge_strength >= MIN_BRIDGE_STRENGTH,
+  detail: state.view.bridge_strength.toFixed(3)
+})
+
+const sweepApproved = ({ bestSweep }: SequenceContext): Precondition => ({
+  label: `Sweep found a configuration with bridge strength ≥ ${MIN_BRIDGE_STRENGTH}`,
+  ok: bestSweep !== null && bestSweep.bridge_strength >= MIN_BRIDGE_STRENGTH,
+  detail: bestSweep ? `best ${bestSweep.bridge_strength.toFixed(3)}` : 'Sweep not run yet'
+})
+
+const checks = (...conditions: ((context: SequenceContext) => Precondition)[]) =>
+  (context: SequenceContext) => conditions.map(condition => condition(context))
+
+const energyOnStep = (portal: api.PortalId): SequenceStep => ({
+  id: `energy-${portal}`,
+  title: `Energy ON - Portal ${portal}`,
+  description: `Bring Portal ${portal} to its minimum operating energy.`,
+  preconditions: checks(initialized),
+  run: async () => {
+    const data = await actions.controlEnergy({ portal_id: portal, action: 'on' })
+    return { message: `Portal ${portal} energized at ${data.new_energy} J` }
+  }
+})
+
+export const SEQUENCE_STEPS: SequenceStep[] = [
+  {
+    id: 'initialize',
+    title: 'Initialize',
+    description: 'Start a new run with the default subject payload.',
+    preconditions: () => [],
+    run: async () => {
+      const data = await actions.initialize()
+      return { message: `Run ${data.run_id} initialized` }
+    }
+  },
+  energyOnStep(1),
+  energyOnStep(2),
+  {
+    id: 'load-payload',
+    title: 'Load payload',
+    description: 'Commit a payload to Portal 1. Payloads already committed from Payload Controls are kept.',
+    preconditions: checks(initialized),
+    run: async ({ state }) => {
+      const existing = state.controls.portal1.payload ?? state.controls.portal2.payload
+      if (existing) return { message: `Using committed payload ${existing.type} - ${existing.mass} kg` }
+      const portal = state.view.portal1
+      const payload = { type: 'Biological', volume: portal?.payload_volume ?? 0.1, mass: portal?.payload_mass ?? 75.0 }
+      await actions.loadPayload(1, payload)
+      return { message: `Loaded ${payload.type} (${payload.mass} kg, ${payload.volume} m³) into Portal 1` }
+    }
+  },
+  {
+    id: 'sweep',
+    title: 'Parameter sweep',
+    description: 'Search frequency and energy around the current settings for the strongest bridge.',
+    preconditions: checks(initialized, portalEnergized(1), portalEnergized(2)),
+    run: async () => {
+      const data = await api.parameterSweep({ energy_range: 1000, freq_range: 0.5 })
+      const best = data.best_result
+      if (best.bridge_strength < MIN_BRIDGE_STRENGTH) {
+        throw new Error(`Best bridge strength ${best.bridge_strength.toFixed(3)} is below the ${MIN_BRIDGE_STRENGTH} minimum`)
+      }
+      return { message: `Best of ${data.results.length} configurations: ${best.bridge_strength.toFixed(3)}`, bestSweep: best }
+    }
+  },
+  {
+    id: 'apply-optimal',
+    title: 'Apply optimal parameters',
+    description: 'Send the best sweep configuration to both portals.',
+    preconditions: checks(sweepApproved),
+    run: async ({ bestSweep }) => {
+      if (!bestSweep) throw new Error('No sweep result to apply')
+      const data = await actions.applyParameters({
+        frequency1: bestSweep.frequency1,
+        frequency2: bestSweep.frequency2,
+        energy1: bestSweep.energy1,
+        energy2: bestSweep.energy2
+      })
+      return { message: `Applied - bridge strength ${data.bridge_strength.toFixed(3)}` }
+    }
+  },
+  {
+    id: 'lock',
+    title: 'Lock portals',
+    description: 'Lock both gates for transport.',
+    preconditions: checks(initialized, portalSafe(1), portalSafe(2)),
+    run: async ({ state }) => {
+      for (const portal of [1, 2] as const) {
+        if (state.controls[portalKey(portal)].lock !== 'LOCKED') await actions.lockPortal(portal)
+      }
+      return { message: 'Portals 1 and 2 locked' }
+    }
+  },
+  {
+    id: 'form-bridge',
+    title: 'Form bridge',
+    description: 'Establish the resonance bridge between the locked portals.',
+    preconditions: checks(portalSafe(1), portalSafe(2), portalEnergized(1), portalEnergized(2), portalLocked(1), portalLocked(2)),
+    run: async () => {
+      const data = await actions.formBridge()
+      if (data.bridge_strength < MIN_BRIDGE_STRENGTH) {
+        throw new Error(`Bridge strength ${data.bridge_strength.toFixed(3)} is below the ${MIN_BRIDGE_STRENGTH} minimum`)
+      }
+      return { message: `Bridge formed at ${data.bridge_strength.toFixed(3)}` }
+    }
+  },
+  {
+    id: 'transfer',
+    title: 'Transfer payload',
+    description: 'Send the payload across the bridge.',
+    preconditions: checks(bridgeReady, payloadLoaded, portalSafe(1), portalSafe(2), portalLocked(1), portalLocked(2)),
+    run: async () => {
+      const data = await actions.transferPayload()
+      const result = data.transfer_result
+      if (!result.success) throw new Error(`Transfer failed: ${result.reason}`)
+      return { message: `${result.energy_transferred.toFixed(1)} J transferred, ${result.energy_consumed.toFixed(1)} J consumed` }
+    }
+  },
+  {
+    id: 'unlock-reset',
+    title: 'Unlock & reset',
+    description: 'Unlock both gates and return the system to idle.',
+    preconditions: checks(initialized),
+    run: async () => {
+      await actions.unlockPortals()
+      await actions.resetSystem()
+      return { message: 'Portals unlocked and system reset to idle' }
+    }
+  }
+]